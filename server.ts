@@ -2,31 +2,164 @@
  * Gallery + Wildcards + Costs + Config Server
  *
  * Config (SQLite):
- *   GET   /api/config               → { galleryDir, apiKey }
- *   PATCH /api/config               → { galleryDir?, apiKey? }
+ *   GET   /api/config               → { galleryDir, wildcardsDir, hasApiKey, provider, geminiModel, openaiBaseUrl,
+ *                                       openaiModel, hasOpenaiApiKey } (keys themselves are never returned)
+ *   PATCH /api/config               → { galleryDir?, wildcardsDir?, apiKey?, provider?, geminiModel?,
+ *                                       openaiBaseUrl?, openaiModel?, openaiApiKey? }
+ *
+ * Model pricing (USD per million tokens; generation costs use the selected model's row):
+ *   GET    /api/pricing             → { models[] }
+ *   PUT    /api/pricing             → upsert { provider, model, inputPerMTok, outputPerMTok, imagePerMTok } → { model }
+ *   DELETE /api/pricing/:id         → remove a model's rates
+ *
+ * Tag dictionary (Danbooru CSV: tag,category,post_count[,"aliases"] — see server/tagDictionary.ts):
+ *   GET    /api/tags                → { count }
+ *   POST   /api/tags/import         → { content } or { path } replaces the dictionary → { imported, malformed }
+ *   DELETE /api/tags                → empty the dictionary
+ *   GET    /api/tags/complete?q=&limit=10  → { tags[{ name, category, postCount, alias? }] } prefix matches, most used first
+ *   POST   /api/tags/lookup         → { tags[] } → { loaded, tags: { [tag]: info | null }, suggestions: { [tag]: string[] } }
  *
  * Gallery:
  *   GET  /api/gallery              → JSON list of image filenames, newest first
  *   GET  /gallery-images/:f        → serves the image file
  *
+ * Collections (named wildcard lists; 'generated' and 'saved' are built in):
+ *   GET    /api/collections                          → { collections[] } with item counts
+ *   POST   /api/collections                          → create { name } → { collection }
+ *   PATCH  /api/collections/:id                      → update { name?, visible? }
+ *   DELETE /api/collections/:id                      → delete a custom collection; its wildcards go to the trash
+ *                                                     → { batchId, trashed }
+ *
  * Wildcards (SQLite, cursor-based pagination on rowid DESC — newest first):
- *   GET    /api/wildcards?list=&limit=50&cursor=&q=  → { items[], total, nextCursor }
- *   POST   /api/wildcards                            → batch create { items[] }
- *   PATCH  /api/wildcards/:id                        → update { list?, previewUrl? }
- *   DELETE /api/wildcards/:id                        → delete one
- *   DELETE /api/wildcards?list=generated|saved       → clear a list
+ *   GET    /api/wildcards?list=&limit=50&cursor=&q=  → { items[], total, nextCursor } (total only on the first page)
+ *            q: words, prefix*, "exact_tag", -exclude, a OR b, lint:any / lint:<code>
+ *   POST   /api/wildcards                            → batch create { items[] } (items may carry generationId,
+ *                                                       parentId, copiedFrom); an existing id is updated in place
+ *   POST   /api/wildcards/import                     → import .txt/.yaml wildcard files
+ *            { files?: {name, content}[], dir?, list? } → { added, skipped, malformed, files[] }
+ *   POST   /api/wildcards/replace                    → bulk find/replace (see server/findReplace.ts)
+ *            { mode: tag|regex, find, replace, caseSensitive?, list?, q?, dryRun? }
+ *            → { dryRun, scanned, changed, skipped, lists[], changes[{ id, list, before, after }] } (first 500 changes)
+ *   POST   /api/wildcards/batch/delete               → { ids[] } → { deleted, batchId } into the trash
+ *   POST   /api/wildcards/batch/move                 → { ids[], list } → { moved }
+ *   POST   /api/wildcards/batch/copy                 → { ids[], list } → { items[], skipped } copies, like Save;
+ *                                                       texts already in the target are skipped
+ *   POST   /api/wildcards/batch/tags                 → { ids[], add?: string[], remove?: string[] }
+ *                                                     → { items[{ id, text }], skipped } the wildcards that changed
+ *            batches take at most 1000 ids
+ *   PATCH  /api/wildcards/:id                        → update { text?, list?, previewUrl? }
+ *   GET    /api/wildcards/:id/history                → { edits[] } previous texts, newest first
+ *   GET    /api/wildcards/:id/lineage                → { rootId, nodes[] } the refine/copy tree the wildcard belongs to
+ *   DELETE /api/wildcards/:id                        → move one to the trash → { batchId, trashed }
+ *            an id that is already gone answers { trashed: 0 }
+ *   DELETE /api/wildcards?list=<collectionId>        → clear a list into the trash → { batchId, trashed }
+ *            an unknown list answers 404
+ *
+ * Trash (deleted wildcards with their previews and history; purged after the retention period on startup):
+ *   GET    /api/trash?limit=50&cursor=  → { items[{ id, text, list, listName, batchId, deletedAt }], total, nextCursor }
+ *   GET    /api/trash/settings      → { retentionDays }
+ *   PATCH  /api/trash/settings      → { retentionDays } (1–3650)
+ *   POST   /api/trash/restore       → { batchId } (undo one delete) or { ids[] } → { restored, lists[], conflicts[] }
+ *            a deleted collection is recreated from its name; an entry whose wildcard id is
+ *            taken again stays in the trash and is listed in conflicts
+ *   DELETE /api/trash               → { ids[] } deletes those for good; without ids empties the trash → { purged }
+ *
+ * Duplicates (near-duplicates by tag-set Jaccard similarity — see server/similarity.ts):
+ *   GET   /api/duplicates/settings  → { threshold, action } action: off | flag | drop, applied to new generations
+ *   PATCH /api/duplicates/settings  → { threshold?, action? } → { threshold, action }
+ *   POST  /api/duplicates/check     → { text, list?, threshold? } → { match: { item, score } | null } closest wildcard
+ *   GET   /api/duplicates?list=&threshold=  → { threshold, total, groups[{ score, items[] }] } closest groups first
+ *   POST  /api/duplicates/merge     → { keepId, removeIds[] } → { item } folds the others into the kept wildcard
+ *
+ * Export (ComfyUI / A1111 wildcard files — one wildcard per line, used as __name__):
+ *   GET  /api/export?list=          → download <name>.txt, or a .zip of every collection without `list`
+ *   POST /api/export                → { list? } write the file(s) into the configured wildcards folder
+ *
+ * Generate (with the provider chosen in the config table — see server/llm.ts):
+ *   POST /api/generate              → { prompt, systemInstruction, count, refining?, refiningId?, referenceImages?,
+ *                                       sessionId? }
+ *                                     → { items[], cost, sessionCost, allTimeCost, duplicatesDropped?, error? }
+ *            runs in batches of 10, saves each batch into 'generated' and adds its cost to the
+ *            session and all-time totals; a failed batch keeps earlier ones and answers 502
+ *   POST /api/generate/stream       → same body, answered as Server-Sent Events:
+ *            start { id, provider, model } · batch { batch, batches } · item { id, text, createdAt, duplicateOf? }
+ *            · done { cost, sessionCost, allTimeCost, cancelled?, duplicatesDropped?, error? }
+ *            near-duplicates of existing wildcards are flagged with duplicateOf or dropped, per the duplicate settings
+ *   POST /api/generate/:id/cancel   → stop a running generation; what it produced so far is kept and billed
+ *   POST /api/generate/estimate     → same body → { estimate, spend, limits, mode, exceeded[] } pre-flight check
+ *            both generate routes refuse a run whose estimate would exceed a budget: 402 in 'block' mode,
+ *            409 in 'confirm' mode unless the body has confirmOverBudget: true
  *
- * Costs (SQLite):
+ * Budgets (USD; null = no limit; daily/monthly spend is summed from the per-call cost records):
+ *   GET   /api/budget               → { limits: { session, daily, monthly }, mode, spend: { daily, monthly } }
+ *   PATCH /api/budget               → { session?, daily?, monthly?, mode? }
+ *
+ * Generation history (every run's inputs, output wildcard ids, token usage and cost):
+ *   GET    /api/generations?limit=20&cursor=  → { generations[], nextCursor } newest first, without reference images
+ *   GET    /api/generations/:id               → { generation, wildcards[] } with reference images and the outputs
+ *                                              that still exist
+ *   DELETE /api/generations/:id               → forget a run (its wildcards and cost records are kept)
+ *
+ * Costs (SQLite; every LLM call is kept in cost_records for reporting):
  *   GET   /api/costs                → { total: number, sessions: Session[] }
  *   POST  /api/costs/session        → create session row → { id }
- *   PATCH /api/costs/session/:id    → { amount } update running session total
- *   PATCH /api/costs/total          → { delta } add to all-time total
+ *   GET   /api/costs/analytics?from=&to=&bucket=day|week
+ *                                   → { bucket, total, periods[{ start, cost, calls, byModel }], models[] }
+ *            from/to are ms timestamps (to exclusive); periods are in server local time, weeks start on Monday
+ *   GET   /api/costs/export?from=&to=  → download every LLM call in range as CSV
+ *
+ * Backups (SQLite snapshots in ./backups — see server/backup.ts; automatic ones on a schedule, rotated):
+ *   GET    /api/backups             → { backups[{ name, kind, size, createdAt }], dir } newest first
+ *   POST   /api/backups             → take a manual backup now → { backup }
+ *   GET    /api/backups/settings    → { intervalHours, keep } (intervalHours 0 = no automatic backups)
+ *   PATCH  /api/backups/settings    → { intervalHours?, keep? } (0–720, 1–100)
+ *   GET    /api/backups/export?secrets=1  → download the portable JSON export (API keys only with secrets=1)
+ *   POST   /api/backups/import      → { content } a JSON export replaces the tables it has → { imported, backup }
+ *   GET    /api/backups/:name       → download a backup file
+ *   POST   /api/backups/:name/restore  → replace the data with the backup's → { restored, backup }
+ *   DELETE /api/backups/:name       → delete a backup file
+ *            restore and import take a pre-restore backup first (returned as `backup`)
+ *
+ * Requests and errors (see src/api/contract.ts, shared with the client):
+ *   every body and query string is checked against its schema; unknown fields are dropped
+ *   errors answer { error, code, issues? }, code by status: 400 invalid_request (issues[{ path, message }]),
+ *   402 over_budget, 403 forbidden, 404 not_found, 409 conflict, 413 too_large, 502 upstream_error,
+ *   500 internal_error; malformed JSON is a 400 and an unknown /api route a 404
  */
 
-import express from 'express';
+import express, { NextFunction, Request, Response } from 'express';
 import fs from 'fs';
 import path from 'path';
 import Database from 'better-sqlite3';
+import { createZip } from './server/zip';
+import { toCsv } from './server/csv';
+import { IMPORT_EXTS, parseWildcardFile } from './server/wildcardImport';
+import { compileSearch, hasTag } from './server/searchQuery';
+import { lintWildcard } from './src/utils/tagLint';
+import { editDistance, maxSuggestionDistance, normalizeDictionaryTag, parseTagCsv } from './server/tagDictionary';
+import { SimilarityIndex, createSimilarityIndex, findDuplicateGroups } from './server/similarity';
+import { compileReplace, editTags } from './server/findReplace';
+import { Schema, describeIssues, validate } from './src/api/validation';
+import {
+  AddWildcardsBody, BackupList, BackupSettingsBody, BatchIdsBody, BatchTagsBody, BatchTargetBody, BudgetPatchBody, ConfigPatch,
+  CopyResult, CostRangeQuery, CreateCollectionBody, DUPLICATE_ACTIONS, DuplicateCheckBody, DuplicateMatch, DuplicateSettingsBody,
+  DuplicatesQuery, DuplicatesResult, EditTagsResult, ExportBody, ExportQuery, FetchListResult, GenerateRequest,
+  ImportDatabaseBody, ImportFilesBody, ImportReport, ListQuery, ListWildcardsQuery, MergeDuplicatesBody, PageQuery,
+  PreviewBody, PricingBody, PurgeTrashBody, ReplaceRequest, RestoreResult, RestoreTrashBody, SessionBody, TagCompleteQuery,
+  TagImportBody, TagImportResult, TagLookupBody, TagLookupResult, TrashPage, TrashSettingsBody, UpdateCollectionBody,
+  UpdateWildcardBody, errorCodeForStatus,
+} from './src/api/contract';
+import {
+  BackupInfo, BackupKind, DatabaseExport, EXPORT_FORMAT, EXPORT_TABLES, EXPORT_VERSION, SECRET_CONFIG_KEYS,
+  backupFileName, listBackups, parseBackupName, parseExport, rotateBackups,
+} from './server/backup';
+import { pendingMigrations, runMigrations, schemaVersion, seedModelPricing } from './server/migrations';
+import {
+  DEFAULT_OUTPUT_TOKENS_PER_WILDCARD, GenerateOptions, LlmProvider, ModelRates, ProviderId, TokenUsage,
+  estimateUsage, planBatches, usageCost,
+} from './server/llm';
+import { createGeminiProvider, DEFAULT_GEMINI_MODEL } from './server/gemini';
+import { createOpenAiCompatibleProvider } from './server/openaiCompatible';
 
 const app = express();
 const PORT = Number(process.env.PORT ?? 3001);
@@ -34,34 +167,64 @@ const isProd = process.env.NODE_ENV === 'production';
 const DIST = path.join(process.cwd(), 'dist');
 const IMAGE_EXTS = new Set(['.png', '.jpg', '.jpeg', '.webp', '.gif', '.avif']);
 const DB_PATH = path.join(process.cwd(), 'wildcards.db');
+const BACKUP_DIR = path.join(process.cwd(), 'backups');
 
 // ── Database ──────────────────────────────────────────────────────────────────
 const db = new Database(DB_PATH);
 db.pragma('journal_mode = WAL');
-db.exec(`
-  CREATE TABLE IF NOT EXISTS wildcards (
-    id          TEXT PRIMARY KEY,
-    text        TEXT NOT NULL,
-    list        TEXT NOT NULL CHECK(list IN ('generated', 'saved')),
-    preview_url TEXT,
-    created_at  INTEGER NOT NULL
-  );
-  CREATE INDEX IF NOT EXISTS idx_wildcards_list_text ON wildcards(list, text);
-  CREATE TABLE IF NOT EXISTS wildcard_previews (
-    id          TEXT PRIMARY KEY,
-    wildcard_id TEXT NOT NULL REFERENCES wildcards(id),
-    url         TEXT NOT NULL,
-    created_at  INTEGER NOT NULL
-  );
-  CREATE INDEX IF NOT EXISTS idx_wp_wildcard_id ON wildcard_previews(wildcard_id);
-  CREATE TABLE IF NOT EXISTS costs (
-    id         TEXT PRIMARY KEY,
-    type       TEXT NOT NULL CHECK(type IN ('session', 'total')),
-    label      TEXT,
-    amount     REAL NOT NULL DEFAULT 0,
-    created_at INTEGER NOT NULL
-  );
-`);
+// INSERT OR REPLACE deletes the old row without firing DELETE triggers (which keep
+// the full-text index in sync) unless recursive_triggers is on.
+db.pragma('recursive_triggers = ON');
+
+// ── Migrations ────────────────────────────────────────────────────────────────
+// See server/migrations.ts. Started with --dry-run-migrations, the server runs the
+// pending migrations, rolls them back and exits, to check an upgrade safely.
+{
+  const pending = pendingMigrations(db);
+  const dryRun = process.argv.includes('--dry-run-migrations');
+  try {
+    if (dryRun) {
+      runMigrations(db, { dryRun: true });
+      console.log(pending.length
+        ? `Dry run: ${pending.length} migration(s) would apply cleanly (schema version ${schemaVersion(db)} → ${pending[pending.length - 1].version})`
+        : `No pending migrations (schema version ${schemaVersion(db)})`);
+      for (const m of pending) console.log(`  ${m.version} ${m.name}`);
+      process.exit(0);
+    }
+    // An existing database is backed up before it is changed; a new one has nothing to lose.
+    const existing = db.prepare("SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = 'wildcards'").get();
+    if (pending.length > 0 && existing) {
+      fs.mkdirSync(BACKUP_DIR, { recursive: true });
+      const file = path.join(BACKUP_DIR, backupFileName('pre-migration'));
+      db.prepare('VACUUM INTO ?').run(file);
+      console.log(`Database backed up before migrating: ${file}`);
+    }
+    for (const m of runMigrations(db)) console.log(`Applied migration ${m.version}: ${m.name}`);
+  } catch (err) {
+    console.error((err as Error).message);
+    process.exit(1);
+  }
+}
+
+// A run still marked running was cut short by a server stop.
+db.prepare(`
+  UPDATE generations SET status = 'failed', error = 'Server stopped during generation'
+  WHERE status = 'running'
+`).run();
+
+// Built-in collections: new generations land in 'generated', the Save button copies to 'saved'.
+const BUILTIN_COLLECTIONS = [
+  { id: 'generated', name: 'Generated' },
+  { id: 'saved', name: 'Saved' },
+];
+const BUILTIN_IDS = new Set(BUILTIN_COLLECTIONS.map((c) => c.id));
+
+function seedBuiltinCollections() {
+  const stmt = db.prepare('INSERT OR IGNORE INTO collections (id, name, visible, created_at) VALUES (?, ?, 1, ?)');
+  const now = Date.now();
+  for (const c of BUILTIN_COLLECTIONS) stmt.run(c.id, c.name, now);
+}
+seedBuiltinCollections();
 
 // Ensure the persistent all-time total row exists
 db.prepare(`
@@ -78,45 +241,53 @@ db.prepare(`
 `).run();
 
 // ── Config table ──────────────────────────────────────────────────────────────
-db.exec(`
-  CREATE TABLE IF NOT EXISTS config (
-    key   TEXT PRIMARY KEY,
-    value TEXT NOT NULL DEFAULT ''
-  );
-`);
 db.prepare(`INSERT OR IGNORE INTO config (key, value) VALUES ('gallery_dir', '')`).run();
+db.prepare(`INSERT OR IGNORE INTO config (key, value) VALUES ('wildcards_dir', '')`).run();
 db.prepare(`INSERT OR IGNORE INTO config (key, value) VALUES ('api_key', '')`).run();
+db.prepare(`INSERT OR IGNORE INTO config (key, value) VALUES ('llm_provider', 'gemini')`).run();
+db.prepare(`INSERT OR IGNORE INTO config (key, value) VALUES ('gemini_model', ?)`).run(DEFAULT_GEMINI_MODEL);
+db.prepare(`INSERT OR IGNORE INTO config (key, value) VALUES ('openai_base_url', '')`).run();
+db.prepare(`INSERT OR IGNORE INTO config (key, value) VALUES ('openai_model', '')`).run();
+db.prepare(`INSERT OR IGNORE INTO config (key, value) VALUES ('openai_api_key', '')`).run();
+db.prepare(`INSERT OR IGNORE INTO config (key, value) VALUES ('budget_session', '')`).run();
+db.prepare(`INSERT OR IGNORE INTO config (key, value) VALUES ('budget_daily', '')`).run();
+db.prepare(`INSERT OR IGNORE INTO config (key, value) VALUES ('budget_monthly', '')`).run();
+db.prepare(`INSERT OR IGNORE INTO config (key, value) VALUES ('budget_mode', 'confirm')`).run();
+db.prepare(`INSERT OR IGNORE INTO config (key, value) VALUES ('duplicate_threshold', '0.8')`).run();
+db.prepare(`INSERT OR IGNORE INTO config (key, value) VALUES ('duplicate_action', 'flag')`).run();
+db.prepare(`INSERT OR IGNORE INTO config (key, value) VALUES ('trash_retention_days', '30')`).run();
+db.prepare(`INSERT OR IGNORE INTO config (key, value) VALUES ('backup_interval_hours', '24')`).run();
+db.prepare(`INSERT OR IGNORE INTO config (key, value) VALUES ('backup_keep', '7')`).run();
 
-// ── Migrations ────────────────────────────────────────────────────────────────
-// Drop the old position column and its index if they still exist from a prior schema.
-try {
-  db.exec('DROP INDEX IF EXISTS idx_wildcards_list_pos');
-  db.exec('ALTER TABLE wildcards DROP COLUMN position');
-} catch { /* already migrated or column never existed */ }
-
-// Migrate existing preview_url values into the wildcard_previews table so that
-// wildcards created before the multi-preview feature still show their thumbnail.
-{
-  const rows = db.prepare(
-    "SELECT id, preview_url FROM wildcards WHERE preview_url IS NOT NULL AND preview_url != ''"
-  ).all() as { id: string; preview_url: string }[];
-  const insertPreview = db.prepare(
-    'INSERT OR IGNORE INTO wildcard_previews (id, wildcard_id, url, created_at) VALUES (?, ?, ?, ?)'
-  );
-  db.transaction(() => {
-    for (const w of rows) {
-      const already = db.prepare('SELECT 1 FROM wildcard_previews WHERE wildcard_id = ? AND url = ?').get(w.id, w.preview_url);
-      if (!already) insertPreview.run(crypto.randomUUID(), w.id, w.preview_url, Date.now());
-    }
-  })();
-}
+// ── Search functions ──────────────────────────────────────────────────────────
+db.function('has_tag', { deterministic: true }, (text, tag) => (hasTag(String(text), String(tag)) ? 1 : 0));
+// has_lint(text, code): the linter flags `text` with `code`, or with anything for 'any'.
+db.function('has_lint', { deterministic: true }, (text, code) => {
+  const issues = lintWildcard(String(text));
+  return (code === 'any' ? issues.length > 0 : issues.some((i) => i.code === code)) ? 1 : 0;
+});
 
 function getConfigValue(key: string): string {
   const row = db.prepare(`SELECT value FROM config WHERE key = ?`).get(key) as any;
   return (row?.value as string) ?? '';
 }
 const getGalleryDir = () => getConfigValue('gallery_dir');
+const getWildcardsDir = () => getConfigValue('wildcards_dir');
 const getApiKey = () => getConfigValue('api_key');
+const getProviderId = (): ProviderId => (getConfigValue('llm_provider') === 'openai' ? 'openai' : 'gemini');
+
+/** Builds the configured provider, or explains what is missing. */
+function createProvider(): { error: string } | { provider: LlmProvider } {
+  if (getProviderId() === 'openai') {
+    const baseUrl = getConfigValue('openai_base_url').trim();
+    const model = getConfigValue('openai_model').trim();
+    if (!baseUrl || !model) return { error: 'OpenAI-compatible provider needs a base URL and a model' };
+    return { provider: createOpenAiCompatibleProvider({ baseUrl, model, apiKey: getConfigValue('openai_api_key').trim() }) };
+  }
+  const apiKey = getApiKey().trim();
+  if (!apiKey) return { error: 'No Gemini API key configured' };
+  return { provider: createGeminiProvider(apiKey, getConfigValue('gemini_model') || DEFAULT_GEMINI_MODEL) };
+}
 
 // ── Middleware ─────────────────────────────────────────────────────────────────
 app.use((_req, res, next) => {
@@ -126,22 +297,71 @@ app.use((_req, res, next) => {
   next();
 });
 app.options('*', (_req, res) => res.sendStatus(204));
-app.use(express.json());
+// Raised from the 100kb default so wildcard file imports fit in one request.
+app.use(express.json({ limit: '50mb' }));
+
+// ── Request helpers ───────────────────────────────────────────────────────────
+// Request bodies and query strings are checked against their schemas in
+// src/api/contract.ts. Every failure answers { error, code, issues? } (ApiErrorBody).
+
+/** Sends the uniform error body; `extra` adds fields, such as the budget check of a refusal. */
+function sendError(res: Response, status: number, error: string, extra: object = {}) {
+  return res.status(status).json({ ...extra, error, code: errorCodeForStatus(status) });
+}
+
+/** Validates a body or query against its schema; on failure answers 400 with the issues and returns undefined. */
+function parseRequest<T>(schema: Schema<T>, value: unknown, res: Response): T | undefined {
+  const result = validate(schema, value ?? {});
+  if ('value' in result) return result.value;
+  sendError(res, 400, describeIssues(result.issues), { issues: result.issues });
+  return undefined;
+}
+
+const wildcardExists = (id: string) => !!db.prepare('SELECT 1 FROM wildcards WHERE id = ?').get(id);
 
 // ── GET /api/config ──────────────────────────────────────────────────────────
 app.get('/api/config', (_req, res) => {
-  res.json({ galleryDir: getGalleryDir(), apiKey: getApiKey() });
+  res.json({
+    galleryDir: getGalleryDir(),
+    wildcardsDir: getWildcardsDir(),
+    hasApiKey: getApiKey().trim() !== '',
+    provider: getProviderId(),
+    geminiModel: getConfigValue('gemini_model'),
+    openaiBaseUrl: getConfigValue('openai_base_url'),
+    openaiModel: getConfigValue('openai_model'),
+    hasOpenaiApiKey: getConfigValue('openai_api_key').trim() !== '',
+  });
 });
 
 // ── PATCH /api/config ─────────────────────────────────────────────────────────
 app.patch('/api/config', (req, res) => {
-  const { galleryDir, apiKey } = req.body as { galleryDir?: string; apiKey?: string };
+  const body = parseRequest(ConfigPatch, req.body, res);
+  if (!body) return;
+  const { galleryDir, wildcardsDir, apiKey, provider, geminiModel, openaiBaseUrl, openaiModel, openaiApiKey } = body;
   if (galleryDir !== undefined) {
     db.prepare(`INSERT OR REPLACE INTO config (key, value) VALUES ('gallery_dir', ?)`).run(galleryDir);
   }
+  if (wildcardsDir !== undefined) {
+    db.prepare(`INSERT OR REPLACE INTO config (key, value) VALUES ('wildcards_dir', ?)`).run(wildcardsDir);
+  }
   if (apiKey !== undefined) {
     db.prepare(`INSERT OR REPLACE INTO config (key, value) VALUES ('api_key', ?)`).run(apiKey);
   }
+  if (provider !== undefined) {
+    db.prepare(`INSERT OR REPLACE INTO config (key, value) VALUES ('llm_provider', ?)`).run(provider);
+  }
+  if (geminiModel !== undefined && geminiModel.trim()) {
+    db.prepare(`INSERT OR REPLACE INTO config (key, value) VALUES ('gemini_model', ?)`).run(geminiModel.trim());
+  }
+  if (openaiBaseUrl !== undefined) {
+    db.prepare(`INSERT OR REPLACE INTO config (key, value) VALUES ('openai_base_url', ?)`).run(openaiBaseUrl);
+  }
+  if (openaiModel !== undefined) {
+    db.prepare(`INSERT OR REPLACE INTO config (key, value) VALUES ('openai_model', ?)`).run(openaiModel);
+  }
+  if (openaiApiKey !== undefined) {
+    db.prepare(`INSERT OR REPLACE INTO config (key, value) VALUES ('openai_api_key', ?)`).run(openaiApiKey);
+  }
   res.json({ ok: true });
 });
 
@@ -170,23 +390,104 @@ app.get('/api/gallery', (_req, res) => {
 // ── GET /gallery-images/:filename ─────────────────────────────────────────────
 app.get('/gallery-images/:filename', (req, res) => {
   const dir = getGalleryDir();
-  if (!dir) return res.status(404).json({ error: 'Gallery not configured' });
+  if (!dir) return sendError(res, 404, 'Gallery not configured');
   const filePath = path.resolve(dir, req.params.filename);
   if (!filePath.startsWith(path.resolve(dir))) {
-    return res.status(403).json({ error: 'Forbidden' });
+    return sendError(res, 403, 'Forbidden');
   }
   // Prevent browser from caching partially-written images
   res.setHeader('Cache-Control', 'no-store');
   res.sendFile(filePath);
 });
 
+// ── Collections helpers ───────────────────────────────────────────────────────
+const rowToCollection = (r: any) => ({
+  id: r.id as string,
+  name: r.name as string,
+  visible: r.visible === 1,
+  builtin: BUILTIN_IDS.has(r.id),
+  count: (r.count as number) ?? 0,
+  createdAt: r.created_at as number,
+});
+
+const collectionExists = (id: string) =>
+  !!db.prepare('SELECT 1 FROM collections WHERE id = ?').get(id);
+
+function fetchCollection(id: string) {
+  const row = db.prepare(`
+    SELECT c.*, (SELECT COUNT(*) FROM wildcards w WHERE w.list = c.id) AS count
+    FROM collections c WHERE c.id = ?
+  `).get(id);
+  return row ? rowToCollection(row) : null;
+}
+
+// ── GET /api/collections ──────────────────────────────────────────────────────
+// Built-in collections first, then custom ones in creation order.
+app.get('/api/collections', (_req, res) => {
+  const rows = db.prepare(`
+    SELECT c.*, COUNT(w.id) AS count
+    FROM collections c LEFT JOIN wildcards w ON w.list = c.id
+    GROUP BY c.id
+    ORDER BY c.id = 'generated' DESC, c.id = 'saved' DESC, c.created_at ASC
+  `).all();
+  res.json({ collections: rows.map(rowToCollection) });
+});
+
+// ── POST /api/collections ─────────────────────────────────────────────────────
+app.post('/api/collections', (req, res) => {
+  const body = parseRequest(CreateCollectionBody, req.body, res);
+  if (!body) return;
+  const { name } = body;
+  if (db.prepare('SELECT 1 FROM collections WHERE name = ?').get(name)) {
+    return sendError(res, 409, 'A collection with that name already exists');
+  }
+  const id = crypto.randomUUID();
+  db.prepare('INSERT INTO collections (id, name, visible, created_at) VALUES (?, ?, 1, ?)').run(id, name, Date.now());
+  res.json({ collection: fetchCollection(id) });
+});
+
+// ── PATCH /api/collections/:id ────────────────────────────────────────────────
+app.patch('/api/collections/:id', (req, res) => {
+  const { id } = req.params;
+  if (!collectionExists(id)) return sendError(res, 404, 'Collection not found');
+  const body = parseRequest(UpdateCollectionBody, req.body, res);
+  if (!body) return;
+  const { name, visible } = body;
+  if (name !== undefined) {
+    if (db.prepare('SELECT 1 FROM collections WHERE name = ? AND id != ?').get(name, id)) {
+      return sendError(res, 409, 'A collection with that name already exists');
+    }
+    db.prepare('UPDATE collections SET name = ? WHERE id = ?').run(name, id);
+  }
+  if (visible !== undefined) db.prepare('UPDATE collections SET visible = ? WHERE id = ?').run(visible ? 1 : 0, id);
+  res.json({ collection: fetchCollection(id) });
+});
+
+// ── DELETE /api/collections/:id ───────────────────────────────────────────────
+// Built-in collections can be hidden or renamed but never deleted.
+app.delete('/api/collections/:id', (req, res) => {
+  const { id } = req.params;
+  if (BUILTIN_IDS.has(id)) return sendError(res, 400, 'Built-in collections cannot be deleted');
+  if (!collectionExists(id)) return sendError(res, 404, 'Collection not found');
+  // Its wildcards go to the trash; restoring one recreates the collection.
+  const receipt = db.transaction(() => {
+    const trashed = trashWildcards('w.list = ?', [id]);
+    db.prepare('DELETE FROM collections WHERE id = ?').run(id);
+    return trashed;
+  })();
+  res.json({ ok: true, ...receipt });
+});
+
 // ── Wildcards helpers ─────────────────────────────────────────────────────────
 const rowToItem = (r: any) => ({
   id: r.id,
   text: r.text,
-  list: r.list as 'generated' | 'saved',
+  list: r.list as string,
   previewUrl: r.preview_url ?? undefined,
   createdAt: r.created_at as number,
+  generationId: (r.generation_id as string | null) ?? undefined,
+  parentId: (r.parent_id as string | null) ?? undefined,
+  copiedFrom: (r.copied_from as string | null) ?? undefined,
 });
 
 /** Fetch previewUrls for a list of wildcard IDs and return a lookup map. */
@@ -207,36 +508,48 @@ function fetchPreviewsMap(ids: string[]): Record<string, string[]> {
 // ── GET /api/wildcards?list=&limit=&cursor=&q= ───────────────────────────────
 // Cursor-based pagination on `rowid DESC` (newest inserted = first shown).
 // `cursor` is the rowid of the last fetched row; next page uses `rowid < cursor`.
-const MAX_LIMIT = 200;
+// `q` uses the search syntax in server/searchQuery.ts, matched through wildcards_fts.
+// `total` is only counted for the first page; later pages return null.
 app.get('/api/wildcards', (req, res) => {
-  const list = req.query.list as string;
-  if (!['generated', 'saved'].includes(list)) return res.status(400).json({ error: 'Invalid list' });
+  const query = parseRequest(ListWildcardsQuery, req.query, res);
+  if (!query) return;
+  const { list, limit = 50, cursor = null } = query;
+  if (!collectionExists(list)) return sendError(res, 404, 'Collection not found');
 
-  const limit = Math.min(Number(req.query.limit) || 50, MAX_LIMIT);
-  const cursor = req.query.cursor !== undefined && req.query.cursor !== '' ? Number(req.query.cursor) : null;
-  const q = req.query.q ? `%${req.query.q}%` : '%';
+  const search = compileSearch(query.q ?? '');
+  const where = search.where ? `w.list = ? AND ${search.where}` : 'w.list = ?';
+  const params = [list, ...search.params];
 
   const rows = cursor !== null
-    ? db.prepare('SELECT rowid, * FROM wildcards WHERE list = ? AND text LIKE ? AND rowid < ? ORDER BY rowid DESC LIMIT ?').all(list, q, cursor, limit)
-    : db.prepare('SELECT rowid, * FROM wildcards WHERE list = ? AND text LIKE ? ORDER BY rowid DESC LIMIT ?').all(list, q, limit);
+    ? db.prepare(`SELECT w.rowid, w.* FROM wildcards w WHERE ${where} AND w.rowid < ? ORDER BY w.rowid DESC LIMIT ?`).all(...params, cursor, limit)
+    : db.prepare(`SELECT w.rowid, w.* FROM wildcards w WHERE ${where} ORDER BY w.rowid DESC LIMIT ?`).all(...params, limit);
 
-  const totalRow = db.prepare('SELECT COUNT(*) as total FROM wildcards WHERE list = ? AND text LIKE ?').get(list, q) as any;
-  const total: number = totalRow?.total ?? 0;
+  const total: number | null = cursor === null
+    ? (db.prepare(`SELECT COUNT(*) AS total FROM wildcards w WHERE ${where}`).get(...params) as any).total
+    : null;
   const ids = (rows as any[]).map((r) => r.id as string);
   const previewsMap = fetchPreviewsMap(ids);
   const items = (rows as any[]).map((r) => ({ ...rowToItem(r), previewUrls: previewsMap[r.id] ?? [] }));
   const nextCursor: number | null = rows.length > 0 ? (rows[rows.length - 1] as any).rowid : null;
 
-  res.json({ items, total, nextCursor });
+  res.json({ items, total, nextCursor } satisfies FetchListResult);
 });
 
 // ── POST /api/wildcards  (batch insert/upsert) ────────────────────────────────
 app.post('/api/wildcards', (req, res) => {
-  const { items } = req.body as { items: any[] };
-  if (!Array.isArray(items) || items.length === 0) return res.status(400).json({ error: 'No items' });
+  const body = parseRequest(AddWildcardsBody, req.body, res);
+  if (!body) return;
+  const { items } = body;
+  if (items.some((item) => !collectionExists(item.list))) return sendError(res, 400, 'Invalid list');
 
+  // An upsert rather than INSERT OR REPLACE: the row keeps its rowid (its place in the
+  // list) and its previews when the same item is sent again.
   const stmtWildcard = db.prepare(
-    'INSERT OR REPLACE INTO wildcards (id, text, list, preview_url, created_at) VALUES (?, ?, ?, ?, ?)'
+    `INSERT INTO wildcards (id, text, list, preview_url, created_at, generation_id, parent_id, copied_from)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+     ON CONFLICT(id) DO UPDATE SET
+       text = excluded.text, list = excluded.list, preview_url = excluded.preview_url, created_at = excluded.created_at,
+       generation_id = excluded.generation_id, parent_id = excluded.parent_id, copied_from = excluded.copied_from`
   );
   const stmtPreview = db.prepare(
     'INSERT OR IGNORE INTO wildcard_previews (id, wildcard_id, url, created_at) VALUES (?, ?, ?, ?)'
@@ -244,10 +557,12 @@ app.post('/api/wildcards', (req, res) => {
   db.transaction(() => {
     const now = Date.now();
     items.forEach((item) => {
-      stmtWildcard.run(item.id, item.text, item.list, item.previewUrl ?? null, item.createdAt);
+      stmtWildcard.run(
+        item.id, item.text, item.list, item.previewUrl ?? null, item.createdAt,
+        item.generationId ?? null, item.parentId ?? null, item.copiedFrom ?? null,
+      );
       // Also persist preview URLs so they survive a page reload.
-      const previewUrls: string[] = Array.isArray(item.previewUrls) ? item.previewUrls : [];
-      previewUrls.forEach((url: string) => {
+      (item.previewUrls ?? []).forEach((url) => {
         stmtPreview.run(crypto.randomUUID(), item.id, url, now);
       });
     });
@@ -255,21 +570,310 @@ app.post('/api/wildcards', (req, res) => {
   res.json({ ok: true });
 });
 
+// ── POST /api/wildcards/import ────────────────────────────────────────────────
+// Accepts uploaded file contents or a folder on this machine. Without `list`, each
+// file (or YAML key path) goes into the collection of the same name, created on
+// demand. Wildcards whose text already exists anywhere in the database are skipped.
+
+/** Recursively lists importable files under `dir`, with names relative to it. */
+function readImportDir(dir: string, prefix = ''): { name: string; content: string }[] {
+  const out: { name: string; content: string }[] = [];
+  for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+    const rel = prefix ? `${prefix}/${entry.name}` : entry.name;
+    const full = path.join(dir, entry.name);
+    if (entry.isDirectory()) out.push(...readImportDir(full, rel));
+    else if (IMPORT_EXTS.has(path.extname(entry.name).toLowerCase())) {
+      out.push({ name: rel, content: fs.readFileSync(full, 'utf8') });
+    }
+  }
+  return out;
+}
+
+app.post('/api/wildcards/import', (req, res) => {
+  const body = parseRequest(ImportFilesBody, req.body, res);
+  if (!body) return;
+  const { files: uploaded, dir, list } = body;
+  if (list !== undefined && !collectionExists(list)) return sendError(res, 400, 'Invalid list');
+
+  let files: { name: string; content: string }[];
+  if (uploaded && uploaded.length > 0) {
+    files = uploaded;
+  } else if (dir?.trim()) {
+    try {
+      files = readImportDir(dir.trim());
+    } catch (err) {
+      console.error('Import read error:', err);
+      return sendError(res, 400, 'Could not read folder');
+    }
+  } else {
+    return sendError(res, 400, 'No files');
+  }
+
+  const existing = new Set((db.prepare('SELECT text FROM wildcards').all() as { text: string }[]).map((r) => r.text));
+  const collectionIds = new Map<string, string>();
+  for (const c of db.prepare('SELECT id, name FROM collections').all() as { id: string; name: string }[]) {
+    collectionIds.set(c.name.toLowerCase(), c.id);
+  }
+  const stmtCollection = db.prepare('INSERT INTO collections (id, name, visible, created_at) VALUES (?, ?, 1, ?)');
+  const stmtWildcard = db.prepare('INSERT INTO wildcards (id, text, list, preview_url, created_at) VALUES (?, ?, ?, NULL, ?)');
+
+  const report = db.transaction(() => {
+    const now = Date.now();
+    const resolveCollection = (name: string) => {
+      if (list) return list;
+      const key = name.toLowerCase();
+      let id = collectionIds.get(key);
+      if (!id) {
+        id = crypto.randomUUID();
+        stmtCollection.run(id, name, now);
+        collectionIds.set(key, id);
+      }
+      return id;
+    };
+    return files.map((file) => {
+      const parsed = parseWildcardFile(file.name, file.content);
+      let added = 0;
+      let skipped = 0;
+      for (const entry of parsed.entries) {
+        if (existing.has(entry.text)) { skipped++; continue; }
+        existing.add(entry.text);
+        stmtWildcard.run(crypto.randomUUID(), entry.text, resolveCollection(entry.collection), now);
+        added++;
+      }
+      return { name: file.name, added, skipped, malformed: parsed.malformed, error: parsed.error };
+    });
+  })();
+
+  res.json({
+    added: report.reduce((sum, f) => sum + f.added, 0),
+    skipped: report.reduce((sum, f) => sum + f.skipped, 0),
+    malformed: report.reduce((sum, f) => sum + f.malformed, 0),
+    files: report,
+  } satisfies ImportReport);
+});
+
+// ── POST /api/wildcards/replace ───────────────────────────────────────────────
+// Bulk find-and-replace (see server/findReplace.ts) over one collection or all of
+// them, optionally narrowed by a search query. With dryRun nothing is written;
+// otherwise every change is applied in one transaction and, like a single edit,
+// keeps the previous text in the wildcard's edit history.
+const MAX_REPLACE_PREVIEW = 500;
+app.post('/api/wildcards/replace', (req, res) => {
+  const body = parseRequest(ReplaceRequest, req.body, res);
+  if (!body) return;
+  const { mode, find, replace = '', caseSensitive, list, q, dryRun } = body;
+  if (list !== undefined && !collectionExists(list)) return sendError(res, 400, 'Invalid list');
+  let apply: (text: string) => string;
+  try {
+    apply = compileReplace({ mode, find, replace, caseSensitive: caseSensitive === true });
+  } catch (err) {
+    return sendError(res, 400, (err as Error).message);
+  }
+
+  const search = compileSearch(q ?? '');
+  const conditions = [list !== undefined && 'w.list = ?', search.where].filter(Boolean);
+  const rows = db.prepare(`
+    SELECT w.id, w.text, w.list FROM wildcards w
+    ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+    ORDER BY w.rowid DESC
+  `).all(...(list !== undefined ? [list] : []), ...search.params) as { id: string; text: string; list: string }[];
+
+  const changes: { id: string; list: string; before: string; after: string }[] = [];
+  let skipped = 0;
+  for (const row of rows) {
+    const after = apply(row.text);
+    if (after === row.text) continue;
+    // A replacement that removes every tag would leave an empty wildcard.
+    if (!after) skipped++;
+    else changes.push({ id: row.id, list: row.list, before: row.text, after });
+  }
+
+  if (dryRun !== true && changes.length > 0) {
+    const addEdit = db.prepare('INSERT INTO wildcard_edits (id, wildcard_id, text, created_at) VALUES (?, ?, ?, ?)');
+    const update = db.prepare('UPDATE wildcards SET text = ? WHERE id = ?');
+    db.transaction(() => {
+      const now = Date.now();
+      for (const c of changes) {
+        addEdit.run(crypto.randomUUID(), c.id, c.before, now);
+        update.run(c.after, c.id);
+      }
+    })();
+  }
+  res.json({
+    dryRun: dryRun === true,
+    scanned: rows.length,
+    changed: changes.length,
+    skipped,
+    lists: [...new Set(changes.map((c) => c.list))],
+    changes: changes.slice(0, MAX_REPLACE_PREVIEW),
+  });
+});
+
+// ── Batch helpers ─────────────────────────────────────────────────────────────
+// The bulk actions on selected wildcards; each batch runs in one transaction.
+// Bodies carry `ids`, at most MAX_BATCH of them (see src/api/contract.ts).
+
+function fetchWildcardRows(ids: string[]): any[] {
+  return db.prepare(`SELECT * FROM wildcards WHERE id IN (${ids.map(() => '?').join(',')}) ORDER BY rowid DESC`)
+    .all(...ids) as any[];
+}
+
+// ── POST /api/wildcards/batch/delete ──────────────────────────────────────────
+app.post('/api/wildcards/batch/delete', (req, res) => {
+  const body = parseRequest(BatchIdsBody, req.body, res);
+  if (!body) return;
+  const ids = [...new Set(body.ids)];
+  const { batchId, trashed } = trashWildcards(`w.id IN (${ids.map(() => '?').join(',')})`, ids);
+  res.json({ deleted: trashed, batchId });
+});
+
+// ── POST /api/wildcards/batch/move ────────────────────────────────────────────
+app.post('/api/wildcards/batch/move', (req, res) => {
+  const body = parseRequest(BatchTargetBody, req.body, res);
+  if (!body) return;
+  const ids = [...new Set(body.ids)];
+  const { list } = body;
+  if (!collectionExists(list)) return sendError(res, 400, 'Invalid list');
+  const moved = db.prepare(`UPDATE wildcards SET list = ? WHERE id IN (${ids.map(() => '?').join(',')})`)
+    .run(list, ...ids).changes;
+  res.json({ moved });
+});
+
+// ── POST /api/wildcards/batch/copy ────────────────────────────────────────────
+// Like the Save button: each copy keeps its text, previews and generation and points
+// back at the original through copied_from. Texts the target already holds are skipped.
+app.post('/api/wildcards/batch/copy', (req, res) => {
+  const body = parseRequest(BatchTargetBody, req.body, res);
+  if (!body) return;
+  const ids = [...new Set(body.ids)];
+  const { list } = body;
+  if (!collectionExists(list)) return sendError(res, 400, 'Invalid list');
+
+  const existing = new Set(
+    (db.prepare('SELECT text FROM wildcards WHERE list = ?').all(list) as { text: string }[]).map((r) => r.text),
+  );
+  const previews = fetchPreviewsMap(ids);
+  const stmtWildcard = db.prepare(
+    `INSERT INTO wildcards (id, text, list, preview_url, created_at, generation_id, parent_id, copied_from)
+     VALUES (?, ?, ?, ?, ?, ?, NULL, ?)`
+  );
+  const stmtPreview = db.prepare('INSERT INTO wildcard_previews (id, wildcard_id, url, created_at) VALUES (?, ?, ?, ?)');
+  // Oldest first, so the copies keep the sources' relative order at the top of the target.
+  const sources = fetchWildcardRows(ids).reverse().filter((r) => !existing.has(r.text));
+  const items = db.transaction(() => {
+    const now = Date.now();
+    return sources.map((r) => {
+      existing.add(r.text);
+      const id = crypto.randomUUID();
+      stmtWildcard.run(id, r.text, list, r.preview_url, r.created_at, r.generation_id, r.id);
+      for (const url of previews[r.id] ?? []) stmtPreview.run(crypto.randomUUID(), id, url, now);
+      return { ...rowToItem({ ...r, id, list, parent_id: null, copied_from: r.id }), previewUrls: previews[r.id] ?? [] };
+    });
+  })();
+  res.json({ items: items.reverse(), skipped: ids.length - items.length } satisfies CopyResult);
+});
+
+// ── POST /api/wildcards/batch/tags ────────────────────────────────────────────
+// Adds and removes whole tags (see editTags in server/findReplace.ts). Each changed
+// wildcard keeps its previous text in its edit history; one that would be left
+// without tags is skipped.
+app.post('/api/wildcards/batch/tags', (req, res) => {
+  const body = parseRequest(BatchTagsBody, req.body, res);
+  if (!body) return;
+  const ids = [...new Set(body.ids)];
+  const { add = [], remove = [] } = body;
+  if (![...add, ...remove].some((t) => t.trim())) return sendError(res, 400, 'No tags');
+
+  const changes: { id: string; before: string; text: string }[] = [];
+  let skipped = 0;
+  for (const r of fetchWildcardRows(ids)) {
+    const text = editTags(r.text, { add, remove });
+    if (text === r.text) continue;
+    if (!text) skipped++;
+    else changes.push({ id: r.id, before: r.text, text });
+  }
+  const addEdit = db.prepare('INSERT INTO wildcard_edits (id, wildcard_id, text, created_at) VALUES (?, ?, ?, ?)');
+  const update = db.prepare('UPDATE wildcards SET text = ? WHERE id = ?');
+  db.transaction(() => {
+    const now = Date.now();
+    for (const c of changes) {
+      addEdit.run(crypto.randomUUID(), c.id, c.before, now);
+      update.run(c.text, c.id);
+    }
+  })();
+  res.json({ items: changes.map(({ id, text }) => ({ id, text })), skipped } satisfies EditTagsResult);
+});
+
 // ── PATCH /api/wildcards/:id ──────────────────────────────────────────────────
+// A text change first records the previous text in wildcard_edits so it can be restored.
 app.patch('/api/wildcards/:id', (req, res) => {
   const { id } = req.params;
-  const { list, previewUrl } = req.body;
+  const current = db.prepare('SELECT text FROM wildcards WHERE id = ?').get(id) as { text: string } | undefined;
+  if (!current) return sendError(res, 404, 'Wildcard not found');
+  const body = parseRequest(UpdateWildcardBody, req.body, res);
+  if (!body) return;
+  const { text, list, previewUrl } = body;
+  if (list !== undefined && !collectionExists(list)) return sendError(res, 400, 'Invalid list');
+  if (text !== undefined && current.text !== text) {
+    db.transaction(() => {
+      db.prepare('INSERT INTO wildcard_edits (id, wildcard_id, text, created_at) VALUES (?, ?, ?, ?)')
+        .run(crypto.randomUUID(), id, current.text, Date.now());
+      db.prepare('UPDATE wildcards SET text = ? WHERE id = ?').run(text, id);
+    })();
+  }
   if (list !== undefined) db.prepare('UPDATE wildcards SET list = ? WHERE id = ?').run(list, id);
-  if ('previewUrl' in req.body) db.prepare('UPDATE wildcards SET preview_url = ? WHERE id = ?').run(previewUrl ?? null, id);
+  if (previewUrl !== undefined) db.prepare('UPDATE wildcards SET preview_url = ? WHERE id = ?').run(previewUrl, id);
   res.json({ ok: true });
 });
 
+// ── GET /api/wildcards/:id/history ────────────────────────────────────────────
+app.get('/api/wildcards/:id/history', (req, res) => {
+  if (!wildcardExists(req.params.id)) return sendError(res, 404, 'Wildcard not found');
+  const rows = db.prepare('SELECT * FROM wildcard_edits WHERE wildcard_id = ? ORDER BY created_at DESC, rowid DESC')
+    .all(req.params.id) as any[];
+  res.json({ edits: rows.map((r) => ({ id: r.id, text: r.text, createdAt: r.created_at })) });
+});
+
+// ── GET /api/wildcards/:id/lineage ────────────────────────────────────────────
+// Follows parent_id / copied_from up to the oldest ancestor that still exists, then
+// returns it with everything refined or copied from it, oldest first. A wildcard
+// whose parent was deleted starts its own tree.
+const LINEAGE_LIMIT = 200;
+app.get('/api/wildcards/:id/lineage', (req, res) => {
+  const id = req.params.id;
+  if (!wildcardExists(id)) return sendError(res, 404, 'Wildcard not found');
+
+  const root = db.prepare(`
+    WITH RECURSIVE up(id, depth) AS (
+      SELECT ?, 0
+      UNION
+      SELECT COALESCE(w.parent_id, w.copied_from), up.depth + 1
+      FROM wildcards w JOIN up ON w.id = up.id
+      WHERE COALESCE(w.parent_id, w.copied_from) IS NOT NULL AND up.depth < ?
+    )
+    SELECT up.id FROM up JOIN wildcards w ON w.id = up.id ORDER BY up.depth DESC LIMIT 1
+  `).get(id, LINEAGE_LIMIT) as { id: string };
+  const rows = db.prepare(`
+    WITH RECURSIVE down(id, depth) AS (
+      SELECT ?, 0
+      UNION
+      SELECT w.id, down.depth + 1
+      FROM wildcards w JOIN down ON w.parent_id = down.id OR w.copied_from = down.id
+      WHERE down.depth < ?
+    )
+    SELECT * FROM wildcards WHERE id IN (SELECT id FROM down) ORDER BY rowid ASC LIMIT ?
+  `).all(root.id, LINEAGE_LIMIT, LINEAGE_LIMIT);
+  res.json({ rootId: root.id, nodes: rows.map(rowToItem) });
+});
+
 // ── POST /api/wildcards/:id/previews ─────────────────────────────────────────
 app.post('/api/wildcards/:id/previews', (req, res) => {
-  const { url } = req.body as { url: string };
-  if (!url) return res.status(400).json({ error: 'Missing url' });
+  if (!wildcardExists(req.params.id)) return sendError(res, 404, 'Wildcard not found');
+  const body = parseRequest(PreviewBody, req.body, res);
+  if (!body) return;
+  const { url } = body;
   const previewId = crypto.randomUUID();
-  db.prepare('INSERT INTO wildcard_previews (id, wildcard_id, url, created_at) VALUES (?, ?, ?, ?)').run(previewId, req.params.id, url, Date.now());
+  db.prepare('INSERT OR IGNORE INTO wildcard_previews (id, wildcard_id, url, created_at) VALUES (?, ?, ?, ?)').run(previewId, req.params.id, url, Date.now());
   // Set preview_url on the wildcard only if it had none before
   db.prepare('UPDATE wildcards SET preview_url = COALESCE(preview_url, ?) WHERE id = ?').run(url, req.params.id);
   res.json({ ok: true });
@@ -277,8 +881,10 @@ app.post('/api/wildcards/:id/previews', (req, res) => {
 
 // ── DELETE /api/wildcards/:id/previews ───────────────────────────────────────
 app.delete('/api/wildcards/:id/previews', (req, res) => {
-  const { url } = req.body as { url: string };
-  if (!url) return res.status(400).json({ error: 'Missing url' });
+  if (!wildcardExists(req.params.id)) return sendError(res, 404, 'Wildcard not found');
+  const body = parseRequest(PreviewBody, req.body, res);
+  if (!body) return;
+  const { url } = body;
   db.prepare('DELETE FROM wildcard_previews WHERE wildcard_id = ? AND url = ?').run(req.params.id, url);
   // Update preview_url to oldest remaining, or null if none left
   const next = db.prepare('SELECT url FROM wildcard_previews WHERE wildcard_id = ? ORDER BY created_at ASC LIMIT 1').get(req.params.id) as any;
@@ -287,26 +893,942 @@ app.delete('/api/wildcards/:id/previews', (req, res) => {
 });
 
 // ── DELETE /api/wildcards/:id ─────────────────────────────────────────────────
+// A wildcard that is already gone (a delete sent twice) is not an error: nothing
+// is trashed and `trashed` is 0.
 app.delete('/api/wildcards/:id', (req, res) => {
-  db.prepare('DELETE FROM wildcard_previews WHERE wildcard_id = ?').run(req.params.id);
-  db.prepare('DELETE FROM wildcards WHERE id = ?').run(req.params.id);
-  res.json({ ok: true });
+  res.json({ ok: true, ...trashWildcards('w.id = ?', [req.params.id]) });
 });
 
 // ── DELETE /api/wildcards?list= ───────────────────────────────────────────────
 app.delete('/api/wildcards', (req, res) => {
-  const list = req.query.list as string;
-  if (!['generated', 'saved'].includes(list)) return res.status(400).json({ error: 'Invalid list' });
-  // Remove previews for all wildcards in this list before deleting wildcards
+  const query = parseRequest(ListQuery, req.query, res);
+  if (!query) return;
+  const { list } = query;
+  if (!collectionExists(list)) return sendError(res, 404, 'Collection not found');
+  res.json({ ok: true, ...trashWildcards('w.list = ?', [list]) });
+});
+
+// ── Trash helpers ─────────────────────────────────────────────────────────────
+// Deleting a wildcard moves it, with its previews and edit history, into the trash
+// table. Every delete is one batch so the client can undo it as a whole. Entries
+// older than the retention period are purged on startup.
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const getTrashRetentionDays = () => Number(getConfigValue('trash_retention_days')) || 30;
+
+/** Moves the wildcards matching `where` (on `wildcards w`) into the trash as one batch. */
+function trashWildcards(where: string, params: unknown[]): { batchId: string; trashed: number } {
+  const batchId = crypto.randomUUID();
+  const stmtPreviews = db.prepare('SELECT * FROM wildcard_previews WHERE wildcard_id = ?');
+  const stmtEdits = db.prepare('SELECT * FROM wildcard_edits WHERE wildcard_id = ?');
+  const stmtTrash = db.prepare(`
+    INSERT INTO trash (id, row_id, list, list_name, text, data, batch_id, deleted_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+  `);
+  const trashed = db.transaction(() => {
+    const rows = db.prepare(`
+      SELECT w.rowid AS row_id, w.*, COALESCE(c.name, w.list) AS list_name
+      FROM wildcards w LEFT JOIN collections c ON c.id = w.list
+      WHERE ${where}
+    `).all(...params) as any[];
+    const now = Date.now();
+    for (const { row_id, list_name, ...row } of rows) {
+      const data = { row, previews: stmtPreviews.all(row.id), edits: stmtEdits.all(row.id) };
+      // Entries get their own ids, so deleting a wildcard again can't overwrite an older entry of it.
+      stmtTrash.run(crypto.randomUUID(), row_id, row.list, list_name, row.text, JSON.stringify(data), batchId, now);
+    }
+    db.prepare(`DELETE FROM wildcard_previews WHERE wildcard_id IN (SELECT w.id FROM wildcards w WHERE ${where})`).run(...params);
+    db.prepare(`DELETE FROM wildcard_edits WHERE wildcard_id IN (SELECT w.id FROM wildcards w WHERE ${where})`).run(...params);
+    db.prepare(`DELETE FROM wildcards WHERE id IN (SELECT w.id FROM wildcards w WHERE ${where})`).run(...params);
+    return rows.length;
+  })();
+  return { batchId, trashed };
+}
+
+/**
+ * Puts trash entries back, recreating a deleted collection from its saved name (or
+ * reusing one of the same name). An entry whose id a wildcard already has again stays
+ * in the trash and is listed in `conflicts`.
+ */
+function restoreFromTrash(entries: any[]): RestoreResult {
+  const columns = new Set((db.prepare('PRAGMA table_info(wildcards)').all() as { name: string }[]).map((c) => c.name));
+  const stmtPreview = db.prepare('INSERT OR IGNORE INTO wildcard_previews (id, wildcard_id, url, created_at) VALUES (?, ?, ?, ?)');
+  const stmtEdit = db.prepare('INSERT OR IGNORE INTO wildcard_edits (id, wildcard_id, text, created_at) VALUES (?, ?, ?, ?)');
+  const lists = new Set<string>();
+  const conflicts: string[] = [];
+  db.transaction(() => {
+    for (const entry of entries) {
+      const { row, previews, edits } = JSON.parse(entry.data);
+      if (wildcardExists(row.id)) {
+        conflicts.push(entry.id);
+        continue;
+      }
+      if (!collectionExists(row.list)) {
+        const byName = db.prepare('SELECT id FROM collections WHERE name = ?').get(entry.list_name) as { id: string } | undefined;
+        if (byName) row.list = byName.id;
+        else db.prepare('INSERT INTO collections (id, name, visible, created_at) VALUES (?, ?, 1, ?)').run(row.list, entry.list_name, Date.now());
+      }
+      // Only columns the table still has; trash written by an older schema may differ.
+      const values: Record<string, unknown> = Object.fromEntries(Object.entries(row).filter(([k]) => columns.has(k)));
+      if (!db.prepare('SELECT 1 FROM wildcards WHERE rowid = ?').get(entry.row_id)) values.rowid = entry.row_id;
+      const keys = Object.keys(values);
+      db.prepare(`INSERT INTO wildcards (${keys.join(', ')}) VALUES (${keys.map(() => '?').join(', ')})`)
+        .run(...keys.map((k) => values[k]));
+      for (const p of previews) stmtPreview.run(p.id, p.wildcard_id, p.url, p.created_at);
+      for (const e of edits) stmtEdit.run(e.id, e.wildcard_id, e.text, e.created_at);
+      lists.add(row.list);
+      db.prepare('DELETE FROM trash WHERE id = ?').run(entry.id);
+    }
+  })();
+  return { restored: entries.length - conflicts.length, lists: [...lists], conflicts };
+}
+
+/** Deletes trash entries older than the retention period; returns how many went. */
+function purgeExpiredTrash(): number {
+  const cutoff = Date.now() - getTrashRetentionDays() * DAY_MS;
+  return db.prepare('DELETE FROM trash WHERE deleted_at < ?').run(cutoff).changes;
+}
+
+// ── GET /api/trash?limit=&cursor= ─────────────────────────────────────────────
+// Most recently deleted first; cursor-based on trash rowid like the wildcard lists.
+app.get('/api/trash', (req, res) => {
+  const query = parseRequest(PageQuery, req.query, res);
+  if (!query) return;
+  const { limit = 50, cursor = null } = query;
+  const rows = (cursor !== null
+    ? db.prepare('SELECT rowid, * FROM trash WHERE rowid < ? ORDER BY rowid DESC LIMIT ?').all(cursor, limit)
+    : db.prepare('SELECT rowid, * FROM trash ORDER BY rowid DESC LIMIT ?').all(limit)) as any[];
+  const total = (db.prepare('SELECT COUNT(*) AS n FROM trash').get() as { n: number }).n;
+  res.json({
+    items: rows.map((r) => ({
+      id: r.id, text: r.text, list: r.list, listName: r.list_name, batchId: r.batch_id, deletedAt: r.deleted_at,
+    })),
+    total,
+    nextCursor: rows.length === limit ? rows[rows.length - 1].rowid : null,
+  } satisfies TrashPage);
+});
+
+// ── GET /api/trash/settings ───────────────────────────────────────────────────
+app.get('/api/trash/settings', (_req, res) => {
+  res.json({ retentionDays: getTrashRetentionDays() });
+});
+
+// ── PATCH /api/trash/settings ─────────────────────────────────────────────────
+app.patch('/api/trash/settings', (req, res) => {
+  const body = parseRequest(TrashSettingsBody, req.body, res);
+  if (!body) return;
+  const { retentionDays } = body;
+  db.prepare(`UPDATE config SET value = ? WHERE key = 'trash_retention_days'`).run(String(retentionDays));
+  res.json({ retentionDays });
+});
+
+// ── POST /api/trash/restore ───────────────────────────────────────────────────
+app.post('/api/trash/restore', (req, res) => {
+  const body = parseRequest(RestoreTrashBody, req.body, res);
+  if (!body) return;
+  const { ids, batchId } = body;
+  let entries: any[];
+  if (batchId !== undefined) {
+    entries = db.prepare('SELECT * FROM trash WHERE batch_id = ? ORDER BY row_id ASC').all(batchId) as any[];
+  } else if (ids !== undefined) {
+    entries = db.prepare(`SELECT * FROM trash WHERE id IN (${ids.map(() => '?').join(',')}) ORDER BY row_id ASC`)
+      .all(...ids) as any[];
+  } else {
+    return sendError(res, 400, 'Send ids[] or a batchId');
+  }
+  if (ids === undefined && entries.length === 0) return sendError(res, 404, 'Nothing to restore');
+  res.json(restoreFromTrash(entries) satisfies RestoreResult);
+});
+
+// ── DELETE /api/trash ─────────────────────────────────────────────────────────
+// Deletes the given entries for good, or empties the trash without `ids`.
+app.delete('/api/trash', (req, res) => {
+  const body = parseRequest(PurgeTrashBody, req.body, res);
+  if (!body) return;
+  const { ids } = body;
+  if (ids === undefined) return res.json({ purged: db.prepare('DELETE FROM trash').run().changes });
+  const purged = db.prepare(`DELETE FROM trash WHERE id IN (${ids.map(() => '?').join(',')})`).run(...ids).changes;
+  res.json({ purged });
+});
+
+// ── Duplicates helpers ────────────────────────────────────────────────────────
+// Near-duplicates are wildcards whose tag sets have a Jaccard similarity at or above
+// the configured threshold (see server/similarity.ts). New generations either keep
+// them with a flag or drop them; the review routes find and merge existing ones.
+type DuplicateAction = (typeof DUPLICATE_ACTIONS)[number];
+const MAX_DUPLICATE_GROUPS = 200;
+
+function readDuplicateSettings(): { threshold: number; action: DuplicateAction } {
+  const threshold = Number(getConfigValue('duplicate_threshold'));
+  const action = getConfigValue('duplicate_action') as DuplicateAction;
+  return {
+    threshold: threshold > 0 && threshold <= 1 ? threshold : 0.8,
+    action: DUPLICATE_ACTIONS.includes(action) ? action : 'flag',
+  };
+}
+
+/** Similarity index over every wildcard in the database, or in one collection. */
+function loadSimilarityIndex(list?: string): SimilarityIndex {
+  const rows = list
+    ? db.prepare('SELECT id, text FROM wildcards WHERE list = ?').all(list)
+    : db.prepare('SELECT id, text FROM wildcards').all();
+  return createSimilarityIndex(rows as { id: string; text: string }[]);
+}
+
+// ── GET /api/duplicates/settings ──────────────────────────────────────────────
+app.get('/api/duplicates/settings', (_req, res) => {
+  res.json(readDuplicateSettings());
+});
+
+// ── PATCH /api/duplicates/settings ────────────────────────────────────────────
+app.patch('/api/duplicates/settings', (req, res) => {
+  const body = parseRequest(DuplicateSettingsBody, req.body, res);
+  if (!body) return;
+  const { threshold, action } = body;
+  db.transaction(() => {
+    const stmt = db.prepare('INSERT OR REPLACE INTO config (key, value) VALUES (?, ?)');
+    if (threshold !== undefined) stmt.run('duplicate_threshold', String(threshold));
+    if (action !== undefined) stmt.run('duplicate_action', action);
+  })();
+  res.json(readDuplicateSettings());
+});
+
+// ── POST /api/duplicates/check ────────────────────────────────────────────────
+// The closest existing wildcard to `text` (in `list`, or anywhere), if it is a near-duplicate.
+app.post('/api/duplicates/check', (req, res) => {
+  const body = parseRequest(DuplicateCheckBody, req.body, res);
+  if (!body) return;
+  const { text, list, threshold = readDuplicateSettings().threshold } = body;
+  if (list !== undefined && !collectionExists(list)) return sendError(res, 400, 'Invalid list');
+  const match = loadSimilarityIndex(list).nearest(text, threshold);
+  if (!match) return res.json({ match: null });
+  const row = db.prepare('SELECT * FROM wildcards WHERE id = ?').get(match.id);
+  res.json({ match: { item: rowToItem(row), score: match.score } satisfies DuplicateMatch });
+});
+
+// ── GET /api/duplicates?list=&threshold= ──────────────────────────────────────
+// Groups of near-duplicates, closest groups first. Wildcards are grouped across
+// collections unless `list` narrows the scan to one.
+app.get('/api/duplicates', (req, res) => {
+  const query = parseRequest(DuplicatesQuery, req.query, res);
+  if (!query) return;
+  const list = query.list || undefined;
+  const threshold = query.threshold ?? readDuplicateSettings().threshold;
+  if (list !== undefined && !collectionExists(list)) return sendError(res, 400, 'Invalid list');
+
+  // Oldest first, so each group lists its original before the later copies.
+  const rows = (list
+    ? db.prepare('SELECT * FROM wildcards WHERE list = ? ORDER BY rowid ASC').all(list)
+    : db.prepare('SELECT * FROM wildcards ORDER BY rowid ASC').all()) as any[];
+  const byId = new Map(rows.map((r) => [r.id as string, r]));
+  const groups = findDuplicateGroups(rows, threshold).sort((a, b) => b.score - a.score);
+  const shown = groups.slice(0, MAX_DUPLICATE_GROUPS);
+  const previewsMap = fetchPreviewsMap(shown.flatMap((g) => g.ids));
+  res.json({
+    threshold,
+    total: groups.length,
+    groups: shown.map((g) => ({
+      score: g.score,
+      items: g.ids.map((id) => ({ ...rowToItem(byId.get(id)), previewUrls: previewsMap[id] ?? [] })),
+    })),
+  } satisfies DuplicatesResult);
+});
+
+// ── POST /api/duplicates/merge ────────────────────────────────────────────────
+// Folds `removeIds` into `keepId`: their previews move over, wildcards refined or
+// copied from them hang off the kept one, and their texts join its edit history.
+app.post('/api/duplicates/merge', (req, res) => {
+  const body = parseRequest(MergeDuplicatesBody, req.body, res);
+  if (!body) return;
+  const { keepId, removeIds } = body;
+  if (!wildcardExists(keepId)) return sendError(res, 404, 'Wildcard not found');
+  if (removeIds.includes(keepId)) return sendError(res, 400, 'removeIds must not include keepId');
+  const removed = db.prepare(
+    `SELECT * FROM wildcards WHERE id IN (${removeIds.map(() => '?').join(',')}) ORDER BY rowid ASC`,
+  ).all(...removeIds) as any[];
+  if (removed.length !== removeIds.length) return sendError(res, 404, 'Wildcard not found');
+
+  db.transaction(() => {
+    const now = Date.now();
+    const keep = db.prepare('SELECT * FROM wildcards WHERE id = ?').get(keepId) as any;
+    const keptUrls = new Set(fetchPreviewsMap([keepId])[keepId] ?? []);
+    const addPreview = db.prepare('INSERT INTO wildcard_previews (id, wildcard_id, url, created_at) VALUES (?, ?, ?, ?)');
+    const addEdit = db.prepare('INSERT INTO wildcard_edits (id, wildcard_id, text, created_at) VALUES (?, ?, ?, ?)');
+    const previewsMap = fetchPreviewsMap(removed.map((r) => r.id));
+    for (const r of removed) {
+      for (const url of previewsMap[r.id] ?? []) {
+        if (keptUrls.has(url)) continue;
+        keptUrls.add(url);
+        addPreview.run(crypto.randomUUID(), keepId, url, now);
+      }
+      if (r.text !== keep.text) addEdit.run(crypto.randomUUID(), keepId, r.text, now);
+      db.prepare('UPDATE wildcards SET parent_id = ? WHERE parent_id = ?').run(keepId, r.id);
+      db.prepare('UPDATE wildcards SET copied_from = ? WHERE copied_from = ?').run(keepId, r.id);
+      db.prepare('DELETE FROM wildcard_previews WHERE wildcard_id = ?').run(r.id);
+      db.prepare('DELETE FROM wildcard_edits WHERE wildcard_id = ?').run(r.id);
+      db.prepare('DELETE FROM wildcards WHERE id = ?').run(r.id);
+    }
+    if (!keep.preview_url && keptUrls.size > 0) {
+      db.prepare('UPDATE wildcards SET preview_url = ? WHERE id = ?').run([...keptUrls][0], keepId);
+    }
+  })();
+
+  const row = db.prepare('SELECT * FROM wildcards WHERE id = ?').get(keepId);
+  res.json({ item: { ...rowToItem(row), previewUrls: fetchPreviewsMap([keepId])[keepId] ?? [] } });
+});
+
+// ── Export helpers ────────────────────────────────────────────────────────────
+/** File name ComfyUI/A1111 resolve `__name__` against: lowercase, underscores, no path characters. */
+function wildcardFileName(name: string): string {
+  const base = name.trim().toLowerCase()
+    .replace(/[^\p{L}\p{N}_-]+/gu, '_')
+    .replace(/^_+|_+$/g, '');
+  return base || 'collection';
+}
+
+/**
+ * Builds one wildcard file per collection, oldest wildcard first. Names that
+ * collide after sanitising get a numeric suffix so no file overwrites another.
+ */
+function buildWildcardFiles(listId?: string): { name: string; content: string; count: number }[] {
+  const collections = (listId
+    ? db.prepare('SELECT id, name FROM collections WHERE id = ?').all(listId)
+    : db.prepare('SELECT id, name FROM collections ORDER BY created_at ASC').all()) as { id: string; name: string }[];
+  const stmtTexts = db.prepare('SELECT text FROM wildcards WHERE list = ? ORDER BY rowid ASC');
+  const used = new Set<string>();
+  return collections.map((c) => {
+    let name = wildcardFileName(c.name);
+    for (let i = 2; used.has(name); i++) name = `${wildcardFileName(c.name)}_${i}`;
+    used.add(name);
+    const lines = (stmtTexts.all(c.id) as { text: string }[])
+      .map((r) => r.text.replace(/\s*[\r\n]+\s*/g, ' ').trim())
+      .filter((l) => l.length > 0);
+    return { name: `${name}.txt`, content: lines.length ? `${lines.join('\n')}\n` : '', count: lines.length };
+  });
+}
+
+// ── GET /api/export?list= ─────────────────────────────────────────────────────
+app.get('/api/export', (req, res) => {
+  const query = parseRequest(ExportQuery, req.query, res);
+  if (!query) return;
+  const list = query.list || undefined;
+  if (list && !collectionExists(list)) return sendError(res, 400, 'Invalid list');
+  const files = buildWildcardFiles(list);
+  if (list) {
+    res.setHeader('Content-Type', 'text/plain; charset=utf-8');
+    res.setHeader('Content-Disposition', `attachment; filename="${files[0].name}"`);
+    return res.send(files[0].content);
+  }
+  const zip = createZip(files.map((f) => ({ name: f.name, data: Buffer.from(f.content, 'utf8') })));
+  res.setHeader('Content-Type', 'application/zip');
+  res.setHeader('Content-Disposition', 'attachment; filename="wildcards.zip"');
+  res.send(zip);
+});
+
+// ── POST /api/export ──────────────────────────────────────────────────────────
+// Writes straight into the wildcards folder (e.g. ComfyUI/custom_nodes/…/wildcards),
+// replacing files of the same name so re-exporting keeps them in sync.
+app.post('/api/export', (req, res) => {
+  const dir = getWildcardsDir();
+  if (!dir) return sendError(res, 400, 'Wildcards folder not configured');
+  const body = parseRequest(ExportBody, req.body, res);
+  if (!body) return;
+  const { list } = body;
+  if (list && !collectionExists(list)) return sendError(res, 400, 'Invalid list');
+  try {
+    fs.mkdirSync(dir, { recursive: true });
+    const files = buildWildcardFiles(list).map((f) => {
+      const filePath = path.join(dir, f.name);
+      fs.writeFileSync(filePath, f.content, 'utf8');
+      return { name: f.name, path: filePath, count: f.count };
+    });
+    res.json({ files });
+  } catch (err) {
+    console.error('Wildcard export error:', err);
+    sendError(res, 500, 'Failed to write wildcard files');
+  }
+});
+
+// ── Model pricing helpers ─────────────────────────────────────────────────────
+function rowToPricing(r: any) {
+  return {
+    id: r.id as string,
+    provider: r.provider as ProviderId,
+    model: r.model as string,
+    inputPerMTok: r.input_per_mtok as number,
+    outputPerMTok: r.output_per_mtok as number,
+    imagePerMTok: r.image_per_mtok as number,
+  };
+}
+
+/** Rates of a model, or undefined when it has no pricing row (costs then count as 0). */
+function fetchModelRates(provider: ProviderId, model: string): ModelRates | undefined {
+  const row = db.prepare('SELECT * FROM model_pricing WHERE provider = ? AND model = ?').get(provider, model);
+  return row ? rowToPricing(row) : undefined;
+}
+
+// ── GET /api/pricing ──────────────────────────────────────────────────────────
+app.get('/api/pricing', (_req, res) => {
+  const rows = db.prepare('SELECT * FROM model_pricing ORDER BY provider ASC, created_at ASC, model ASC').all();
+  res.json({ models: rows.map(rowToPricing) });
+});
+
+// ── PUT /api/pricing ──────────────────────────────────────────────────────────
+// Upsert keyed by (provider, model).
+app.put('/api/pricing', (req, res) => {
+  const body = parseRequest(PricingBody, req.body, res);
+  if (!body) return;
+  const { provider, model: name, inputPerMTok = 0, outputPerMTok = 0, imagePerMTok = 0 } = body;
+  const rates = [inputPerMTok, outputPerMTok, imagePerMTok];
+
   db.prepare(`
-    DELETE FROM wildcard_previews WHERE wildcard_id IN (
-      SELECT id FROM wildcards WHERE list = ?
-    )
-  `).run(list);
-  db.prepare('DELETE FROM wildcards WHERE list = ?').run(list);
+    INSERT INTO model_pricing (id, provider, model, input_per_mtok, output_per_mtok, image_per_mtok, created_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?)
+    ON CONFLICT(provider, model) DO UPDATE SET
+      input_per_mtok = excluded.input_per_mtok,
+      output_per_mtok = excluded.output_per_mtok,
+      image_per_mtok = excluded.image_per_mtok
+  `).run(crypto.randomUUID(), provider, name, ...rates, Date.now());
+  const row = db.prepare('SELECT * FROM model_pricing WHERE provider = ? AND model = ?').get(provider, name);
+  res.json({ model: rowToPricing(row) });
+});
+
+// ── DELETE /api/pricing/:id ───────────────────────────────────────────────────
+app.delete('/api/pricing/:id', (req, res) => {
+  const { changes } = db.prepare('DELETE FROM model_pricing WHERE id = ?').run(req.params.id);
+  if (!changes) return sendError(res, 404, 'Pricing not found');
+  res.json({ ok: true });
+});
+
+// ── Tag dictionary helpers ────────────────────────────────────────────────────
+interface TagInfo {
+  name: string;
+  category: number;
+  postCount: number;
+}
+
+const rowToTagInfo = (r: any): TagInfo => ({ name: r.name, category: r.category, postCount: r.post_count });
+
+/** Dictionary entry for a tag, following an alias to the tag it stands for. */
+function findTag(tag: string): TagInfo | null {
+  const row = db.prepare('SELECT * FROM tag_dictionary WHERE name = ?').get(tag)
+    ?? db.prepare('SELECT d.* FROM tag_aliases a JOIN tag_dictionary d ON d.name = a.name WHERE a.alias = ?').get(tag);
+  return row ? rowToTagInfo(row) : null;
+}
+
+/** Known tags within a small edit distance of an unknown one, closest and most used first. */
+function suggestTags(tag: string, limit = 3): string[] {
+  const max = maxSuggestionDistance(tag);
+  // Misspellings rarely change the first letter, so only tags sharing it are compared.
+  const first = tag[0];
+  const candidates = db.prepare(`
+    SELECT name, post_count FROM tag_dictionary
+    WHERE name >= ? AND name < ? AND length(name) BETWEEN ? AND ?
+  `).all(first, first + '\uffff', tag.length - max, tag.length + max) as { name: string; post_count: number }[];
+  return candidates
+    .map((c) => ({ name: c.name, postCount: c.post_count, distance: editDistance(tag, c.name, max) }))
+    .filter((c) => c.distance <= max)
+    .sort((a, b) => a.distance - b.distance || b.postCount - a.postCount)
+    .slice(0, limit)
+    .map((c) => c.name);
+}
+
+// ── GET /api/tags ─────────────────────────────────────────────────────────────
+app.get('/api/tags', (_req, res) => {
+  const { count } = db.prepare('SELECT COUNT(*) AS count FROM tag_dictionary').get() as { count: number };
+  res.json({ count });
+});
+
+// ── POST /api/tags/import ─────────────────────────────────────────────────────
+// Replaces the dictionary with an uploaded CSV ({ content }) or a file on the server ({ path }).
+app.post('/api/tags/import', (req, res) => {
+  const body = parseRequest(TagImportBody, req.body, res);
+  if (!body) return;
+  const { content, path: filePath } = body;
+  let csv: string;
+  if (content?.trim()) {
+    csv = content;
+  } else if (filePath?.trim()) {
+    try {
+      csv = fs.readFileSync(filePath.trim(), 'utf8');
+    } catch (err) {
+      console.error('Tag dictionary read error:', err);
+      return sendError(res, 400, 'Could not read file');
+    }
+  } else {
+    return sendError(res, 400, 'No CSV');
+  }
+
+  const parsed = parseTagCsv(csv);
+  if (parsed.tags.length === 0) return sendError(res, 400, 'No tags found in the CSV');
+  const stmtTag = db.prepare('INSERT INTO tag_dictionary (name, category, post_count) VALUES (?, ?, ?)');
+  const stmtAlias = db.prepare('INSERT OR IGNORE INTO tag_aliases (alias, name) VALUES (?, ?)');
+  db.transaction(() => {
+    db.prepare('DELETE FROM tag_dictionary').run();
+    db.prepare('DELETE FROM tag_aliases').run();
+    for (const tag of parsed.tags) {
+      stmtTag.run(tag.name, tag.category, Math.round(tag.postCount));
+      for (const alias of tag.aliases) stmtAlias.run(alias, tag.name);
+    }
+    // An alias that is also a tag of its own stays that tag.
+    db.prepare('DELETE FROM tag_aliases WHERE alias IN (SELECT name FROM tag_dictionary)').run();
+  })();
+  res.json({ imported: parsed.tags.length, malformed: parsed.malformed } satisfies TagImportResult);
+});
+
+// ── DELETE /api/tags ──────────────────────────────────────────────────────────
+app.delete('/api/tags', (_req, res) => {
+  db.transaction(() => {
+    db.prepare('DELETE FROM tag_dictionary').run();
+    db.prepare('DELETE FROM tag_aliases').run();
+  })();
+  res.json({ ok: true });
+});
+
+// ── GET /api/tags/complete?q=&limit= ──────────────────────────────────────────
+// Tags and aliases starting with q, most used first; an alias match carries the alias it matched.
+app.get('/api/tags/complete', (req, res) => {
+  const query = parseRequest(TagCompleteQuery, req.query, res);
+  if (!query) return;
+  const prefix = normalizeDictionaryTag(query.q ?? '');
+  if (!prefix) return res.json({ tags: [] });
+  const { limit = 10 } = query;
+  const end = prefix + '\uffff';
+  const tags = db.prepare(`
+    SELECT name, category, post_count, NULL AS alias FROM tag_dictionary WHERE name >= ? AND name < ?
+    UNION ALL
+    SELECT d.name, d.category, d.post_count, a.alias FROM tag_aliases a JOIN tag_dictionary d ON d.name = a.name
+    WHERE a.alias >= ? AND a.alias < ?
+    ORDER BY post_count DESC
+    LIMIT ?
+  `).all(prefix, end, prefix, end, limit * 2) as any[];
+  const seen = new Set<string>();
+  res.json({
+    tags: tags
+      .filter((r) => !seen.has(r.name) && seen.add(r.name))
+      .slice(0, limit)
+      .map((r) => ({ ...rowToTagInfo(r), ...(r.alias && { alias: r.alias }) })),
+  });
+});
+
+// ── POST /api/tags/lookup ─────────────────────────────────────────────────────
+// { tags[] } → { loaded, tags: { [tag]: TagInfo | null }, suggestions: { [unknown tag]: string[] } }
+// Keys are the normalized tags. Without a dictionary nothing is reported as unknown.
+app.post('/api/tags/lookup', (req, res) => {
+  const body = parseRequest(TagLookupBody, req.body, res);
+  if (!body) return;
+  const { tags } = body;
+  const loaded = !!db.prepare('SELECT 1 FROM tag_dictionary LIMIT 1').get();
+  const found: Record<string, TagInfo | null> = {};
+  const suggestions: Record<string, string[]> = {};
+  if (loaded) {
+    for (const tag of new Set(tags.map(normalizeDictionaryTag).filter(Boolean))) {
+      found[tag] = findTag(tag);
+      if (!found[tag]) suggestions[tag] = suggestTags(tag);
+    }
+  }
+  res.json({ loaded, tags: found, suggestions } satisfies TagLookupResult);
+});
+
+// ── Generation helpers ────────────────────────────────────────────────────────
+// Each wildcard is saved the moment its line arrives and each batch is charged
+// when it finishes, so a failure part-way through keeps (and bills) what was produced.
+interface GenerateParams {
+  provider: LlmProvider;
+  opts: GenerateOptions;
+  count: number;
+  /** Wildcard being refined; recorded as the parent of every output. */
+  parentId?: string;
+  sessionId?: string;
+}
+
+interface GeneratedItem {
+  id: string;
+  text: string;
+  createdAt: number;
+  generationId: string;
+  parentId?: string;
+  /** Closest existing wildcard when this one is a near-duplicate of it (duplicate action 'flag'). */
+  duplicateOf?: { id: string; score: number };
+}
+
+interface GenerationEvents {
+  onBatch?: (batch: number, batches: number) => void;
+  onItem?: (item: GeneratedItem) => void;
+}
+
+interface GenerationSummary {
+  items: GeneratedItem[];
+  cost: number;
+  sessionCost: number;
+  allTimeCost: number;
+  /** Stopped by a cancel request or because the client went away. */
+  cancelled?: boolean;
+  /** Near-duplicates that were not saved (duplicate action 'drop'). */
+  duplicatesDropped?: number;
+  error?: string;
+}
+
+/** Abort controllers of running generations, by generation id. */
+const activeGenerations = new Map<string, AbortController>();
+
+/**
+ * Validates a generate request body and builds the configured provider; on failure
+ * answers 400 and returns undefined.
+ */
+function parseGenerateRequest(body: unknown, res: Response): GenerateParams | undefined {
+  const request = parseRequest(GenerateRequest, body, res);
+  if (!request) return undefined;
+  const { prompt, systemInstruction, count, refining, refiningId, referenceImages, sessionId } = request;
+  const created = createProvider();
+  if ('error' in created) {
+    sendError(res, 400, created.error);
+    return undefined;
+  }
+  return {
+    provider: created.provider,
+    opts: { prompt: prompt ?? '', systemInstruction: systemInstruction ?? '', refining, referenceImages },
+    count,
+    // A parent that has been deleted since is dropped rather than left dangling.
+    parentId: refining && refiningId && wildcardExists(refiningId) ? refiningId : undefined,
+    sessionId: sessionId ?? undefined,
+  };
+}
+
+interface CostRecord {
+  generationId: string;
+  sessionId?: string;
+  provider: ProviderId;
+  model: string;
+  usage?: TokenUsage;
+  cost: number;
+}
+
+/** Stores one LLM call's cost and adds it to the all-time total and, when given, to a session row. */
+function recordCost({ generationId, sessionId, provider, model, usage, cost }: CostRecord) {
+  db.transaction(() => {
+    db.prepare(`
+      INSERT INTO cost_records (id, generation_id, session_id, provider, model, input_tokens, output_tokens,
+        image_tokens, cost, created_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      crypto.randomUUID(), generationId, sessionId ?? null, provider, model, usage?.inputTokens ?? 0,
+      usage?.outputTokens ?? 0, usage?.imageTokens ?? 0, cost, Date.now(),
+    );
+    db.prepare(`UPDATE costs SET amount = amount + ? WHERE id = '__total__'`).run(cost);
+    if (sessionId) db.prepare(`UPDATE costs SET amount = amount + ? WHERE id = ? AND type = 'session'`).run(cost, sessionId);
+  })();
+}
+
+/**
+ * Runs every batch of a generation, saving wildcards into 'generated' as they stream in
+ * and recording the run under `id` in the generations table.
+ * Aborting `signal` stops the current batch and skips the rest.
+ */
+async function runGeneration(
+  id: string,
+  { provider, opts, count, parentId, sessionId }: GenerateParams,
+  signal: AbortSignal,
+  events: GenerationEvents = {},
+): Promise<GenerationSummary> {
+  const createdAt = Date.now();
+  const insert = db.prepare(`
+    INSERT INTO wildcards (id, text, list, preview_url, created_at, generation_id, parent_id)
+    VALUES (?, ?, 'generated', NULL, ?, ?, ?)
+  `);
+  const items: GenerationSummary['items'] = [];
+  const batches = planBatches(count);
+  // Rates are read once so edits during a run don't split its pricing.
+  const rates = fetchModelRates(provider.id, provider.model);
+  const usage: TokenUsage = { inputTokens: 0, outputTokens: 0, imageTokens: 0 };
+  let cost = 0;
+  let error: string | undefined;
+  // Outputs are compared with the whole database and with each other.
+  const duplicates = readDuplicateSettings();
+  const similarity = duplicates.action === 'off' ? null : loadSimilarityIndex();
+  let duplicatesDropped = 0;
+
+  db.prepare(`
+    INSERT INTO generations (id, provider, model, prompt, system_instruction, refining, refining_id, reference_images,
+      requested, status, created_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, 'running', ?)
+  `).run(
+    id, provider.id, provider.model, opts.prompt, opts.systemInstruction, opts.refining ?? null, parentId ?? null,
+    JSON.stringify(opts.referenceImages ?? []), count, createdAt,
+  );
+
+  for (const [index, batchCount] of batches.entries()) {
+    if (signal.aborted) break;
+    events.onBatch?.(index + 1, batches.length);
+    try {
+      const batch = await provider.streamBatch(opts, batchCount, (text) => {
+        const match = similarity?.nearest(text, duplicates.threshold);
+        if (match && duplicates.action === 'drop') {
+          duplicatesDropped++;
+          return;
+        }
+        const item: GeneratedItem = {
+          id: crypto.randomUUID(), text, createdAt, generationId: id, parentId, ...(match && { duplicateOf: match }),
+        };
+        similarity?.add(item.id, text);
+        insert.run(item.id, item.text, createdAt, id, parentId ?? null);
+        // Newest first, matching the rowid DESC order lists are shown in.
+        items.unshift(item);
+        events.onItem?.(item);
+      }, signal);
+      const batchCost = usageCost(batch.usage, rates);
+      recordCost({
+        generationId: id, sessionId, provider: provider.id, model: provider.model, usage: batch.usage, cost: batchCost,
+      });
+      cost += batchCost;
+      if (batch.usage) {
+        usage.inputTokens += batch.usage.inputTokens;
+        usage.outputTokens += batch.usage.outputTokens;
+        usage.imageTokens += batch.usage.imageTokens;
+      }
+      if (batch.aborted) break;
+    } catch (err) {
+      console.error('Generation failed:', err);
+      error = (err as Error).message || 'Generation failed';
+      break;
+    }
+  }
+
+  const status = error ? 'failed' : signal.aborted ? 'cancelled' : 'completed';
+  db.prepare(`
+    UPDATE generations SET wildcard_ids = ?, input_tokens = ?, output_tokens = ?, image_tokens = ?, cost = ?,
+      status = ?, error = ?, finished_at = ?
+    WHERE id = ?
+  `).run(
+    // Stored in the order the model wrote them.
+    JSON.stringify(items.map((i) => i.id).reverse()),
+    usage.inputTokens, usage.outputTokens, usage.imageTokens, cost, status, error ?? null, Date.now(), id,
+  );
+
+  const allTimeCost = (db.prepare(`SELECT amount FROM costs WHERE id = '__total__'`).get() as any)?.amount ?? 0;
+  const sessionCost = sessionId
+    ? (db.prepare(`SELECT amount FROM costs WHERE id = ? AND type = 'session'`).get(sessionId) as any)?.amount ?? cost
+    : cost;
+  return {
+    items, cost, sessionCost, allTimeCost,
+    ...(signal.aborted && { cancelled: true }),
+    ...(duplicatesDropped > 0 && { duplicatesDropped }),
+    ...(error && { error }),
+  };
+}
+
+// ── Budget helpers ────────────────────────────────────────────────────────────
+type BudgetPeriod = 'session' | 'daily' | 'monthly';
+const BUDGET_PERIODS: BudgetPeriod[] = ['session', 'daily', 'monthly'];
+type BudgetMode = 'block' | 'confirm';
+
+function readBudgetLimits(): Record<BudgetPeriod, number | null> {
+  const limit = (key: string) => {
+    const value = getConfigValue(key);
+    return value === '' ? null : Number(value);
+  };
+  return { session: limit('budget_session'), daily: limit('budget_daily'), monthly: limit('budget_monthly') };
+}
+
+const getBudgetMode = (): BudgetMode => (getConfigValue('budget_mode') === 'block' ? 'block' : 'confirm');
+
+/** Start of the current day or month in server local time. */
+function periodStart(period: 'daily' | 'monthly'): number {
+  const start = new Date();
+  start.setHours(0, 0, 0, 0);
+  if (period === 'monthly') start.setDate(1);
+  return start.getTime();
+}
+
+function budgetSpend(sessionId?: string): Record<BudgetPeriod, number> {
+  const since = (start: number) =>
+    (db.prepare('SELECT COALESCE(SUM(cost), 0) AS spent FROM cost_records WHERE created_at >= ?').get(start) as any).spent as number;
+  const session = sessionId
+    ? (db.prepare(`SELECT amount FROM costs WHERE id = ? AND type = 'session'`).get(sessionId) as any)?.amount ?? 0
+    : 0;
+  return { session, daily: since(periodStart('daily')), monthly: since(periodStart('monthly')) };
+}
+
+/** Average output tokens per wildcard in earlier runs of the model. */
+function outputTokensPerWildcard(provider: ProviderId, model: string): number {
+  const row = db.prepare(`
+    SELECT SUM(output_tokens) AS tokens, SUM(json_array_length(wildcard_ids)) AS items
+    FROM generations WHERE provider = ? AND model = ? AND output_tokens > 0
+  `).get(provider, model) as { tokens: number | null; items: number | null };
+  return row.tokens && row.items ? row.tokens / row.items : DEFAULT_OUTPUT_TOKENS_PER_WILDCARD;
+}
+
+/** Estimated usage and cost of a run, and the budgets it would go over. */
+function checkBudget({ provider, opts, count, sessionId }: GenerateParams) {
+  const usage = estimateUsage(opts, count, outputTokensPerWildcard(provider.id, provider.model));
+  const estimate = { ...usage, cost: usageCost(usage, fetchModelRates(provider.id, provider.model)) };
+  const limits = readBudgetLimits();
+  const spend = budgetSpend(sessionId);
+  const exceeded = BUDGET_PERIODS.filter((p) => limits[p] !== null && spend[p] + estimate.cost > limits[p]!);
+  return { estimate, spend, limits, mode: getBudgetMode(), exceeded };
+}
+
+/** Refuses an over-budget run (402, or 409 until confirmed) with the budget check; returns whether it did. */
+function refuseOverBudget(params: GenerateParams, confirmed: boolean, res: Response): boolean {
+  const check = checkBudget(params);
+  if (check.exceeded.length === 0) return false;
+  if (check.mode === 'block') {
+    sendError(res, 402, `Over the ${check.exceeded.join(', ')} budget`, check);
+    return true;
+  }
+  if (confirmed) return false;
+  sendError(res, 409, `Over the ${check.exceeded.join(', ')} budget; confirm to continue`, check);
+  return true;
+}
+
+// ── GET /api/budget ───────────────────────────────────────────────────────────
+app.get('/api/budget', (_req, res) => {
+  const { daily, monthly } = budgetSpend();
+  res.json({ limits: readBudgetLimits(), mode: getBudgetMode(), spend: { daily, monthly } });
+});
+
+// ── PATCH /api/budget ─────────────────────────────────────────────────────────
+app.patch('/api/budget', (req, res) => {
+  const body = parseRequest(BudgetPatchBody, req.body, res);
+  if (!body) return;
+  db.transaction(() => {
+    const stmt = db.prepare('INSERT OR REPLACE INTO config (key, value) VALUES (?, ?)');
+    for (const period of BUDGET_PERIODS) {
+      const value = body[period];
+      if (value !== undefined) stmt.run(`budget_${period}`, value === null ? '' : String(value));
+    }
+    if (body.mode !== undefined) stmt.run('budget_mode', body.mode);
+  })();
   res.json({ ok: true });
 });
 
+// ── POST /api/generate/estimate ───────────────────────────────────────────────
+app.post('/api/generate/estimate', (req, res) => {
+  const params = parseGenerateRequest(req.body, res);
+  if (!params) return;
+  res.json(checkBudget(params));
+});
+
+// ── POST /api/generate ────────────────────────────────────────────────────────
+app.post('/api/generate', async (req, res) => {
+  const params = parseGenerateRequest(req.body, res);
+  if (!params || refuseOverBudget(params, req.body.confirmOverBudget === true, res)) return;
+  const controller = new AbortController();
+  res.on('close', () => { if (!res.writableEnded) controller.abort(); });
+  const summary = await runGeneration(crypto.randomUUID(), params, controller.signal);
+  // The batches saved before the failure still come back in `items`.
+  if (summary.error) return sendError(res, 502, summary.error, summary);
+  res.json(summary);
+});
+
+// ── POST /api/generate/stream ─────────────────────────────────────────────────
+// Same request body; the response is an SSE stream. POST rather than EventSource
+// because reference images make the body too large for a query string.
+app.post('/api/generate/stream', async (req, res) => {
+  const params = parseGenerateRequest(req.body, res);
+  if (!params || refuseOverBudget(params, req.body.confirmOverBudget === true, res)) return;
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+  });
+  const send = (event: string, data: unknown) => res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+
+  const id = crypto.randomUUID();
+  const controller = new AbortController();
+  activeGenerations.set(id, controller);
+  // A closed tab or dropped connection stops the generation like the Stop button.
+  res.on('close', () => { if (!res.writableEnded) controller.abort(); });
+  send('start', { id, provider: params.provider.id, model: params.provider.model });
+
+  try {
+    const summary = await runGeneration(id, params, controller.signal, {
+      onBatch: (batch, batches) => send('batch', { batch, batches }),
+      onItem: (item) => send('item', item),
+    });
+    // Items were already sent one by one.
+    send('done', {
+      cost: summary.cost,
+      sessionCost: summary.sessionCost,
+      allTimeCost: summary.allTimeCost,
+      cancelled: summary.cancelled,
+      duplicatesDropped: summary.duplicatesDropped,
+      error: summary.error,
+    });
+  } finally {
+    activeGenerations.delete(id);
+    res.end();
+  }
+});
+
+// ── POST /api/generate/:id/cancel ─────────────────────────────────────────────
+app.post('/api/generate/:id/cancel', (req, res) => {
+  const controller = activeGenerations.get(req.params.id);
+  if (!controller) return sendError(res, 404, 'Generation not found');
+  controller.abort();
+  res.json({ ok: true });
+});
+
+// ── Generation history helpers ────────────────────────────────────────────────
+/** A generations row without its reference images, which can be large data URLs. */
+function rowToGeneration(r: any) {
+  return {
+    id: r.id as string,
+    provider: r.provider as ProviderId,
+    model: r.model as string,
+    prompt: r.prompt as string,
+    systemInstruction: r.system_instruction as string,
+    refining: (r.refining as string | null) ?? null,
+    refiningId: (r.refining_id as string | null) ?? null,
+    referenceImageCount: (JSON.parse(r.reference_images) as string[]).length,
+    requested: r.requested as number,
+    wildcardIds: JSON.parse(r.wildcard_ids) as string[],
+    usage: { inputTokens: r.input_tokens, outputTokens: r.output_tokens, imageTokens: r.image_tokens } as TokenUsage,
+    cost: r.cost as number,
+    status: r.status as 'running' | 'completed' | 'cancelled' | 'failed',
+    error: (r.error as string | null) ?? undefined,
+    createdAt: r.created_at as number,
+    finishedAt: (r.finished_at as number | null) ?? null,
+  };
+}
+
+// ── GET /api/generations?limit=&cursor= ───────────────────────────────────────
+// Same rowid-cursor pagination as /api/wildcards, except that a short page ends it (nextCursor null).
+app.get('/api/generations', (req, res) => {
+  const query = parseRequest(PageQuery, req.query, res);
+  if (!query) return;
+  const { limit = 20, cursor = null } = query;
+  const rows = (cursor !== null
+    ? db.prepare('SELECT rowid, * FROM generations WHERE rowid < ? ORDER BY rowid DESC LIMIT ?').all(cursor, limit)
+    : db.prepare('SELECT rowid, * FROM generations ORDER BY rowid DESC LIMIT ?').all(limit)) as any[];
+  const nextCursor: number | null = rows.length === limit ? rows[rows.length - 1].rowid : null;
+  res.json({ generations: rows.map(rowToGeneration), nextCursor });
+});
+
+// ── GET /api/generations/:id ──────────────────────────────────────────────────
+// Outputs are looked up by id: ones moved to another collection still show, deleted ones are left out.
+app.get('/api/generations/:id', (req, res) => {
+  const row = db.prepare('SELECT * FROM generations WHERE id = ?').get(req.params.id) as any;
+  if (!row) return sendError(res, 404, 'Generation not found');
+  const generation = { ...rowToGeneration(row), referenceImages: JSON.parse(row.reference_images) as string[] };
+  const ids = generation.wildcardIds;
+  const byId = new Map(
+    (ids.length
+      ? db.prepare(`SELECT * FROM wildcards WHERE id IN (${ids.map(() => '?').join(',')})`).all(...ids)
+      : []
+    ).map((r: any) => [r.id as string, rowToItem(r)]),
+  );
+  const wildcards = ids.flatMap((id) => byId.get(id) ?? []);
+  res.json({ generation, wildcards });
+});
+
+// ── DELETE /api/generations/:id ───────────────────────────────────────────────
+app.delete('/api/generations/:id', (req, res) => {
+  const { changes } = db.prepare('DELETE FROM generations WHERE id = ?').run(req.params.id);
+  if (!changes) return sendError(res, 404, 'Generation not found');
+  res.json({ ok: true });
+});
 
 // ── GET /api/costs ────────────────────────────────────────────────────────────
 app.get('/api/costs', (_req, res) => {
@@ -315,9 +1837,114 @@ app.get('/api/costs', (_req, res) => {
   res.json({ total, sessions });
 });
 
+// ── Cost analytics helpers ────────────────────────────────────────────────────
+type CostBucket = 'day' | 'week';
+
+/** Optional from/to (ms timestamps, to exclusive) and bucket query params; on a bad range answers 400 and returns undefined. */
+function parseCostRange(query: unknown, res: Response): { from: number; to: number; bucket: CostBucket } | undefined {
+  const parsed = parseRequest(CostRangeQuery, query, res);
+  if (!parsed) return undefined;
+  const { from = 0, to = Date.now() + 1, bucket = 'day' } = parsed;
+  if (from > to) {
+    sendError(res, 400, 'from must not be after to');
+    return undefined;
+  }
+  return { from, to, bucket };
+}
+
+/** Local date (YYYY-MM-DD) of the day or week (starting Monday) a timestamp falls in. */
+function bucketStart(ts: number, bucket: CostBucket): string {
+  const d = new Date(ts);
+  if (bucket === 'week') d.setDate(d.getDate() - ((d.getDay() + 6) % 7));
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+}
+
+// ── GET /api/costs/analytics ──────────────────────────────────────────────────
+// Periods run from the first bucket in range (or the first record) to the last, including empty ones.
+app.get('/api/costs/analytics', (req, res) => {
+  const range = parseCostRange(req.query, res);
+  if (!range) return;
+  const { bucket } = range;
+  const rows = db.prepare(`
+    SELECT provider, model, input_tokens, output_tokens, image_tokens, cost, created_at
+    FROM cost_records WHERE created_at >= ? AND created_at < ? ORDER BY created_at ASC
+  `).all(range.from, range.to) as any[];
+
+  const periods = new Map<string, { start: string; cost: number; calls: number; byModel: Record<string, number> }>();
+  if (rows.length > 0) {
+    const first = range.from > 0 ? range.from : rows[0].created_at;
+    const last = Math.min(range.to - 1, Date.now());
+    for (const day = new Date(first); day.getTime() <= last; day.setDate(day.getDate() + 1)) {
+      const start = bucketStart(day.getTime(), bucket);
+      if (!periods.has(start)) periods.set(start, { start, cost: 0, calls: 0, byModel: {} });
+    }
+  }
+  const models = new Map<string, {
+    provider: ProviderId; model: string; cost: number; calls: number; inputTokens: number; outputTokens: number; imageTokens: number;
+  }>();
+  for (const r of rows) {
+    const start = bucketStart(r.created_at, bucket);
+    const period = periods.get(start) ?? { start, cost: 0, calls: 0, byModel: {} };
+    period.cost += r.cost;
+    period.calls += 1;
+    period.byModel[r.model] = (period.byModel[r.model] ?? 0) + r.cost;
+    periods.set(start, period);
+
+    const key = `${r.provider}\u0000${r.model}`;
+    const model = models.get(key)
+      ?? { provider: r.provider, model: r.model, cost: 0, calls: 0, inputTokens: 0, outputTokens: 0, imageTokens: 0 };
+    model.cost += r.cost;
+    model.calls += 1;
+    model.inputTokens += r.input_tokens;
+    model.outputTokens += r.output_tokens;
+    model.imageTokens += r.image_tokens;
+    models.set(key, model);
+  }
+
+  res.json({
+    bucket,
+    total: {
+      cost: rows.reduce((sum, r) => sum + r.cost, 0),
+      calls: rows.length,
+      inputTokens: rows.reduce((sum, r) => sum + r.input_tokens, 0),
+      outputTokens: rows.reduce((sum, r) => sum + r.output_tokens, 0),
+      imageTokens: rows.reduce((sum, r) => sum + r.image_tokens, 0),
+    },
+    periods: [...periods.values()].sort((a, b) => a.start.localeCompare(b.start)),
+    models: [...models.values()].sort((a, b) => b.cost - a.cost),
+  });
+});
+
+// ── GET /api/costs/export ─────────────────────────────────────────────────────
+app.get('/api/costs/export', (req, res) => {
+  const range = parseCostRange(req.query, res);
+  if (!range) return;
+  const rows = db.prepare(`
+    SELECT r.*, s.label AS session_label, g.prompt AS prompt
+    FROM cost_records r
+    LEFT JOIN costs s ON s.id = r.session_id AND s.type = 'session'
+    LEFT JOIN generations g ON g.id = r.generation_id
+    WHERE r.created_at >= ? AND r.created_at < ?
+    ORDER BY r.created_at ASC
+  `).all(range.from, range.to) as any[];
+  const csv = toCsv(
+    ['timestamp', 'date', 'provider', 'model', 'input_tokens', 'output_tokens', 'image_tokens', 'cost_usd',
+      'generation_id', 'session_id', 'session_label', 'prompt'],
+    rows.map((r) => [
+      new Date(r.created_at).toISOString(), bucketStart(r.created_at, 'day'), r.provider, r.model, r.input_tokens,
+      r.output_tokens, r.image_tokens, r.cost, r.generation_id, r.session_id, r.session_label, r.prompt,
+    ]),
+  );
+  res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+  res.setHeader('Content-Disposition', 'attachment; filename="wildcard-costs.csv"');
+  res.send(csv);
+});
+
 // ── POST /api/costs/session ───────────────────────────────────────────────────
 app.post('/api/costs/session', (req, res) => {
-  const { label } = req.body as { label: string };
+  const body = parseRequest(SessionBody, req.body, res);
+  if (!body) return;
+  const { label } = body;
   const id = crypto.randomUUID();
   const now = Date.now();
   db.prepare(`INSERT INTO costs (id, type, label, amount, created_at) VALUES (?, 'session', ?, 0, ?)`)
@@ -325,31 +1952,309 @@ app.post('/api/costs/session', (req, res) => {
   res.json({ id });
 });
 
-// ── PATCH /api/costs/session/:id ─────────────────────────────────────────────
-app.patch('/api/costs/session/:id', (req, res) => {
-  const { amount } = req.body as { amount: number };
-  db.prepare(`UPDATE costs SET amount = ? WHERE id = ? AND type = 'session'`).run(amount, req.params.id);
-  res.json({ ok: true });
+// ── Backup helpers ────────────────────────────────────────────────────────────
+// See server/backup.ts for file naming, rotation and the JSON export format.
+const HOUR_MS = 60 * 60 * 1000;
+const BACKUP_CHECK_MS = 10 * 60 * 1000;
+
+/** Tables a backup restore replaces, parents first. Config is merged so newer keys keep their defaults. */
+const RESTORED_TABLES = [
+  'collections', 'wildcards', 'wildcard_previews', 'wildcard_edits', 'costs', 'generations', 'cost_records',
+  'model_pricing', 'tag_dictionary', 'tag_aliases', 'trash', 'config',
+];
+
+/**
+ * Tables whose rows point at rows of another, by parent. Replacing a parent clears
+ * these first, and their rows are only copied back when the parent row is there
+ * (older databases may hold previews of wildcards that are gone).
+ */
+const CHILD_TABLES: Record<string, { table: string; column: string }[]> = {
+  collections: [{ table: 'wildcards', column: 'list' }],
+  wildcards: [{ table: 'wildcard_previews', column: 'wildcard_id' }, { table: 'wildcard_edits', column: 'wildcard_id' }],
+};
+
+/** The tables to clear to replace `tables`: their children too, children first. */
+function tablesToClear(tables: readonly string[]): string[] {
+  const out = new Set<string>();
+  const add = (table: string) => {
+    for (const child of CHILD_TABLES[table] ?? []) add(child.table);
+    out.add(table);
+  };
+  [...tables].reverse().forEach(add);
+  return [...out];
+}
+
+/** SQL condition keeping only rows of `table` whose parent rows exist in the live database (among `columns`, if given). */
+function parentsExist(table: string, columns?: string[]): string {
+  const links = Object.entries(CHILD_TABLES).flatMap(([parent, children]) => children
+    .filter((c) => c.table === table && (!columns || columns.includes(c.column)))
+    .map((c) => `${c.column} IN (SELECT id FROM main.${parent})`));
+  return links.length ? links.join(' AND ') : '1';
+}
+
+const getBackupSettings = () => ({
+  intervalHours: Number(getConfigValue('backup_interval_hours')) || 0,
+  keep: Number(getConfigValue('backup_keep')) || 7,
 });
 
-// ── PATCH /api/costs/total ────────────────────────────────────────────────────
-app.patch('/api/costs/total', (req, res) => {
-  const { delta } = req.body as { delta: number };
-  db.prepare(`UPDATE costs SET amount = amount + ? WHERE id = '__total__'`).run(delta);
+/** Snapshots the live database with SQLite's online backup, then rotates old automatic backups. */
+async function createBackup(kind: BackupKind): Promise<BackupInfo> {
+  fs.mkdirSync(BACKUP_DIR, { recursive: true });
+  const name = backupFileName(kind);
+  await db.backup(path.join(BACKUP_DIR, name));
+  rotateBackups(BACKUP_DIR, getBackupSettings().keep);
+  return listBackups(BACKUP_DIR).find((b) => b.name === name)!;
+}
+
+/** Columns of `table` in the given schema; empty when the table doesn't exist there. */
+const tableColumns = (table: string, schema = 'main') =>
+  (db.prepare(`PRAGMA ${schema}.table_info(${table})`).all() as { name: string }[]).map((c) => c.name);
+
+/** Rows every restore relies on: the built-in collections and the all-time cost total. */
+function reseedAfterRestore() {
+  seedBuiltinCollections();
+  db.prepare(`
+    INSERT OR IGNORE INTO costs (id, type, label, amount, created_at)
+    VALUES ('__total__', 'total', 'All-Time Total', 0, ?)
+  `).run(Date.now());
+}
+
+/**
+ * Replaces the live data with a backup file's. Only columns both schemas have are
+ * copied, so backups taken before a migration still restore; a table the backup
+ * predates comes back empty. Rowids are kept so lists keep their order; rows whose
+ * parent row is missing (previews of a wildcard that is gone) are left out.
+ */
+function restoreBackupFile(file: string) {
+  db.prepare('ATTACH DATABASE ? AS backup').run(file);
+  try {
+    if (!tableColumns('wildcards', 'backup').length) throw new Error('The file is not a wildcards database');
+    db.transaction(() => {
+      for (const table of tablesToClear(RESTORED_TABLES)) {
+        if (table !== 'config') db.prepare(`DELETE FROM ${table}`).run();
+      }
+      for (const table of RESTORED_TABLES) {
+        // Backups from before collections were a table hold wildcards of the built-in ones.
+        if (table === 'wildcards') seedBuiltinCollections();
+        const live = new Set(tableColumns(table));
+        const columns = tableColumns(table, 'backup').filter((c) => live.has(c)).join(', ');
+        if (!columns) continue;
+        if (table === 'config') {
+          db.prepare(`INSERT OR REPLACE INTO config (${columns}) SELECT ${columns} FROM backup.config`).run();
+        } else {
+          // Backups from before previews were unique may hold a preview twice.
+          const verb = table === 'wildcard_previews' ? 'INSERT OR IGNORE' : 'INSERT';
+          db.prepare(
+            `${verb} INTO ${table} (rowid, ${columns}) SELECT rowid, ${columns} FROM backup.${table} WHERE ${parentsExist(table)} ORDER BY rowid`,
+          ).run();
+        }
+      }
+      reseedAfterRestore();
+    })();
+  } finally {
+    db.prepare('DETACH DATABASE backup').run();
+  }
+}
+
+function exportDatabase(includeSecrets: boolean): DatabaseExport {
+  const tables: DatabaseExport['tables'] = {};
+  for (const table of EXPORT_TABLES) {
+    const rows = db.prepare(`SELECT * FROM ${table} ORDER BY rowid`).all() as Record<string, unknown>[];
+    tables[table] = table === 'config' && !includeSecrets
+      ? rows.filter((r) => !SECRET_CONFIG_KEYS.includes(r.key as string))
+      : rows;
+  }
+  return { format: EXPORT_FORMAT, version: EXPORT_VERSION, exportedAt: new Date().toISOString(), tables };
+}
+
+/**
+ * Replaces each table the export has with its rows (config keys are merged, so API keys
+ * left out of the export stay as they are); tables pointing at a replaced one are
+ * emptied too. Unknown columns and rows whose parent row is missing are skipped.
+ * Returns the number of rows imported per table.
+ */
+function importDatabase(data: DatabaseExport): Record<string, number> {
+  const present = EXPORT_TABLES.filter((table) => data.tables[table]);
+  const counts: Record<string, number> = {};
+  db.transaction(() => {
+    for (const table of tablesToClear(present)) {
+      if (table !== 'config') db.prepare(`DELETE FROM ${table}`).run();
+    }
+    for (const table of present) {
+      if (table === 'wildcards') seedBuiltinCollections();
+      const live = new Set(tableColumns(table));
+      const statements = new Map<string, Database.Statement>();
+      counts[table] = 0;
+      for (const row of data.tables[table]!) {
+        const columns = Object.keys(row).filter((c) => live.has(c));
+        if (!columns.length) continue;
+        const key = columns.join(', ');
+        if (!statements.has(key)) {
+          // Exports from before previews were unique may hold a preview twice.
+          const verb = table === 'config' ? 'INSERT OR REPLACE' : table === 'wildcard_previews' ? 'INSERT OR IGNORE' : 'INSERT';
+          const values = columns.map((c) => `? AS "${c}"`).join(', ');
+          statements.set(key, db.prepare(
+            `${verb} INTO ${table} (${key}) SELECT * FROM (SELECT ${values}) WHERE ${parentsExist(table, columns)}`,
+          ));
+        }
+        counts[table] += statements.get(key)!.run(...columns.map((c) => row[c])).changes;
+      }
+    }
+    reseedAfterRestore();
+  })();
+  return counts;
+}
+
+/** Runs on a timer; makes an automatic backup once the newest one is older than the interval. */
+async function runScheduledBackup() {
+  const { intervalHours } = getBackupSettings();
+  if (intervalHours <= 0) return;
+  const last = listBackups(BACKUP_DIR).find((b) => b.kind === 'auto');
+  if (last && Date.now() - last.createdAt < intervalHours * HOUR_MS) return;
+  try {
+    const backup = await createBackup('auto');
+    console.log(`Backup written: ${backup.name}`);
+  } catch (err) {
+    console.error('Automatic backup failed:', err);
+  }
+}
+
+/** A backup named in the URL, or null when the name isn't a backup in the folder. */
+function findBackup(name: string): string | null {
+  if (!parseBackupName(name)) return null;
+  const file = path.join(BACKUP_DIR, name);
+  return fs.existsSync(file) ? file : null;
+}
+
+// ── GET /api/backups ──────────────────────────────────────────────────────────
+app.get('/api/backups', (_req, res) => {
+  res.json({ backups: listBackups(BACKUP_DIR), dir: BACKUP_DIR } satisfies BackupList);
+});
+
+// ── POST /api/backups ─────────────────────────────────────────────────────────
+app.post('/api/backups', async (_req, res) => {
+  try {
+    res.json({ backup: await createBackup('manual') });
+  } catch (err) {
+    sendError(res, 500, `Backup failed: ${(err as Error).message}`);
+  }
+});
+
+// ── GET /api/backups/settings ─────────────────────────────────────────────────
+app.get('/api/backups/settings', (_req, res) => {
+  res.json(getBackupSettings());
+});
+
+// ── PATCH /api/backups/settings ───────────────────────────────────────────────
+app.patch('/api/backups/settings', (req, res) => {
+  const body = parseRequest(BackupSettingsBody, req.body, res);
+  if (!body) return;
+  const { intervalHours, keep } = body;
+  const stmt = db.prepare('INSERT OR REPLACE INTO config (key, value) VALUES (?, ?)');
+  if (intervalHours !== undefined) stmt.run('backup_interval_hours', String(intervalHours));
+  if (keep !== undefined) {
+    stmt.run('backup_keep', String(keep));
+    rotateBackups(BACKUP_DIR, keep);
+  }
+  res.json(getBackupSettings());
+});
+
+// ── GET /api/backups/export?secrets= ──────────────────────────────────────────
+app.get('/api/backups/export', (req, res) => {
+  const data = exportDatabase(req.query.secrets === '1');
+  res.setHeader('Content-Type', 'application/json; charset=utf-8');
+  res.setHeader('Content-Disposition', 'attachment; filename="wildcards-export.json"');
+  res.send(JSON.stringify(data, null, 2));
+});
+
+// ── POST /api/backups/import ──────────────────────────────────────────────────
+app.post('/api/backups/import', async (req, res) => {
+  const body = parseRequest(ImportDatabaseBody, req.body, res);
+  if (!body) return;
+  const parsed = parseExport(body.content);
+  if ('error' in parsed) return sendError(res, 400, parsed.error);
+  try {
+    const backup = await createBackup('pre-restore');
+    res.json({ imported: importDatabase(parsed.data), backup });
+  } catch (err) {
+    sendError(res, 400, `Import failed: ${(err as Error).message}`);
+  }
+});
+
+// ── GET /api/backups/:name ────────────────────────────────────────────────────
+app.get('/api/backups/:name', (req, res) => {
+  const file = findBackup(req.params.name);
+  if (!file) return sendError(res, 404, 'Backup not found');
+  res.download(file, req.params.name);
+});
+
+// ── POST /api/backups/:name/restore ───────────────────────────────────────────
+// The current data is backed up first, so a restore can itself be undone.
+app.post('/api/backups/:name/restore', async (req, res) => {
+  const file = findBackup(req.params.name);
+  if (!file) return sendError(res, 404, 'Backup not found');
+  try {
+    const backup = await createBackup('pre-restore');
+    restoreBackupFile(file);
+    res.json({ restored: req.params.name, backup });
+  } catch (err) {
+    sendError(res, 400, `Restore failed: ${(err as Error).message}`);
+  }
+});
+
+// ── DELETE /api/backups/:name ─────────────────────────────────────────────────
+app.delete('/api/backups/:name', (req, res) => {
+  const file = findBackup(req.params.name);
+  if (!file) return sendError(res, 404, 'Backup not found');
+  fs.unlinkSync(file);
   res.json({ ok: true });
 });
 
 // ── POST /api/db/reset ────────────────────────────────────────────────────────
+// Wildcards go to the trash (kept through the reset) so they can still be restored.
 app.post('/api/db/reset', (_req, res) => {
-  db.transaction(() => {
-    db.prepare('DELETE FROM wildcard_previews').run();
-    db.prepare('DELETE FROM wildcards').run();
+  const receipt = db.transaction(() => {
+    const trashed = trashWildcards('1 = 1', []);
+    db.prepare('DELETE FROM collections').run();
+    seedBuiltinCollections();
     db.prepare('DELETE FROM costs').run();
+    db.prepare('DELETE FROM generations').run();
+    db.prepare('DELETE FROM cost_records').run();
+    db.prepare('DELETE FROM tag_dictionary').run();
+    db.prepare('DELETE FROM tag_aliases').run();
     db.prepare(`INSERT INTO costs (id, type, label, amount, created_at) VALUES ('__total__', 'total', 'All-Time Total', 0, ?)`).run(Date.now());
     db.prepare(`UPDATE config SET value = '' WHERE key = 'api_key'`).run();
+    db.prepare(`UPDATE config SET value = 'gemini' WHERE key = 'llm_provider'`).run();
+    db.prepare(`UPDATE config SET value = ? WHERE key = 'gemini_model'`).run(DEFAULT_GEMINI_MODEL);
+    db.prepare('DELETE FROM model_pricing').run();
+    seedModelPricing(db);
+    db.prepare(`UPDATE config SET value = '' WHERE key IN ('openai_base_url', 'openai_model', 'openai_api_key')`).run();
     db.prepare(`UPDATE config SET value = '' WHERE key = 'gallery_dir'`).run();
+    db.prepare(`UPDATE config SET value = '' WHERE key = 'wildcards_dir'`).run();
+    db.prepare(`UPDATE config SET value = '' WHERE key IN ('budget_session', 'budget_daily', 'budget_monthly')`).run();
+    db.prepare(`UPDATE config SET value = 'confirm' WHERE key = 'budget_mode'`).run();
+    db.prepare(`UPDATE config SET value = '0.8' WHERE key = 'duplicate_threshold'`).run();
+    db.prepare(`UPDATE config SET value = 'flag' WHERE key = 'duplicate_action'`).run();
+    db.prepare(`UPDATE config SET value = '30' WHERE key = 'trash_retention_days'`).run();
+    db.prepare(`UPDATE config SET value = '24' WHERE key = 'backup_interval_hours'`).run();
+    db.prepare(`UPDATE config SET value = '7' WHERE key = 'backup_keep'`).run();
+    return trashed;
   })();
-  res.json({ ok: true });
+  res.json({ ok: true, ...receipt });
+});
+
+// ── Unknown routes and errors ─────────────────────────────────────────────────
+app.use('/api', (req, res) => {
+  sendError(res, 404, `No route for ${req.method} ${req.originalUrl}`);
+});
+
+// Malformed or oversized JSON from express.json(), and anything a route throws.
+app.use((err: any, _req: Request, res: Response, next: NextFunction) => {
+  if (res.headersSent) return next(err);
+  if (err?.type === 'entity.parse.failed') return sendError(res, 400, 'The request body is not valid JSON');
+  if (err?.type === 'entity.too.large') return sendError(res, 413, 'The request body is too large');
+  console.error('Request failed:', err);
+  sendError(res, 500, (err as Error)?.message || 'Internal error');
 });
 
 // ── Production: serve the Vite-built frontend ───────────────────────────────
@@ -362,6 +2267,15 @@ if (isProd) {
 }
 
 // ─────────────────────────────────────────────────────────────────────────────
+// Trash past its retention period goes for good at startup.
+{
+  const purged = purgeExpiredTrash();
+  if (purged > 0) console.log(`Purged ${purged} wildcard(s) from the trash`);
+}
+// Automatic backups: checked now and every few minutes against the configured interval.
+runScheduledBackup();
+setInterval(runScheduledBackup, BACKUP_CHECK_MS);
+
 app.listen(PORT, () => {
   if (isProd) {
     console.log(`\n  App running → http://localhost:${PORT}`);
@@ -369,5 +2283,7 @@ app.listen(PORT, () => {
     console.log(`Gallery + Wildcards server → http://localhost:${PORT}`);
   }
   console.log(`Gallery:  ${getGalleryDir() || '(not configured – set via Settings)'}`);
+  console.log(`Wildcards folder: ${getWildcardsDir() || '(not configured – set via Settings)'}`);
   console.log(`Database: ${DB_PATH}`);
+  console.log(`Backups:  ${BACKUP_DIR}`);
 });
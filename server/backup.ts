@@ -0,0 +1,123 @@
+/**
+ * Database backups and the portable JSON export.
+ *
+ * Backups are SQLite snapshots in the backups folder, named
+ * wildcards-<UTC timestamp with ms>-<kind>.db:
+ *
+ *   manual         made from Settings; kept until deleted
+ *   auto           made on the configured schedule
+ *   pre-restore    taken just before a restore or import replaces the data
+ *   pre-migration  taken at startup before schema migrations change the database
+ *
+ * Rotation keeps the newest `keep` backups of each kind except manual.
+ *
+ * The JSON export holds the tables listed in EXPORT_TABLES, rows as stored,
+ * parents before children so an import can insert them in order. API keys are
+ * left out unless asked for.
+ */
+
+import fs from 'fs';
+import path from 'path';
+
+export type BackupKind = 'manual' | 'auto' | 'pre-restore' | 'pre-migration';
+const ROTATED_KINDS: BackupKind[] = ['auto', 'pre-restore', 'pre-migration'];
+
+export interface BackupInfo {
+  name: string;
+  kind: BackupKind;
+  size: number;
+  createdAt: number;
+}
+
+const NAME_PATTERN = /^wildcards-(\d{4})-(\d{2})-(\d{2})T(\d{2})-(\d{2})-(\d{2})-(\d{3})-(manual|auto|pre-restore|pre-migration)\.db$/;
+
+export function backupFileName(kind: BackupKind, date = new Date()): string {
+  // Milliseconds included: a restore right after a manual backup mustn't overwrite it.
+  const stamp = date.toISOString().slice(0, 23).replace(/[:.]/g, '-');
+  return `wildcards-${stamp}-${kind}.db`;
+}
+
+/** Kind and time of a backup file name, or null for anything that isn't one (including paths). */
+export function parseBackupName(name: string): { kind: BackupKind; createdAt: number } | null {
+  const m = NAME_PATTERN.exec(name);
+  if (!m) return null;
+  const [, y, mo, d, h, mi, s, ms, kind] = m;
+  return { kind: kind as BackupKind, createdAt: Date.UTC(+y, +mo - 1, +d, +h, +mi, +s, +ms) };
+}
+
+/** Backups in `dir`, newest first. */
+export function listBackups(dir: string): BackupInfo[] {
+  if (!fs.existsSync(dir)) return [];
+  return fs.readdirSync(dir)
+    .flatMap((name) => {
+      const parsed = parseBackupName(name);
+      if (!parsed) return [];
+      return [{ name, ...parsed, size: fs.statSync(path.join(dir, name)).size }];
+    })
+    .sort((a, b) => b.createdAt - a.createdAt || b.name.localeCompare(a.name));
+}
+
+/** Deletes the oldest backups past `keep` of each rotated kind; returns their names. */
+export function rotateBackups(dir: string, keep: number): string[] {
+  const removed: string[] = [];
+  for (const kind of ROTATED_KINDS) {
+    for (const backup of listBackups(dir).filter((b) => b.kind === kind).slice(keep)) {
+      fs.unlinkSync(path.join(dir, backup.name));
+      removed.push(backup.name);
+    }
+  }
+  return removed;
+}
+
+// ── JSON export ─────────────────────────────────────────────────────────────
+
+export const EXPORT_FORMAT = 'wildcards-export';
+export const EXPORT_VERSION = 1;
+
+/** Exported tables, parents first. Config is merged on import rather than replaced. */
+export const EXPORT_TABLES = [
+  'collections',
+  'wildcards',
+  'wildcard_previews',
+  'wildcard_edits',
+  'costs',
+  'cost_records',
+  'model_pricing',
+  'config',
+] as const;
+export type ExportTable = (typeof EXPORT_TABLES)[number];
+
+/** Config keys holding API keys. */
+export const SECRET_CONFIG_KEYS = ['api_key', 'openai_api_key'];
+
+export interface DatabaseExport {
+  format: typeof EXPORT_FORMAT;
+  version: number;
+  exportedAt: string;
+  tables: Partial<Record<ExportTable, Record<string, unknown>[]>>;
+}
+
+/** Parses an uploaded export, or explains why it isn't one this version can import. */
+export function parseExport(content: string): { error: string } | { data: DatabaseExport } {
+  let data: any;
+  try {
+    data = JSON.parse(content);
+  } catch {
+    return { error: 'The file is not valid JSON' };
+  }
+  if (data?.format !== EXPORT_FORMAT || typeof data.tables !== 'object' || data.tables === null) {
+    return { error: 'The file is not a wildcards export' };
+  }
+  if (typeof data.version !== 'number' || data.version > EXPORT_VERSION) {
+    return { error: `Export version ${data.version} is newer than this app supports (${EXPORT_VERSION})` };
+  }
+  for (const [table, rows] of Object.entries(data.tables)) {
+    if (!(EXPORT_TABLES as readonly string[]).includes(table)) return { error: `Unknown table in export: ${table}` };
+    if (!Array.isArray(rows) || rows.some((r) => typeof r !== 'object' || r === null || Array.isArray(r))) {
+      return { error: `${table} must be a list of rows` };
+    }
+  }
+  // Wildcards point at their collection, so one can't be replaced without the other.
+  if (!data.tables.wildcards !== !data.tables.collections) return { error: 'The export must have both collections and wildcards' };
+  return { data };
+}
@@ -0,0 +1,22 @@
+/**
+ * Minimal CSV writer (RFC 4180).
+ *
+ * Fields containing a comma, quote or line break are quoted, with quotes
+ * doubled. Lines end in CRLF, which spreadsheet apps expect. Text starting
+ * like a formula (=, +, -, @, tab, CR) gets a leading ' so a spreadsheet
+ * shows it instead of running it; numbers are written as they are.
+ */
+
+export type CsvValue = string | number | null | undefined;
+
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+function csvField(value: CsvValue): string {
+  if (value === null || value === undefined) return '';
+  const text = typeof value === 'string' && FORMULA_START.test(value) ? `'${value}` : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsv(header: string[], rows: CsvValue[][]): string {
+  return [header, ...rows].map((row) => row.map(csvField).join(',')).join('\r\n') + '\r\n';
+}
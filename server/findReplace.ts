@@ -0,0 +1,71 @@
+/**
+ * Bulk find-and-replace over wildcard text.
+ *
+ *   tag    `find` matches whole tags, compared like search tags (case, spaces and
+ *          underscores don't matter); an empty `replace` removes the tag
+ *   regex  `find` is a JavaScript regular expression applied to the whole text;
+ *          `replace` may use $1, $<name> and the other String.replace patterns
+ *
+ * Either way, tags left empty by the replacement are dropped, so removing a
+ * tag never leaves ", ," behind. editTags() adds and removes whole tags for the
+ * bulk actions on selected wildcards.
+ */
+
+import { normalizeTag } from './searchQuery';
+
+export type ReplaceMode = 'tag' | 'regex';
+export const REPLACE_MODES: ReplaceMode[] = ['tag', 'regex'];
+
+export interface ReplaceOptions {
+  mode: ReplaceMode;
+  find: string;
+  replace: string;
+  /** Regex mode only; tag mode always ignores case. */
+  caseSensitive?: boolean;
+}
+
+/**
+ * Returns a function applying `opts` to one wildcard; texts without a match come back
+ * unchanged. Throws when the regex is invalid.
+ */
+export function compileReplace(opts: ReplaceOptions): (text: string) => string {
+  if (opts.mode === 'regex') {
+    const pattern = new RegExp(opts.find, opts.caseSensitive ? 'g' : 'gi');
+    return (text) => {
+      const replaced = text.replace(pattern, opts.replace);
+      return replaced === text ? text : dropEmptyTags(replaced);
+    };
+  }
+  const target = normalizeTag(opts.find);
+  const replacement = opts.replace.trim();
+  return (text) => {
+    const parts = text.split(',');
+    if (!parts.some((part) => normalizeTag(part) === target)) return text;
+    // Keep the spacing before each tag so untouched parts of the text stay as written.
+    const replaced = parts.map((part) => (normalizeTag(part) === target ? part.match(/^\s*/)![0] + replacement : part));
+    return dropEmptyTags(replaced.join(','));
+  };
+}
+
+/**
+ * Removes every tag in `remove` and appends each tag in `add` the text doesn't already
+ * have, comparing tags like search does. Used by the bulk tag actions.
+ */
+export function editTags(text: string, { add = [], remove = [] }: { add?: string[]; remove?: string[] }): string {
+  const removed = new Set(remove.map(normalizeTag).filter(Boolean));
+  const parts = text.split(',');
+  const kept = parts.filter((part) => !removed.has(normalizeTag(part)));
+  const present = new Set(kept.map(normalizeTag));
+  let changed = kept.length < parts.length;
+  for (const tag of add.map((t) => t.trim()).filter(Boolean)) {
+    if (present.has(normalizeTag(tag))) continue;
+    present.add(normalizeTag(tag));
+    kept.push(` ${tag}`);
+    changed = true;
+  }
+  return changed ? dropEmptyTags(kept.join(',')) : text;
+}
+
+function dropEmptyTags(text: string): string {
+  return text.split(',').filter((part) => part.trim() !== '').join(',').trim();
+}
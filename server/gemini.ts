@@ -0,0 +1,73 @@
+/**
+ * Gemini provider. Runs only on the server so the API key stays in the config
+ * table and is never sent to the browser.
+ */
+
+import { GoogleGenAI, GenerateContentResponseUsageMetadata, MediaModality } from '@google/genai';
+import { LlmProvider, ModelRates, TokenUsage, batchPrompt, createLineCollector, estimateBatchUsage } from './llm';
+
+export const DEFAULT_GEMINI_MODEL = 'gemini-3-flash-preview';
+
+/** Published rates (USD per million tokens) the pricing table starts with; images bill at the input rate. */
+export const GEMINI_PRICING: ({ model: string } & ModelRates)[] = [
+  { model: 'gemini-3-flash-preview', inputPerMTok: 0.5, outputPerMTok: 3.0, imagePerMTok: 0.5 },
+  { model: 'gemini-3-pro-preview', inputPerMTok: 2.0, outputPerMTok: 12.0, imagePerMTok: 2.0 },
+  { model: 'gemini-2.5-pro', inputPerMTok: 1.25, outputPerMTok: 10.0, imagePerMTok: 1.25 },
+  { model: 'gemini-2.5-flash', inputPerMTok: 0.3, outputPerMTok: 2.5, imagePerMTok: 0.3 },
+  { model: 'gemini-2.5-flash-lite', inputPerMTok: 0.1, outputPerMTok: 0.4, imagePerMTok: 0.1 },
+];
+
+/** `data:image/png;base64,xxxx` → inline data part. */
+function imagePart(dataUrl: string) {
+  const match = /^data:([^;,]+);base64,(.*)$/s.exec(dataUrl);
+  return { inlineData: { data: match ? match[2] : dataUrl, mimeType: match?.[1] ?? 'image/jpeg' } };
+}
+
+/** Splits the prompt tokens into text and image tokens. */
+function toTokenUsage(usage: GenerateContentResponseUsageMetadata): TokenUsage {
+  const promptTokens = usage.promptTokenCount || 0;
+  const imageTokens = (usage.promptTokensDetails ?? [])
+    .filter((d) => d.modality === MediaModality.IMAGE)
+    .reduce((sum, d) => sum + (d.tokenCount || 0), 0);
+  return {
+    inputTokens: promptTokens - imageTokens,
+    imageTokens,
+    outputTokens: usage.candidatesTokenCount || 0,
+  };
+}
+
+/** One client is reused across the batches of a generation. */
+export function createGeminiProvider(apiKey: string, model: string): LlmProvider {
+  const ai = new GoogleGenAI({ apiKey });
+  return {
+    id: 'gemini',
+    model,
+    async streamBatch(opts, count, onLine, signal) {
+      const collector = createLineCollector(count, onLine);
+      let usage: TokenUsage | undefined;
+      let streamed = '';
+      try {
+        const stream = await ai.models.generateContentStream({
+          model,
+          contents: { parts: [{ text: batchPrompt(opts, count) }, ...(opts.referenceImages ?? []).map(imagePart)] },
+          config: { systemInstruction: opts.systemInstruction, temperature: 0.8, abortSignal: signal },
+        });
+        for await (const chunk of stream) {
+          // Usage is reported on the chunks; the last one seen has the final counts.
+          if (chunk.usageMetadata) usage = toTokenUsage(chunk.usageMetadata);
+          const text = chunk.text ?? '';
+          streamed += text;
+          collector.push(text);
+          if (signal?.aborted) break;
+        }
+      } catch (err) {
+        if (!signal?.aborted) throw err;
+      }
+      // Stopped before the first chunk with usage: bill an estimate rather than nothing.
+      usage ??= estimateBatchUsage(opts, count, streamed);
+      if (signal?.aborted) return { lines: collector.lines, usage, aborted: true };
+      collector.finish();
+      return { lines: collector.lines, usage };
+    },
+  };
+}
@@ -0,0 +1,148 @@
+/**
+ * Provider-independent parts of wildcard generation: the provider interface,
+ * batching, the batch prompt and splitting streamed text into wildcard lines.
+ *
+ *   gemini   server/gemini.ts            Google Gemini (API key)
+ *   openai   server/openaiCompatible.ts  any /v1/chat/completions endpoint —
+ *                                        OpenAI, Ollama, LM Studio, llama.cpp server
+ */
+
+export type ProviderId = 'gemini' | 'openai';
+export const PROVIDER_IDS: ProviderId[] = ['gemini', 'openai'];
+
+/** Wildcards requested per API call; larger requests are split into batches. */
+export const BATCH_SIZE = 10;
+
+export interface GenerateOptions {
+  prompt: string;
+  systemInstruction: string;
+  /** Existing wildcard to produce variations of, if refining. */
+  refining?: string | null;
+  /** Reference images as data URLs. */
+  referenceImages?: string[];
+}
+
+/** Tokens used by one call. `inputTokens` excludes the image tokens counted separately. */
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+  imageTokens: number;
+}
+
+/** USD per million tokens, from the model_pricing table. */
+export interface ModelRates {
+  inputPerMTok: number;
+  outputPerMTok: number;
+  imagePerMTok: number;
+}
+
+export interface BatchResult {
+  lines: string[];
+  /** Last usage the provider reported; missing when it reported none. */
+  usage?: TokenUsage;
+  /** True when the batch was stopped through its abort signal before finishing. */
+  aborted?: boolean;
+}
+
+export interface LlmProvider {
+  id: ProviderId;
+  model: string;
+  /**
+   * Generates one batch of up to `count` wildcards, calling `onLine` for each
+   * wildcard as soon as its line is complete.
+   *
+   * Aborting through `signal` resolves instead of throwing: the result holds the
+   * lines completed so far and the last usage the stream reported (or an estimate
+   * when it reported none yet), so a stopped batch is still billed for what it
+   * consumed. An unfinished last line is dropped.
+   */
+  streamBatch(
+    opts: GenerateOptions,
+    count: number,
+    onLine: (text: string) => void,
+    signal?: AbortSignal,
+  ): Promise<BatchResult>;
+}
+
+/** Prices a call; unpriced models (no rates) cost nothing. */
+export function usageCost(usage: TokenUsage | undefined, rates: ModelRates | undefined): number {
+  if (!usage || !rates) return 0;
+  return (
+    usage.inputTokens * rates.inputPerMTok +
+    usage.imageTokens * rates.imagePerMTok +
+    usage.outputTokens * rates.outputPerMTok
+  ) / 1_000_000;
+}
+
+/** Rough text tokenisation rate used for estimates; real counts come from the provider. */
+const CHARS_PER_TOKEN = 4;
+/** Tokens one reference image is estimated at (Gemini bills a small image as 258). */
+const IMAGE_TOKENS_ESTIMATE = 258;
+/** Output tokens per wildcard when there is no earlier run of the model to go by. */
+export const DEFAULT_OUTPUT_TOKENS_PER_WILDCARD = 80;
+
+/**
+ * Estimates the usage of a generation before it runs. Every batch resends the
+ * system instruction, prompt and images, so input grows with the batch count.
+ */
+export function estimateUsage(opts: GenerateOptions, count: number, outputTokensPerWildcard: number): TokenUsage {
+  const usage: TokenUsage = { inputTokens: 0, outputTokens: Math.ceil(count * outputTokensPerWildcard), imageTokens: 0 };
+  for (const batchCount of planBatches(count)) {
+    usage.inputTokens += Math.ceil((opts.systemInstruction.length + batchPrompt(opts, batchCount).length) / CHARS_PER_TOKEN);
+    usage.imageTokens += (opts.referenceImages?.length ?? 0) * IMAGE_TOKENS_ESTIMATE;
+  }
+  return usage;
+}
+
+/**
+ * Estimates the usage of one batch from its prompt and the text streamed back,
+ * for providers that report usage only at the end of a stream that was cut short
+ * (or not at all).
+ */
+export function estimateBatchUsage(opts: GenerateOptions, count: number, streamedText: string): TokenUsage {
+  const input = estimateUsage(opts, count, 0);
+  return { ...input, outputTokens: Math.ceil(streamedText.length / CHARS_PER_TOKEN) };
+}
+
+/** Splits `count` into batch sizes, e.g. 25 → [10, 10, 5]. */
+export function planBatches(count: number): number[] {
+  const batches: number[] = [];
+  for (let i = 0; i < count; i += BATCH_SIZE) batches.push(Math.min(BATCH_SIZE, count - i));
+  return batches;
+}
+
+export function batchPrompt(opts: GenerateOptions, count: number): string {
+  return opts.refining
+    ? `Refine this wildcard: "${opts.refining}". User request: ${opts.prompt}. Provide exactly ${count} distinct variations. Output ONLY the wildcards, one per line.`
+    : `${opts.prompt}. Provide exactly ${count} distinct variations. Output ONLY the wildcards, one per line.`;
+}
+
+/**
+ * Collects streamed text into at most `count` non-empty lines, passing each one
+ * to `onLine` once its newline arrives. `finish()` flushes the last line.
+ */
+export function createLineCollector(count: number, onLine: (text: string) => void) {
+  const lines: string[] = [];
+  let buffer = '';
+  const emit = (line: string) => {
+    const text = line.trim();
+    if (!text || lines.length >= count) return;
+    lines.push(text);
+    onLine(text);
+  };
+  return {
+    lines,
+    push(text: string) {
+      buffer += text;
+      let nl: number;
+      while ((nl = buffer.indexOf('\n')) !== -1) {
+        emit(buffer.slice(0, nl));
+        buffer = buffer.slice(nl + 1);
+      }
+    },
+    finish() {
+      emit(buffer);
+      buffer = '';
+    },
+  };
+}
@@ -0,0 +1,408 @@
+/**
+ * Versioned schema migrations.
+ *
+ * Each migration runs once, in order, inside its own transaction, and is
+ * recorded in the schema_version table; a failing migration rolls back and
+ * stops the server instead of being skipped. Add new migrations at the end
+ * with the next version number and never edit one that has shipped.
+ *
+ * Foreign keys are off while migrations run, so a table can be rebuilt
+ * (create, copy, drop, rename) while other tables still reference it; each
+ * migration runs PRAGMA foreign_key_check before it commits instead. Dangling
+ * rows an old database already had don't count against it.
+ *
+ * Migrations 1–10 replace the checks the server used to repeat on every
+ * start. Databases created before the runner have some or all of those
+ * changes already, so these migrations look before they change anything.
+ */
+
+import Database from 'better-sqlite3';
+import { GEMINI_PRICING } from './gemini';
+
+export interface Migration {
+  version: number;
+  name: string;
+  up: (db: Database.Database) => void;
+}
+
+const tableExists = (db: Database.Database, name: string) =>
+  !!db.prepare("SELECT 1 FROM sqlite_master WHERE type IN ('table', 'view') AND name = ?").get(name);
+
+const columnNames = (db: Database.Database, table: string) =>
+  (db.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[]).map((c) => c.name);
+
+function addColumnIfMissing(db: Database.Database, table: string, column: string, type: string) {
+  if (!columnNames(db, table).includes(column)) db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${type}`);
+}
+
+/** Adds Gemini's published rates for the models model_pricing has no row for. Also used by a database reset. */
+export function seedModelPricing(db: Database.Database) {
+  const stmt = db.prepare(`
+    INSERT OR IGNORE INTO model_pricing (id, provider, model, input_per_mtok, output_per_mtok, image_per_mtok, created_at)
+    VALUES (?, 'gemini', ?, ?, ?, ?, ?)
+  `);
+  const now = Date.now();
+  for (const p of GEMINI_PRICING) stmt.run(crypto.randomUUID(), p.model, p.inputPerMTok, p.outputPerMTok, p.imagePerMTok, now);
+}
+
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name: 'initial_schema',
+    up: (db) => db.exec(`
+      CREATE TABLE IF NOT EXISTS collections (
+        id         TEXT PRIMARY KEY,
+        name       TEXT NOT NULL UNIQUE COLLATE NOCASE,
+        visible    INTEGER NOT NULL DEFAULT 1,
+        created_at INTEGER NOT NULL
+      );
+      CREATE TABLE IF NOT EXISTS wildcards (
+        id          TEXT PRIMARY KEY,
+        text        TEXT NOT NULL,
+        list        TEXT NOT NULL REFERENCES collections(id),
+        preview_url TEXT,
+        created_at  INTEGER NOT NULL,
+        generation_id TEXT,
+        parent_id     TEXT,
+        copied_from   TEXT
+      );
+      CREATE INDEX IF NOT EXISTS idx_wildcards_list_text ON wildcards(list, text);
+      CREATE TABLE IF NOT EXISTS wildcard_previews (
+        id          TEXT PRIMARY KEY,
+        wildcard_id TEXT NOT NULL REFERENCES wildcards(id),
+        url         TEXT NOT NULL,
+        created_at  INTEGER NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_wp_wildcard_id ON wildcard_previews(wildcard_id);
+      CREATE TABLE IF NOT EXISTS wildcard_edits (
+        id          TEXT PRIMARY KEY,
+        wildcard_id TEXT NOT NULL REFERENCES wildcards(id),
+        text        TEXT NOT NULL,
+        created_at  INTEGER NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_we_wildcard_id ON wildcard_edits(wildcard_id);
+      CREATE TABLE IF NOT EXISTS costs (
+        id         TEXT PRIMARY KEY,
+        type       TEXT NOT NULL CHECK(type IN ('session', 'total')),
+        label      TEXT,
+        amount     REAL NOT NULL DEFAULT 0,
+        created_at INTEGER NOT NULL
+      );
+      CREATE TABLE IF NOT EXISTS generations (
+        id                 TEXT PRIMARY KEY,
+        provider           TEXT NOT NULL,
+        model              TEXT NOT NULL,
+        prompt             TEXT NOT NULL,
+        system_instruction TEXT NOT NULL,
+        refining           TEXT,
+        refining_id        TEXT,
+        reference_images   TEXT NOT NULL DEFAULT '[]',
+        requested          INTEGER NOT NULL,
+        wildcard_ids       TEXT NOT NULL DEFAULT '[]',
+        input_tokens       INTEGER NOT NULL DEFAULT 0,
+        output_tokens      INTEGER NOT NULL DEFAULT 0,
+        image_tokens       INTEGER NOT NULL DEFAULT 0,
+        cost               REAL NOT NULL DEFAULT 0,
+        status             TEXT NOT NULL CHECK(status IN ('running', 'completed', 'cancelled', 'failed')),
+        error              TEXT,
+        created_at         INTEGER NOT NULL,
+        finished_at        INTEGER
+      );
+      CREATE TABLE IF NOT EXISTS config (
+        key   TEXT PRIMARY KEY,
+        value TEXT NOT NULL DEFAULT ''
+      );
+    `),
+  },
+  {
+    // Wildcards were once ordered by an explicit position column.
+    version: 2,
+    name: 'drop_wildcards_position',
+    up: (db) => {
+      db.exec('DROP INDEX IF EXISTS idx_wildcards_list_pos');
+      if (columnNames(db, 'wildcards').includes('position')) db.exec('ALTER TABLE wildcards DROP COLUMN position');
+    },
+  },
+  {
+    // Rebuild the wildcards table without the old CHECK(list IN ('generated', 'saved'))
+    // constraint so rows can belong to any collection. Existing rows keep their list
+    // value, which now points at the matching built-in collection. Rows are copied in
+    // rowid order so the newest-first pagination order is preserved.
+    version: 3,
+    name: 'wildcards_in_any_collection',
+    up: (db) => {
+      const row = db.prepare("SELECT sql FROM sqlite_master WHERE type = 'table' AND name = 'wildcards'").get() as any;
+      if (!row?.sql?.includes('CHECK(list IN')) return;
+      const now = Date.now();
+      db.prepare(`
+        INSERT OR IGNORE INTO collections (id, name, visible, created_at)
+        VALUES ('generated', 'Generated', 1, ?), ('saved', 'Saved', 1, ?)
+      `).run(now, now);
+      db.exec(`
+        CREATE TABLE wildcards_new (
+          id          TEXT PRIMARY KEY,
+          text        TEXT NOT NULL,
+          list        TEXT NOT NULL REFERENCES collections(id),
+          preview_url TEXT,
+          created_at  INTEGER NOT NULL
+        );
+        INSERT INTO wildcards_new (id, text, list, preview_url, created_at)
+          SELECT id, text, list, preview_url, created_at FROM wildcards ORDER BY rowid ASC;
+        DROP TABLE wildcards;
+        ALTER TABLE wildcards_new RENAME TO wildcards;
+        CREATE INDEX IF NOT EXISTS idx_wildcards_list_text ON wildcards(list, text);
+      `);
+    },
+  },
+  {
+    // Lineage: the generation a wildcard came from, the wildcard it is a refine of
+    // (parent_id) and the wildcard a saved copy was made from (copied_from).
+    version: 4,
+    name: 'wildcard_lineage',
+    up: (db) => {
+      addColumnIfMissing(db, 'wildcards', 'generation_id', 'TEXT');
+      addColumnIfMissing(db, 'wildcards', 'parent_id', 'TEXT');
+      addColumnIfMissing(db, 'wildcards', 'copied_from', 'TEXT');
+      addColumnIfMissing(db, 'generations', 'refining_id', 'TEXT');
+      db.exec(`
+        CREATE INDEX IF NOT EXISTS idx_wildcards_parent_id ON wildcards(parent_id);
+        CREATE INDEX IF NOT EXISTS idx_wildcards_copied_from ON wildcards(copied_from);
+      `);
+    },
+  },
+  {
+    // Wildcards created before the multi-preview feature keep their thumbnail.
+    version: 5,
+    name: 'preview_url_to_wildcard_previews',
+    up: (db) => {
+      const rows = db.prepare(`
+        SELECT w.id, w.preview_url FROM wildcards w
+        WHERE w.preview_url IS NOT NULL AND w.preview_url != ''
+          AND NOT EXISTS (SELECT 1 FROM wildcard_previews p WHERE p.wildcard_id = w.id AND p.url = w.preview_url)
+      `).all() as { id: string; preview_url: string }[];
+      const stmt = db.prepare('INSERT INTO wildcard_previews (id, wildcard_id, url, created_at) VALUES (?, ?, ?, ?)');
+      for (const w of rows) stmt.run(crypto.randomUUID(), w.id, w.preview_url, Date.now());
+    },
+  },
+  {
+    // One row per LLM call, kept for cost reporting even after its generation is deleted.
+    // Runs recorded before the table existed are backfilled as one call each.
+    version: 6,
+    name: 'cost_records',
+    up: (db) => {
+      if (tableExists(db, 'cost_records')) return;
+      db.exec(`
+        CREATE TABLE cost_records (
+          id            TEXT PRIMARY KEY,
+          generation_id TEXT,
+          session_id    TEXT,
+          provider      TEXT NOT NULL,
+          model         TEXT NOT NULL,
+          input_tokens  INTEGER NOT NULL DEFAULT 0,
+          output_tokens INTEGER NOT NULL DEFAULT 0,
+          image_tokens  INTEGER NOT NULL DEFAULT 0,
+          cost          REAL NOT NULL DEFAULT 0,
+          created_at    INTEGER NOT NULL
+        );
+        CREATE INDEX idx_cost_records_created_at ON cost_records(created_at);
+      `);
+      const runs = db.prepare(`
+        SELECT * FROM generations WHERE cost > 0 OR input_tokens > 0 OR output_tokens > 0 OR image_tokens > 0
+      `).all() as any[];
+      const stmt = db.prepare(`
+        INSERT INTO cost_records (id, generation_id, session_id, provider, model, input_tokens, output_tokens,
+          image_tokens, cost, created_at)
+        VALUES (?, ?, NULL, ?, ?, ?, ?, ?, ?, ?)
+      `);
+      for (const g of runs) {
+        stmt.run(crypto.randomUUID(), g.id, g.provider, g.model, g.input_tokens, g.output_tokens, g.image_tokens,
+          g.cost, g.finished_at ?? g.created_at);
+      }
+    },
+  },
+  {
+    // Per-model token rates in USD per million tokens. Gemini's published rates are
+    // seeded once when the table is created; after that the table is the user's to edit.
+    version: 7,
+    name: 'model_pricing',
+    up: (db) => {
+      if (tableExists(db, 'model_pricing')) return;
+      db.exec(`
+        CREATE TABLE model_pricing (
+          id              TEXT PRIMARY KEY,
+          provider        TEXT NOT NULL,
+          model           TEXT NOT NULL,
+          input_per_mtok  REAL NOT NULL DEFAULT 0,
+          output_per_mtok REAL NOT NULL DEFAULT 0,
+          image_per_mtok  REAL NOT NULL DEFAULT 0,
+          created_at      INTEGER NOT NULL,
+          UNIQUE(provider, model)
+        );
+      `);
+      seedModelPricing(db);
+    },
+  },
+  {
+    // Danbooru tag dictionary loaded from a CSV; replaced wholesale on each load.
+    version: 8,
+    name: 'tag_dictionary',
+    up: (db) => db.exec(`
+      CREATE TABLE IF NOT EXISTS tag_dictionary (
+        name       TEXT PRIMARY KEY,
+        category   INTEGER NOT NULL,
+        post_count INTEGER NOT NULL
+      );
+      CREATE TABLE IF NOT EXISTS tag_aliases (
+        alias TEXT PRIMARY KEY,
+        name  TEXT NOT NULL
+      );
+    `),
+  },
+  {
+    // Deleted wildcards wait here until restored or purged. `data` holds the wildcard row
+    // with its previews and edit history as JSON, so a restore brings everything back;
+    // `row_id` is reused on restore when still free so the wildcard returns to its place.
+    version: 9,
+    name: 'trash',
+    up: (db) => db.exec(`
+      CREATE TABLE IF NOT EXISTS trash (
+        id         TEXT PRIMARY KEY,
+        row_id     INTEGER NOT NULL,
+        list       TEXT NOT NULL,
+        list_name  TEXT NOT NULL,
+        text       TEXT NOT NULL,
+        data       TEXT NOT NULL,
+        batch_id   TEXT NOT NULL,
+        deleted_at INTEGER NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_trash_batch_id ON trash(batch_id);
+      CREATE INDEX IF NOT EXISTS idx_trash_deleted_at ON trash(deleted_at);
+    `),
+  },
+  {
+    // wildcards_fts is an external-content FTS5 index over wildcards.text, keyed by
+    // rowid and kept in sync by triggers. The rebuild indexes rows that are already there.
+    version: 10,
+    name: 'full_text_search',
+    up: (db) => db.exec(`
+      CREATE VIRTUAL TABLE IF NOT EXISTS wildcards_fts USING fts5(
+        text, content = 'wildcards', content_rowid = 'rowid', tokenize = 'unicode61 remove_diacritics 2'
+      );
+      CREATE TRIGGER IF NOT EXISTS wildcards_fts_ai AFTER INSERT ON wildcards BEGIN
+        INSERT INTO wildcards_fts (rowid, text) VALUES (new.rowid, new.text);
+      END;
+      CREATE TRIGGER IF NOT EXISTS wildcards_fts_ad AFTER DELETE ON wildcards BEGIN
+        INSERT INTO wildcards_fts (wildcards_fts, rowid, text) VALUES ('delete', old.rowid, old.text);
+      END;
+      CREATE TRIGGER IF NOT EXISTS wildcards_fts_au AFTER UPDATE OF text ON wildcards BEGIN
+        INSERT INTO wildcards_fts (wildcards_fts, rowid, text) VALUES ('delete', old.rowid, old.text);
+        INSERT INTO wildcards_fts (rowid, text) VALUES (new.rowid, new.text);
+      END;
+      INSERT INTO wildcards_fts (wildcards_fts) VALUES ('rebuild');
+    `),
+  },
+  {
+    // A wildcard holds each preview URL once, so a write the client sends again
+    // (an offline queue replaying after a reload) can't add it twice. The oldest
+    // copy of a duplicate is kept.
+    version: 11,
+    name: 'unique_wildcard_previews',
+    up: (db) => db.exec(`
+      DELETE FROM wildcard_previews WHERE rowid NOT IN (
+        SELECT rowid FROM (
+          SELECT rowid, ROW_NUMBER() OVER (PARTITION BY wildcard_id, url ORDER BY created_at, rowid) AS n
+          FROM wildcard_previews
+        ) WHERE n = 1
+      );
+      CREATE UNIQUE INDEX IF NOT EXISTS idx_wp_wildcard_url ON wildcard_previews(wildcard_id, url);
+    `),
+  },
+];
+
+function ensureVersionTable(db: Database.Database) {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS schema_version (
+      version    INTEGER PRIMARY KEY,
+      name       TEXT NOT NULL,
+      applied_at INTEGER NOT NULL
+    );
+  `);
+}
+
+/** Highest migration applied; 0 for a new database or one from before the runner. */
+export function schemaVersion(db: Database.Database): number {
+  if (!tableExists(db, 'schema_version')) return 0;
+  return (db.prepare('SELECT MAX(version) AS v FROM schema_version').get() as { v: number | null }).v ?? 0;
+}
+
+export function pendingMigrations(db: Database.Database, migrations = MIGRATIONS): Migration[] {
+  const current = schemaVersion(db);
+  return migrations.filter((m) => m.version > current);
+}
+
+class DryRunRollback extends Error {}
+
+type ForeignKeyViolation = { table: string; rowid: number; parent: string };
+const violationKey = (v: ForeignKeyViolation) => `${v.table}:${v.rowid}:${v.parent}`;
+
+/** Rows pointing at rows that don't exist. */
+const foreignKeyViolations = (db: Database.Database) =>
+  db.pragma('foreign_key_check') as ForeignKeyViolation[];
+
+/** Fails the running migration if it left rows pointing at rows that don't exist, beyond those in `known`. */
+function checkForeignKeys(db: Database.Database, known: Set<string>) {
+  const violations = foreignKeyViolations(db).filter((v) => !known.has(violationKey(v)));
+  if (violations.length === 0) return;
+  const [first] = violations;
+  throw new Error(
+    `FOREIGN KEY check failed: ${violations.length} row(s) of ${first.table} reference missing ${first.parent} rows`,
+  );
+}
+
+/**
+ * Applies the pending migrations in order and returns them. With `dryRun`, they run
+ * the same way but everything is rolled back at the end, so a failure shows up
+ * without touching the database.
+ */
+export function runMigrations(
+  db: Database.Database,
+  { dryRun = false, migrations = MIGRATIONS }: { dryRun?: boolean; migrations?: Migration[] } = {},
+): Migration[] {
+  const pending = pendingMigrations(db, migrations);
+  const applyAll = () => {
+    const known = new Set(foreignKeyViolations(db).map(violationKey));
+    ensureVersionTable(db);
+    const record = db.prepare('INSERT INTO schema_version (version, name, applied_at) VALUES (?, ?, ?)');
+    for (const migration of pending) {
+      try {
+        db.transaction(() => {
+          migration.up(db);
+          checkForeignKeys(db, known);
+          record.run(migration.version, migration.name, Date.now());
+        })();
+      } catch (err) {
+        throw new Error(`Migration ${migration.version} (${migration.name}) failed: ${(err as Error).message}`);
+      }
+    }
+  };
+  // A PRAGMA inside a transaction has no effect, so this has to happen out here.
+  const foreignKeys = db.pragma('foreign_keys', { simple: true });
+  db.pragma('foreign_keys = OFF');
+  try {
+    if (!dryRun) {
+      applyAll();
+      return pending;
+    }
+    try {
+      db.transaction(() => {
+        applyAll();
+        throw new DryRunRollback();
+      })();
+    } catch (err) {
+      if (!(err instanceof DryRunRollback)) throw err;
+    }
+    return pending;
+  } finally {
+    db.pragma(`foreign_keys = ${foreignKeys ? 'ON' : 'OFF'}`);
+  }
+}
@@ -0,0 +1,108 @@
+/**
+ * OpenAI-compatible provider: streams `POST <baseUrl>/chat/completions`.
+ * Works with OpenAI itself and local servers that speak the same API —
+ * Ollama (http://localhost:11434/v1), LM Studio (http://localhost:1234/v1),
+ * llama.cpp server (http://localhost:8080/v1).
+ *
+ * Calls are priced like any other model through the pricing table; local
+ * models simply have no rates (or zero rates) and cost nothing. Usage comes on
+ * the stream's last chunk, so a batch stopped early (or a server that doesn't
+ * report usage) is billed on an estimate from the prompt and the text received.
+ */
+
+import { LlmProvider, TokenUsage, batchPrompt, createLineCollector, estimateBatchUsage } from './llm';
+
+export interface OpenAiCompatibleConfig {
+  /** Up to and including the version segment, e.g. `http://localhost:11434/v1`. */
+  baseUrl: string;
+  model: string;
+  /** Optional — local servers usually accept any or no key. */
+  apiKey?: string;
+}
+
+/**
+ * User message content. Plain text unless there are reference images: many
+ * local servers reject the array form for text-only models.
+ */
+function userContent(text: string, images: string[] | undefined) {
+  if (!images?.length) return text;
+  return [
+    { type: 'text', text },
+    ...images.map((url) => ({ type: 'image_url', image_url: { url } })),
+  ];
+}
+
+/** Yields the JSON payload of each `data:` line of an SSE response body. */
+async function* readDataLines(body: ReadableStream<Uint8Array>): AsyncGenerator<any> {
+  const reader = body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = '';
+  for (;;) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    buffer += value;
+    let nl: number;
+    while ((nl = buffer.indexOf('\n')) !== -1) {
+      const line = buffer.slice(0, nl).trim();
+      buffer = buffer.slice(nl + 1);
+      if (!line.startsWith('data:')) continue;
+      const data = line.slice(5).trim();
+      if (data === '[DONE]') return;
+      yield JSON.parse(data);
+    }
+  }
+}
+
+export function createOpenAiCompatibleProvider({ baseUrl, model, apiKey }: OpenAiCompatibleConfig): LlmProvider {
+  const url = `${baseUrl.replace(/\/+$/, '')}/chat/completions`;
+  return {
+    id: 'openai',
+    model,
+    async streamBatch(opts, count, onLine, signal) {
+      const collector = createLineCollector(count, onLine);
+      let usage: TokenUsage | undefined;
+      let streamed = '';
+      try {
+        const res = await fetch(url, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            ...(apiKey && { Authorization: `Bearer ${apiKey}` }),
+          },
+          body: JSON.stringify({
+            model,
+            messages: [
+              ...(opts.systemInstruction ? [{ role: 'system', content: opts.systemInstruction }] : []),
+              { role: 'user', content: userContent(batchPrompt(opts, count), opts.referenceImages) },
+            ],
+            temperature: 0.8,
+            stream: true,
+            // Usage arrives on a final chunk; servers that don't support this ignore it.
+            stream_options: { include_usage: true },
+          }),
+          signal,
+        });
+        if (!res.ok || !res.body) {
+          const text = await res.text().catch(() => '');
+          throw new Error(`${res.status} ${res.statusText}${text ? `: ${text.slice(0, 300)}` : ''}`);
+        }
+        for await (const chunk of readDataLines(res.body)) {
+          if (chunk.error) throw new Error(chunk.error.message ?? String(chunk.error));
+          if (chunk.usage) {
+            // The API doesn't split out image tokens; they are part of prompt_tokens.
+            usage = { inputTokens: chunk.usage.prompt_tokens || 0, outputTokens: chunk.usage.completion_tokens || 0, imageTokens: 0 };
+          }
+          const content = chunk.choices?.[0]?.delta?.content ?? '';
+          streamed += content;
+          collector.push(content);
+          if (signal?.aborted) break;
+        }
+      } catch (err) {
+        if (!signal?.aborted) throw err;
+      }
+      usage ??= estimateBatchUsage(opts, count, streamed);
+      if (signal?.aborted) return { lines: collector.lines, usage, aborted: true };
+      collector.finish();
+      return { lines: collector.lines, usage };
+    },
+  };
+}
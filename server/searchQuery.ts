@@ -0,0 +1,106 @@
+/**
+ * Search query syntax → SQL over the wildcards_fts index.
+ *
+ *   shirt              any tag containing the word "shirt" (white_shirt, shirt_lift, …)
+ *   thigh*             prefix match on a word
+ *   "black_thighhighs" exact tag (also =black_thighhighs)
+ *   -sneakers          exclude; works with every form above
+ *   a OR b, a | b      either term; terms separated by spaces are ANDed
+ *   lint:any           wildcards the tag linter flags; lint:<code> for one kind of issue
+ *                      (duplicate, spaces, uncolored, conflict, missing_region)
+ *
+ * Words come from the FTS tokenizer, which splits tags on `_`, `-` and other
+ * punctuation. Exact tags use the index to narrow candidates, then `has_tag()`
+ * checks the comma-separated tag list so "black, thighhighs" doesn't match.
+ * Lint terms call `has_lint()`, which runs the linter on each row.
+ */
+
+export interface CompiledSearch {
+  /** SQL condition on the `wildcards` row (aliased `w`), or '' for "match everything". */
+  where: string;
+  params: string[];
+}
+
+type Term =
+  | { kind: 'word'; value: string; prefix: boolean; negated: boolean }
+  | { kind: 'tag'; value: string; negated: boolean }
+  | { kind: 'lint'; value: string; negated: boolean };
+
+/** Lowercase, trimmed, spaces → underscores — the form tags are compared in. */
+export function normalizeTag(tag: string): string {
+  return tag.trim().toLowerCase().replace(/\s+/g, '_');
+}
+
+/** True when the comma-separated wildcard text contains `tag` exactly. */
+export function hasTag(text: string, tag: string): boolean {
+  const wanted = normalizeTag(tag);
+  return text.split(',').some((t) => normalizeTag(t) === wanted);
+}
+
+/** Splits on whitespace, keeping "quoted strings" (with an optional leading - or =) together. */
+function tokenize(q: string): string[] {
+  return q.match(/[-=]?"[^"]*"?|[^\s"]+/g) ?? [];
+}
+
+function parseTerm(raw: string): Term | null {
+  let s = raw;
+  const negated = s.startsWith('-') && s.length > 1;
+  if (negated) s = s.slice(1);
+  const lint = /^lint:([\w-]+)$/i.exec(s);
+  if (lint) return { kind: 'lint', value: lint[1].toLowerCase(), negated };
+  if (s.startsWith('"')) {
+    const value = s.replace(/^"|"$/g, '').trim();
+    return value ? { kind: 'tag', value, negated } : null;
+  }
+  if (s.startsWith('=')) {
+    const value = s.slice(1).replace(/^"|"$/g, '').trim();
+    return value ? { kind: 'tag', value, negated } : null;
+  }
+  const prefix = s.endsWith('*');
+  const value = s.replace(/\*+$/, '');
+  // Skip terms with no letters or digits — FTS has nothing to match them against.
+  if (!/[\p{L}\p{N}]/u.test(value)) return null;
+  return { kind: 'word', value, prefix, negated };
+}
+
+/** Quotes a string for FTS5 so user input can never be read as query syntax. */
+const ftsString = (s: string) => `"${s.replace(/"/g, '""')}"`;
+
+const FTS_SUBQUERY = 'w.rowid IN (SELECT rowid FROM wildcards_fts WHERE wildcards_fts MATCH ?)';
+
+function termToSql(term: Term): CompiledSearch {
+  if (term.kind === 'lint') return { where: 'has_lint(w.text, ?)', params: [term.value] };
+  if (term.kind === 'word') {
+    return { where: FTS_SUBQUERY, params: [ftsString(term.value) + (term.prefix ? ' *' : '')] };
+  }
+  // Exact tag: the phrase of its words narrows via the index, has_tag() confirms.
+  const words = term.value.split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+  if (words.length === 0) return { where: 'has_tag(w.text, ?)', params: [term.value] };
+  return { where: `(${FTS_SUBQUERY} AND has_tag(w.text, ?))`, params: [ftsString(words.join(' ')), term.value] };
+}
+
+export function compileSearch(q: string): CompiledSearch {
+  // Group terms: OR / | join neighbours into one group; groups are ANDed.
+  const groups: Term[][] = [];
+  let joinNext = false;
+  for (const raw of tokenize(q.trim())) {
+    if (raw === 'OR' || raw === '|') { joinNext = groups.length > 0; continue; }
+    const term = parseTerm(raw);
+    if (!term) continue;
+    if (joinNext) groups[groups.length - 1].push(term);
+    else groups.push([term]);
+    joinNext = false;
+  }
+
+  const where: string[] = [];
+  const params: string[] = [];
+  for (const group of groups) {
+    const parts = group.map((term) => {
+      const sql = termToSql(term);
+      return { where: term.negated ? `NOT ${sql.where}` : sql.where, params: sql.params };
+    });
+    where.push(parts.length === 1 ? parts[0].where : `(${parts.map((p) => p.where).join(' OR ')})`);
+    parts.forEach((p) => params.push(...p.params));
+  }
+  return { where: where.join(' AND '), params };
+}
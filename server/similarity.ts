@@ -0,0 +1,108 @@
+/**
+ * Near-duplicate detection by tag-set Jaccard similarity: |A ∩ B| / |A ∪ B| over
+ * the normalized tags of two wildcards, so order, spacing, case and repeated tags
+ * don't matter. An inverted index (tag → wildcards) limits each comparison to
+ * wildcards sharing at least one tag, the only ones that can score above 0.
+ */
+
+import { normalizeTag } from './searchQuery';
+
+export function tagSet(text: string): Set<string> {
+  return new Set(text.split(',').map(normalizeTag).filter(Boolean));
+}
+
+export function jaccard(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 && b.size === 0) return 1;
+  let shared = 0;
+  for (const tag of a) if (b.has(tag)) shared++;
+  return shared / (a.size + b.size - shared);
+}
+
+export interface SimilarMatch {
+  id: string;
+  score: number;
+}
+
+export interface SimilarityIndex {
+  add(id: string, text: string): void;
+  /** The most similar indexed wildcard scoring at least `threshold`, or null. */
+  nearest(text: string, threshold: number, exclude?: Set<string>): SimilarMatch | null;
+  /** Every indexed wildcard scoring at least `threshold`, most similar first. */
+  similar(text: string, threshold: number, exclude?: Set<string>): SimilarMatch[];
+}
+
+export function createSimilarityIndex(entries: Iterable<{ id: string; text: string }> = []): SimilarityIndex {
+  const tagsById = new Map<string, Set<string>>();
+  const idsByTag = new Map<string, Set<string>>();
+
+  const add = (id: string, text: string) => {
+    const tags = tagSet(text);
+    tagsById.set(id, tags);
+    for (const tag of tags) {
+      if (!idsByTag.has(tag)) idsByTag.set(tag, new Set());
+      idsByTag.get(tag)!.add(id);
+    }
+  };
+
+  const similar = (text: string, threshold: number, exclude?: Set<string>) => {
+    const tags = tagSet(text);
+    const candidates = new Set<string>();
+    for (const tag of tags) idsByTag.get(tag)?.forEach((id) => candidates.add(id));
+    const matches: SimilarMatch[] = [];
+    for (const id of candidates) {
+      if (exclude?.has(id)) continue;
+      const score = jaccard(tags, tagsById.get(id)!);
+      if (score >= threshold) matches.push({ id, score });
+    }
+    return matches.sort((a, b) => b.score - a.score);
+  };
+
+  for (const { id, text } of entries) add(id, text);
+  return {
+    add,
+    similar,
+    nearest: (text, threshold, exclude) => similar(text, threshold, exclude)[0] ?? null,
+  };
+}
+
+/**
+ * Groups wildcards whose similarity chains together at `threshold` or above
+ * (if A ~ B and B ~ C, all three are one group). Each group's score is the
+ * lowest similarity among the pairs that joined it.
+ */
+export function findDuplicateGroups(
+  entries: { id: string; text: string }[],
+  threshold: number,
+): { ids: string[]; score: number }[] {
+  const index = createSimilarityIndex();
+  const parent = new Map<string, string>();
+  const root = (id: string): string => {
+    let r = id;
+    while (parent.get(r) !== r) r = parent.get(r)!;
+    parent.set(id, r);
+    return r;
+  };
+  const minScore = new Map<string, number>();
+
+  for (const { id, text } of entries) {
+    parent.set(id, id);
+    for (const match of index.similar(text, threshold)) {
+      const a = root(id);
+      const b = root(match.id);
+      const score = Math.min(match.score, minScore.get(a) ?? 1, minScore.get(b) ?? 1);
+      if (a !== b) parent.set(a, b);
+      minScore.set(b, score);
+    }
+    index.add(id, text);
+  }
+
+  const groups = new Map<string, string[]>();
+  for (const { id } of entries) {
+    const r = root(id);
+    if (!groups.has(r)) groups.set(r, []);
+    groups.get(r)!.push(id);
+  }
+  return [...groups.entries()]
+    .filter(([, ids]) => ids.length > 1)
+    .map(([r, ids]) => ({ ids, score: minScore.get(r) ?? 1 }));
+}
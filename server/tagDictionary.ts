@@ -0,0 +1,89 @@
+/**
+ * Danbooru tag dictionary CSV parsing and spelling suggestions.
+ *
+ *   tag,category,post_count[,"alias1,alias2"]
+ *
+ * This is the format of the a1111-sd-webui-tagcomplete `danbooru.csv`. A header
+ * row is skipped. Categories follow Danbooru: 0 general, 1 artist, 3 copyright,
+ * 4 character, 5 meta.
+ */
+
+export interface DictionaryTag {
+  name: string;
+  category: number;
+  postCount: number;
+  /** Other spellings that mean this tag. */
+  aliases: string[];
+}
+
+export interface ParsedDictionary {
+  tags: DictionaryTag[];
+  /** Rows without a tag name or with a non-numeric category or count. */
+  malformed: number;
+}
+
+/** Lowercase, trimmed, spaces → underscores — the form tags are stored in. */
+export function normalizeDictionaryTag(tag: string): string {
+  return tag.trim().toLowerCase().replace(/\s+/g, '_');
+}
+
+/** Splits one CSV line into fields, honouring "quoted, fields" and doubled quotes. */
+function splitCsvLine(line: string): string[] {
+  const fields: string[] = [];
+  let field = '';
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (quoted) {
+      if (ch === '"' && line[i + 1] === '"') { field += '"'; i++; }
+      else if (ch === '"') quoted = false;
+      else field += ch;
+    } else if (ch === '"') quoted = true;
+    else if (ch === ',') { fields.push(field); field = ''; }
+    else field += ch;
+  }
+  fields.push(field);
+  return fields;
+}
+
+export function parseTagCsv(content: string): ParsedDictionary {
+  const tags = new Map<string, DictionaryTag>();
+  let malformed = 0;
+  for (const [index, line] of content.split(/\r?\n/).entries()) {
+    if (!line.trim()) continue;
+    const [rawName, rawCategory, rawCount, rawAliases = ''] = splitCsvLine(line);
+    const name = normalizeDictionaryTag(rawName ?? '');
+    const category = Number(rawCategory);
+    const postCount = Number(rawCount);
+    if (!name || !Number.isInteger(category) || !Number.isFinite(postCount)) {
+      // A header row is expected, not malformed.
+      if (index > 0 || !/^(tag|name)$/i.test(rawName?.trim() ?? '')) malformed++;
+      continue;
+    }
+    const aliases = rawAliases.split(',').map(normalizeDictionaryTag).filter((a) => a && a !== name);
+    // The first row of a repeated tag wins; CSVs are sorted by popularity.
+    if (!tags.has(name)) tags.set(name, { name, category, postCount, aliases });
+  }
+  return { tags: [...tags.values()], malformed };
+}
+
+/** Edit distance between two strings, giving up (returning max + 1) once it exceeds `max`. */
+export function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const row = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      row[j] = Math.min(prev[j] + 1, row[j - 1] + 1, prev[j - 1] + cost);
+      rowMin = Math.min(rowMin, row[j]);
+    }
+    if (rowMin > max) return max + 1;
+    prev = row;
+  }
+  return prev[b.length];
+}
+
+/** Largest edit distance a suggestion may be from a tag of this length. */
+export const maxSuggestionDistance = (tag: string) => (tag.length <= 4 ? 1 : tag.length <= 10 ? 2 : 3);
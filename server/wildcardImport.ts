@@ -0,0 +1,99 @@
+/**
+ * Parsers for existing wildcard files.
+ *
+ *   .txt         one wildcard per line (ComfyUI / A1111 / Dynamic Prompts); `#` lines are comments
+ *   .yaml / .yml Dynamic Prompts nested wildcards — every list of strings becomes one
+ *                collection named after its key path, e.g. `clothing/tops`
+ */
+
+import path from 'path';
+import YAML from 'yaml';
+
+export const IMPORT_EXTS = new Set(['.txt', '.yaml', '.yml']);
+
+export interface ParsedEntry {
+  /** Collection name the wildcard belongs to (file name or YAML key path). */
+  collection: string;
+  text: string;
+}
+
+export interface ParsedFile {
+  entries: ParsedEntry[];
+  /** Lines or YAML values that couldn't be turned into a wildcard. */
+  malformed: number;
+  /** Set when the whole file was rejected (unsupported type, YAML syntax error). */
+  error?: string;
+}
+
+const BRACKETS: Record<string, string> = { ')': '(', ']': '[', '}': '{' };
+
+/** A wildcard line is malformed when its (), [] or {} don't balance. */
+function isBalanced(text: string): boolean {
+  const stack: string[] = [];
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (ch === '\\') { i++; continue; } // escaped bracket, e.g. \(artist\)
+    if (ch === '(' || ch === '[' || ch === '{') stack.push(ch);
+    else if (ch in BRACKETS && stack.pop() !== BRACKETS[ch]) return false;
+  }
+  return stack.length === 0;
+}
+
+/** Normalises one wildcard line; returns null for blank lines and comments. */
+function cleanLine(line: string): string | null {
+  const trimmed = line.trim();
+  if (!trimmed || trimmed.startsWith('#')) return null;
+  return trimmed;
+}
+
+function parseText(collection: string, content: string): ParsedFile {
+  const result: ParsedFile = { entries: [], malformed: 0 };
+  for (const line of content.split(/\r?\n/)) {
+    const text = cleanLine(line);
+    if (text === null) continue;
+    if (isBalanced(text)) result.entries.push({ collection, text });
+    else result.malformed++;
+  }
+  return result;
+}
+
+function parseYaml(content: string): ParsedFile {
+  let doc: unknown;
+  try {
+    doc = YAML.parse(content);
+  } catch (err) {
+    return { entries: [], malformed: 0, error: `Invalid YAML: ${(err as Error).message.split('\n')[0].replace(/:$/, '')}` };
+  }
+  const result: ParsedFile = { entries: [], malformed: 0 };
+  const walk = (node: unknown, keyPath: string[]) => {
+    if (Array.isArray(node)) {
+      const collection = keyPath.join('/');
+      for (const value of node) {
+        // Only scalar list items are wildcards; nested maps inside lists aren't part of the format.
+        if (typeof value !== 'string' && typeof value !== 'number') { result.malformed++; continue; }
+        const text = cleanLine(String(value));
+        if (text === null) continue;
+        if (collection && isBalanced(text)) result.entries.push({ collection, text });
+        else result.malformed++;
+      }
+    } else if (node && typeof node === 'object') {
+      for (const [key, child] of Object.entries(node)) walk(child, [...keyPath, key]);
+    } else if (node !== null && node !== undefined) {
+      result.malformed++;
+    }
+  };
+  walk(doc, []);
+  return result;
+}
+
+/** Parses one file by extension. `name` may contain folders (`outfits/armor.txt`). */
+export function parseWildcardFile(name: string, content: string): ParsedFile {
+  const ext = path.extname(name).toLowerCase();
+  if (!IMPORT_EXTS.has(ext)) return { entries: [], malformed: 0, error: 'Unsupported file type' };
+  if (ext === '.txt') {
+    // Folders become part of the name, matching how __folder/name__ is resolved.
+    const collection = name.slice(0, -ext.length).split(/[\\/]/).filter(Boolean).join('/');
+    return parseText(collection, content);
+  }
+  return parseYaml(content);
+}
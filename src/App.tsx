@@ -3,23 +3,43 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
-import React, { useState, useRef, useEffect, useCallback } from 'react';
-import { GoogleGenAI } from '@google/genai';
+import React, { useState, useRef, useEffect, useCallback, useMemo } from 'react';
 import { useTranslation } from 'react-i18next';
-import { Theme, WildcardItem } from './types';
-import { THEMES, DEFAULT_SYSTEM_INSTRUCTION } from './constants';
+import { Upload, History, Layers, Replace, Trash2 } from 'lucide-react';
+import {
+  BudgetPatch, BudgetStatus, Collection, DuplicateSettings, GenerationDetail, GenerationEstimate, GenerationProgress, LlmConfig, LlmConfigPatch, ModelPricing, RefineTarget, Theme, TrashReceipt, WildcardItem,
+} from './types';
+import {
+  THEMES, DEFAULT_SYSTEM_INSTRUCTION, DEFAULT_LLM_CONFIG, DEFAULT_DUPLICATE_SETTINGS, GENERATED_COLLECTION, SAVED_COLLECTION,
+} from './constants';
 import { dbApi } from './api/dbApi';
+import { onApiError, persist, reportApiError } from './api/http';
+import { onCaughtUp, onWriteRejected, startWriteQueue } from './api/writeQueue';
+import { GenerateRequest, ReplaceRequest } from './api/contract';
 import { useLocalStorage } from './hooks/useLocalStorage';
-import { useWildcardList } from './hooks/useWildcardList';
+import { WildcardListHandle } from './hooks/useWildcardList';
 import { useDebounce } from './hooks/useDebounce';
+import { useNotifications } from './hooks/useNotifications';
+import { resetTagLookups } from './hooks/useTagLookup';
 
 import { Header } from './components/Header';
 import { SettingsOverlay } from './components/SettingsOverlay';
 import { ResetDbModal } from './components/modals/ResetDbModal';
 import { GuideModal } from './components/modals/GuideModal';
+import { ImportModal } from './components/modals/ImportModal';
+import { GenerationsModal } from './components/modals/GenerationsModal';
+import { BudgetModal } from './components/modals/BudgetModal';
+import { CostAnalyticsModal } from './components/modals/CostAnalyticsModal';
+import { DuplicatesModal } from './components/modals/DuplicatesModal';
+import { FindReplaceModal } from './components/modals/FindReplaceModal';
+import { TrashModal } from './components/modals/TrashModal';
 import { Sidebar } from './components/Sidebar';
 import { RefineBar } from './components/RefineBar';
 import { WildcardsColumns } from './components/WildcardsColumns';
+import { CollectionsMenu } from './components/CollectionsMenu';
+import { LintFilter } from './components/LintFilter';
+import { UndoOffer, UndoToast } from './components/UndoToast';
+import { NotificationToasts } from './components/NotificationToasts';
 
 export default function App() {
   const { t } = useTranslation();
@@ -38,56 +58,110 @@ export default function App() {
   const [allTimeCost, setAllTimeCost] = useState(0);
   const [sessionCost, setSessionCost] = useState(0);
   const [lastCallCost, setLastCallCost] = useState(0);
-  const generatedList = useWildcardList('generated', debouncedSearch);
-  const savedList = useWildcardList('saved', debouncedSearch);
+  const [collections, setCollections] = useState<Collection[]>([]);
   const [lastGenerationTime, setLastGenerationTime] = useState(0);
   const [isLoading, setIsLoading] = useState(false);
+  const [generationProgress, setGenerationProgress] = useState<GenerationProgress | null>(null);
   const [copiedId, setCopiedId] = useState<string | null>(null);
   const [showSettings, setShowSettings] = useState(false);
   const [showGuide, setShowGuide] = useState(false);
-  const [refiningWildcard, setRefiningWildcard] = useState<string | null>(null);
-  const [apiKey, setApiKey] = useState('');
-  const [apiKeyInput, setApiKeyInput] = useState('');
+  const [refiningWildcard, setRefiningWildcard] = useState<RefineTarget | null>(null);
+  const [llmConfig, setLlmConfig] = useState<LlmConfig>(DEFAULT_LLM_CONFIG);
+  const [pricing, setPricing] = useState<ModelPricing[]>([]);
+  const [budget, setBudget] = useState<BudgetStatus | null>(null);
+  // A run held back by the budget check, waiting for the user's decision.
+  const [budgetCheck, setBudgetCheck] = useState<{ check: GenerationEstimate; request: Omit<GenerateRequest, 'sessionId'> } | null>(null);
   const [galleryPath, setGalleryPath] = useState('');
   const [galleryPathInput, setGalleryPathInput] = useState('');
+  const [wildcardsPath, setWildcardsPath] = useState('');
+  const [wildcardsPathInput, setWildcardsPathInput] = useState('');
   const [galleryFiles, setGalleryFiles] = useState<string[]>([]);
   const [galleryIndex, setGalleryIndex] = useState(0);
   const [galleryLoading, setGalleryLoading] = useState(true);
-  const [clearGeneratedConfirm, setClearGeneratedConfirm] = useState(false);
-  const [clearSavedConfirm, setClearSavedConfirm] = useState(false);
   const [showResetConfirm, setShowResetConfirm] = useState(false);
+  const [showImport, setShowImport] = useState(false);
+  const [showGenerations, setShowGenerations] = useState(false);
+  const [showAnalytics, setShowAnalytics] = useState(false);
+  const [duplicateSettings, setDuplicateSettings] = useState<DuplicateSettings>(DEFAULT_DUPLICATE_SETTINGS);
+  const [showDuplicates, setShowDuplicates] = useState(false);
+  const [showReplace, setShowReplace] = useState(false);
+  const [showTrash, setShowTrash] = useState(false);
+  // The last delete, undoable from the toast until it times out.
+  const [undoOffer, setUndoOffer] = useState<UndoOffer | null>(null);
+  // Near-duplicates the last generation dropped; shown under the Generate button.
+  const [duplicatesDropped, setDuplicatesDropped] = useState(0);
 
   const sessionIdRef = useRef<string | null>(null);
-  const sessionCostRef = useRef(0);
+  // Id of the running generation, set once the server starts streaming it.
+  const generationIdRef = useRef<string | null>(null);
   const initializedRef = useRef(false);
-  // Ref to latest saved items so saveToSavedList callback stays stable.
-  const savedItemsRef = useRef(savedList.items);
-  useEffect(() => { savedItemsRef.current = savedList.items; }, [savedList.items]);
+  // List handles of the visible collection columns, keyed by collection id.
+  // A ref keeps the wildcard action callbacks below stable.
+  const listsRef = useRef<Record<string, WildcardListHandle>>({});
+  const registerList = useCallback((listId: string, handle: WildcardListHandle | null) => {
+    if (handle) listsRef.current[listId] = handle;
+    else delete listsRef.current[listId];
+  }, []);
+
+  // ── Notifications ────────────────────────────────────────────────────────
+  const notifications = useNotifications();
+  const { notify } = notifications;
+  // Optimistic updates don't wait for the server; their failures surface here, with a retry for saves.
+  useEffect(
+    () => onApiError((err, retry) => notify({ kind: 'error', title: t('notifications.requestFailed'), message: err.message, retry })),
+    [notify, t],
+  );
+
+  // ── Offline write queue ──────────────────────────────────────────────────
+  // Wildcard writes wait in the queue while the server is unreachable. When the server
+  // refuses one, or the queue catches up after an outage or a reload with writes left
+  // over, the lists refetch so they show what the database really has.
+  useEffect(() => {
+    const reconcile = () => {
+      Object.values(listsRef.current).forEach((list) => list.reload());
+      refreshCollections();
+    };
+    const unsubscribe = [onWriteRejected(reconcile), onCaughtUp(reconcile)];
+    startWriteQueue();
+    return () => unsubscribe.forEach((fn) => fn());
+  }, []); // eslint-disable-line react-hooks/exhaustive-deps
 
   // ── Load data on mount ───────────────────────────────────────────────────
   useEffect(() => {
     if (initializedRef.current) return;
     initializedRef.current = true;
 
-    // Wildcard lists are loaded automatically by useWildcardList hooks.
+    // Wildcard lists are loaded automatically by each column's useWildcardList hook.
+    refreshCollections();
 
     const label = new Date().toLocaleString();
     dbApi.createSession(label)
       .then((id) => { sessionIdRef.current = id; })
-      .catch(() => {});
+      .catch(reportApiError);
 
     dbApi.fetchCosts()
       .then(({ total }) => setAllTimeCost(total))
-      .catch(() => {});
+      .catch(reportApiError);
 
     dbApi.fetchConfig()
-      .then(({ galleryDir, apiKey: key }) => {
+      .then(({ galleryDir, wildcardsDir, ...llm }) => {
         setGalleryPath(galleryDir);
         setGalleryPathInput(galleryDir);
-        setApiKey(key);
-        setApiKeyInput(key);
+        setWildcardsPath(wildcardsDir);
+        setWildcardsPathInput(wildcardsDir);
+        setLlmConfig(llm);
       })
-      .catch(() => {});
+      .catch(reportApiError);
+
+    dbApi.fetchPricing()
+      .then(setPricing)
+      .catch(reportApiError);
+
+    refreshBudget();
+
+    dbApi.fetchDuplicateSettings()
+      .then(setDuplicateSettings)
+      .catch(reportApiError);
   }, []);
 
   // ── Poll gallery ─────────────────────────────────────────────────────────
@@ -117,96 +191,172 @@ export default function App() {
   useEffect(() => {
     if (showSettings) {
       setGalleryPathInput(galleryPath);
-      setApiKeyInput(apiKey);
+      setWildcardsPathInput(wildcardsPath);
     }
   }, [showSettings]); // eslint-disable-line react-hooks/exhaustive-deps
 
   const galleryEnabled = galleryPath.trim() !== '';
+  const missingSetup =
+    llmConfig.provider === 'gemini'
+      ? (llmConfig.hasApiKey ? null : 'apiKey')
+      : (llmConfig.openaiBaseUrl.trim() && llmConfig.openaiModel.trim() ? null : 'model');
+  const selectedModel = llmConfig.provider === 'gemini' ? llmConfig.geminiModel : llmConfig.openaiModel;
+  const selectedPricing = pricing.find((p) => p.provider === llmConfig.provider && p.model === selectedModel);
+  const modelOptions = useMemo(() => {
+    const models = pricing.filter((p) => p.provider === llmConfig.provider).map((p) => p.model);
+    // A configured model without pricing is still selectable.
+    return selectedModel && !models.includes(selectedModel) ? [selectedModel, ...models] : models;
+  }, [pricing, llmConfig.provider, selectedModel]);
+  const visibleCollections = useMemo(() => collections.filter((c) => c.visible), [collections]);
+  const saveTargets = useMemo(() => collections.filter((c) => c.id !== GENERATED_COLLECTION), [collections]);
   const currentGalleryImageUrl =
     galleryFiles.length > 0 ? `/gallery-images/${galleryFiles[galleryIndex]}` : '';
 
   // ── Generation ───────────────────────────────────────────────────────────
-  const generateWildcards = async () => {
-    setIsLoading(true);
-    setLastCallCost(0);
-    const generationTime = Date.now();
-    setLastGenerationTime(generationTime);
-
-    try {
-      const keyToUse = apiKey.trim();
-      if (!keyToUse) {
-        alert('Please set a Gemini API Key in Settings.');
-        setShowSettings(true);
-        setIsLoading(false);
-        return;
-      }
-
-      const ai = new GoogleGenAI({ apiKey: keyToUse });
-      const model = 'gemini-3-flash-preview';
-      const batchSize = 10;
-      const batches: number[] = [];
-      for (let i = 0; i < numToGenerate; i += batchSize) {
-        batches.push(Math.min(batchSize, numToGenerate - i));
-      }
+  /**
+   * Generates from the sidebar inputs, or from `inputs` when re-running a past generation.
+   * The run is estimated first; one that would go over a budget opens the budget modal instead.
+   */
+  const generateWildcards = async (inputs?: Omit<GenerateRequest, 'sessionId'>) => {
+    if (missingSetup) {
+      notify({
+        kind: 'error',
+        title: t('notifications.setupNeeded'),
+        message: t(missingSetup === 'apiKey' ? 'notifications.needApiKey' : 'notifications.needModel'),
+      });
+      setShowSettings(true);
+      return;
+    }
 
-      let callCost = 0;
+    const request = inputs ?? {
+      prompt: userPrompt,
+      systemInstruction,
+      count: numToGenerate,
+      refining: refiningWildcard?.text ?? null,
+      refiningId: refiningWildcard?.id ?? null,
+      referenceImages,
+    };
 
-      for (const count of batches) {
-        const batchPrompt = refiningWildcard
-          ? `Refine this wildcard: "${refiningWildcard}". User request: ${userPrompt}. Provide exactly ${count} distinct variations. Output ONLY the wildcards, one per line.`
-          : `${userPrompt}. Provide exactly ${count} distinct variations. Output ONLY the wildcards, one per line.`;
+    setIsLoading(true);
+    let check: GenerationEstimate;
+    try {
+      check = await dbApi.estimateGeneration({ ...request, sessionId: sessionIdRef.current });
+    } catch (error) {
+      notify({ kind: 'error', title: t('notifications.generationFailed'), message: (error as Error).message });
+      setIsLoading(false);
+      return;
+    }
+    if (check.exceeded.length > 0) {
+      setBudgetCheck({ check, request });
+      setIsLoading(false);
+      return;
+    }
+    await startGeneration(request, check.estimate.cost);
+  };
 
-        const parts: { text?: string; inlineData?: { data: string; mimeType: string } }[] = [
-          { text: batchPrompt },
-        ];
-        referenceImages.forEach((img) => {
-          parts.push({ inlineData: { data: img.split(',')[1], mimeType: 'image/jpeg' } });
-        });
+  /** Streams a generation; `confirmOverBudget` lets a run the user approved past the budget check. */
+  const startGeneration = async (
+    request: Omit<GenerateRequest, 'sessionId'>,
+    estimatedCost: number,
+    confirmOverBudget = false,
+  ) => {
+    setIsLoading(true);
+    setLastCallCost(0);
+    setDuplicatesDropped(0);
+    let received = 0;
 
-        const response = await ai.models.generateContent({
-          model,
-          contents: { parts },
-          config: { systemInstruction, temperature: 0.8 },
+    try {
+      setGenerationProgress({ batch: 0, batches: 0, received: 0, requested: request.count, estimatedCost });
+      const result = await dbApi.generateStream(
+        { ...request, sessionId: sessionIdRef.current, confirmOverBudget },
+        {
+          onStart: (id) => { generationIdRef.current = id; },
+          onBatch: (batch, batches) => setGenerationProgress((p) => p && { ...p, batch, batches }),
+          // The server has already saved each item into the generated collection.
+          // They share one createdAt, which marks them as the latest generation.
+          onItem: (item) => {
+            setLastGenerationTime(item.createdAt);
+            listsRef.current[GENERATED_COLLECTION]?.prepend([item]);
+            received++;
+            setGenerationProgress((p) => p && { ...p, received: p.received + 1 });
+          },
+        },
+      );
+
+      setLastCallCost(result.cost);
+      setSessionCost(result.sessionCost);
+      setAllTimeCost(result.allTimeCost);
+      setDuplicatesDropped(result.duplicatesDropped ?? 0);
+
+      const cost = t('notifications.cost', { cost: result.cost.toFixed(6) });
+      if (result.error) {
+        // Batches before the failure are kept.
+        notify({
+          kind: 'error',
+          title: t('notifications.generationFailed'),
+          message: received > 0 ? `${result.error} — ${t('notifications.kept', { count: received })}` : result.error,
         });
-
-        const usage = response.usageMetadata;
-        if (usage) {
-          const inputCost = (usage.promptTokenCount || 0) * (0.5 / 1_000_000);
-          const outputCost = (usage.candidatesTokenCount || 0) * (3.0 / 1_000_000);
-          const batchCost = inputCost + outputCost;
-          callCost += batchCost;
-          sessionCostRef.current += batchCost;
-          setSessionCost(sessionCostRef.current);
-          setAllTimeCost((prev) => prev + batchCost);
-          if (sessionIdRef.current) dbApi.updateSession(sessionIdRef.current, sessionCostRef.current);
-          dbApi.addToTotal(batchCost);
-        }
-
-        const lines = (response.text || '')
-          .split('\n')
-          .filter((l) => l.trim().length > 0)
-          .slice(0, count);
-
-        const newItems: WildcardItem[] = lines.map((l) => ({
-          id: crypto.randomUUID(),
-          text: l,
-          createdAt: generationTime,
-        }));
-
-        generatedList.prepend(newItems);
-        dbApi.add(newItems.map((item) => ({ ...item, list: 'generated' })));
+      } else if (result.cancelled) {
+        notify({ kind: 'info', title: t('notifications.generationCancelled', { count: received }), message: cost });
+      } else {
+        setRefiningWildcard(null);
+        notify({ kind: 'success', title: t('notifications.generated', { count: received }), message: cost });
       }
-
-      setLastCallCost(callCost);
-      setRefiningWildcard(null);
     } catch (error) {
-      console.error('Generation failed:', error);
-      alert('Failed to generate wildcards.');
+      notify({ kind: 'error', title: t('notifications.generationFailed'), message: (error as Error).message });
     } finally {
       setIsLoading(false);
+      setGenerationProgress(null);
+      generationIdRef.current = null;
+      refreshBudget();
     }
   };
 
+  const confirmOverBudget = () => {
+    if (!budgetCheck) return;
+    const { check, request } = budgetCheck;
+    setBudgetCheck(null);
+    startGeneration(request, check.estimate.cost, true);
+  };
+
+  /** Skips the remaining batches; the stream then ends with the partial cost. */
+  const stopGeneration = () => {
+    if (generationIdRef.current) dbApi.cancelGeneration(generationIdRef.current);
+  };
+
+  // ── Generation history ───────────────────────────────────────────────────
+  /**
+   * Puts a past run's inputs back into the sidebar and selects its provider and model;
+   * resolves with false if the provider and model couldn't be selected.
+   */
+  const restoreGeneration = async ({ generation }: GenerationDetail): Promise<boolean> => {
+    setUserPrompt(generation.prompt);
+    setReferenceImages(generation.referenceImages);
+    setSystemInstruction(generation.systemInstruction);
+    setNumToGenerate(generation.requested);
+    setRefiningWildcard(generation.refining ? { id: generation.refiningId, text: generation.refining } : null);
+    const modelKey = generation.provider === 'gemini' ? 'geminiModel' : 'openaiModel';
+    if (generation.provider !== llmConfig.provider || generation.model !== llmConfig[modelKey]) {
+      return handleApplyLlmConfig({ provider: generation.provider, [modelKey]: generation.model });
+    }
+    return true;
+  };
+
+  const rerunGeneration = async (detail: GenerationDetail) => {
+    const { generation } = detail;
+    if (!(await restoreGeneration(detail))) return;
+    setShowGenerations(false);
+    // State updates from the restore aren't visible in this closure yet.
+    generateWildcards({
+      prompt: generation.prompt,
+      systemInstruction: generation.systemInstruction,
+      count: generation.requested,
+      refining: generation.refining,
+      refiningId: generation.refiningId,
+      referenceImages: generation.referenceImages,
+    });
+  };
+
   // ── Wildcard actions ─────────────────────────────────────────────────────
   const handleCopy = useCallback((text: string, id: string) => {
     navigator.clipboard.writeText(text);
@@ -214,71 +364,251 @@ export default function App() {
     setTimeout(() => setCopiedId(null), 2000);
   }, []);
 
-  const saveToSavedList = useCallback((item: WildcardItem) => {
-    if (savedItemsRef.current.find((s) => s.text === item.text)) return;
-    const newItem: WildcardItem = { ...item, id: crypto.randomUUID() };
-    savedList.prepend([newItem]);
-    dbApi.add([{ ...newItem, list: 'saved' }]);
-  }, [savedList.prepend]);
+  const saveToSavedList = useCallback(async (item: WildcardItem, targetId: string = SAVED_COLLECTION) => {
+    const target = listsRef.current[targetId];
+    if (target?.items.find((s) => s.text === item.text)) return;
+    // Near-duplicates are looked for in the whole target collection, loaded or not.
+    // A failed check is reported and the copy is saved unchecked.
+    const match = duplicateSettings.action === 'off'
+      ? null
+      : await dbApi.checkDuplicate(item.text, targetId).catch((err) => {
+        reportApiError(err);
+        return null;
+      });
+    if (match && duplicateSettings.action === 'drop') return;
+    // The copy keeps its source generation but hangs off the original in the lineage tree.
+    const newItem: WildcardItem = {
+      ...item,
+      id: crypto.randomUUID(),
+      parentId: undefined,
+      copiedFrom: item.id,
+      duplicateOf: match ? { id: match.item.id, score: match.score } : undefined,
+    };
+    target?.prepend([newItem]);
+    dbApi.add([{ ...newItem, list: targetId }]);
+  }, [duplicateSettings]);
 
-  const addPreviewForWildcard = useCallback((id: string, url: string, listType: 'generated' | 'saved') => {
-    const listHandle = listType === 'generated' ? generatedList : savedList;
-    const item = listHandle.items.find(i => i.id === id);
+  const addPreviewForWildcard = useCallback((id: string, url: string, listId: string) => {
+    const listHandle = listsRef.current[listId];
+    const item = listHandle?.items.find(i => i.id === id);
     if (!item) return;
     const existing = item.previewUrls ?? (item.previewUrl ? [item.previewUrl] : []);
     if (existing.includes(url)) return; // already linked
     const newUrls = [...existing, url];
     listHandle.update(id, { previewUrls: newUrls, previewUrl: item.previewUrl ?? url });
     dbApi.addPreview(id, url);
-  }, [generatedList, savedList]);
+  }, []);
 
-  const removePreviewForWildcard = useCallback((id: string, url: string, listType: 'generated' | 'saved') => {
-    const listHandle = listType === 'generated' ? generatedList : savedList;
-    const item = listHandle.items.find(i => i.id === id);
+  const removePreviewForWildcard = useCallback((id: string, url: string, listId: string) => {
+    const listHandle = listsRef.current[listId];
+    const item = listHandle?.items.find(i => i.id === id);
     if (!item) return;
     const existing = item.previewUrls ?? (item.previewUrl ? [item.previewUrl] : []);
     const newUrls = existing.filter(u => u !== url);
     listHandle.update(id, { previewUrls: newUrls, previewUrl: newUrls[0] ?? undefined });
     dbApi.removePreview(id, url);
-  }, [generatedList, savedList]);
+  }, []);
 
-  const setDefaultPreviewForWildcard = useCallback((id: string, url: string, listType: 'generated' | 'saved') => {
-    const listHandle = listType === 'generated' ? generatedList : savedList;
-    listHandle.update(id, { previewUrl: url });
+  const setDefaultPreviewForWildcard = useCallback((id: string, url: string, listId: string) => {
+    listsRef.current[listId]?.update(id, { previewUrl: url });
     dbApi.patch(id, { previewUrl: url });
-  }, [generatedList, savedList]);
-
-  const removeSaved = useCallback((id: string) => {
-    savedList.remove(id);
-    dbApi.remove(id);
-  }, [savedList.remove]);
-
-  const removeGenerated = useCallback((id: string) => {
-    generatedList.remove(id);
-    dbApi.remove(id);
-  }, [generatedList.remove]);
-
-  const clearSaved = useCallback(() => {
-    savedList.clear();
-    dbApi.clearList('saved');
-    setClearSavedConfirm(false);
-  }, [savedList.clear]);
-
-  const clearGenerated = useCallback(() => {
-    generatedList.clear();
-    dbApi.clearList('generated');
-    setClearGeneratedConfirm(false);
-  }, [generatedList.clear]);
+  }, []);
+
+  const editWildcard = useCallback((id: string, text: string, listId: string) => {
+    listsRef.current[listId]?.update(id, { text });
+    return dbApi.patch(id, { text });
+  }, []);
+
+  const loadHistory = useCallback((id: string) => dbApi.fetchHistory(id), []);
+  const loadLineage = useCallback((id: string) => dbApi.fetchLineage(id), []);
+  const refineWildcard = useCallback((item: WildcardItem) => setRefiningWildcard({ id: item.id, text: item.text }), []);
+
+  // ── Trash ────────────────────────────────────────────────────────────────
+  /** Deletes go to the trash; the toast offers to bring the whole delete back (none if the server refused it). */
+  const offerUndo = useCallback((receipt: TrashReceipt | undefined) => {
+    if (receipt && receipt.trashed > 0) setUndoOffer({ batchId: receipt.batchId, message: t('trash.moved', { count: receipt.trashed }) });
+  }, [t]);
+
+  /** Restored wildcards return to their old place in the list, so the lists refetch. */
+  const handleRestored = useCallback((lists: string[]) => {
+    lists.forEach((id) => listsRef.current[id]?.reload());
+    // A restore can recreate a deleted collection.
+    refreshCollections();
+  }, []); // eslint-disable-line react-hooks/exhaustive-deps
+
+  const handleUndo = async (batchId: string) => {
+    setUndoOffer(null);
+    try {
+      const { restored, lists, conflicts } = await dbApi.restoreTrash({ batchId });
+      handleRestored(lists);
+      if (restored > 0) notify({ kind: 'success', title: t('notifications.restored', { count: restored }) });
+      if (conflicts.length > 0) notify({ kind: 'error', title: t('notifications.restoreConflicts', { count: conflicts.length }) });
+    } catch (err) {
+      reportApiError(err, () => handleUndo(batchId));
+    }
+  };
+
+  const removeWildcard = useCallback((id: string, listId: string) => {
+    listsRef.current[listId]?.remove(id);
+    dbApi.remove(id).then(offerUndo);
+  }, [offerUndo]);
+
+  const clearList = useCallback((listId: string) => {
+    listsRef.current[listId]?.clear();
+    dbApi.clearList(listId).then(offerUndo);
+  }, [offerUndo]);
+
+  // ── Bulk actions on selected wildcards ───────────────────────────────────
+  const copyWildcards = useCallback(async (ids: string[], targetId: string) => {
+    const { items } = await dbApi.copyMany(ids, targetId);
+    listsRef.current[targetId]?.prepend(items);
+    notify({ kind: 'success', title: t('notifications.copied', { count: items.length }) });
+  }, [notify, t]);
+
+  const moveWildcards = useCallback((ids: string[], fromListId: string, targetId: string) => {
+    ids.forEach((id) => listsRef.current[fromListId]?.remove(id));
+    // Moved rows keep their place in the newest-first order, so the target refetches.
+    dbApi.moveMany(ids, targetId).then(() => listsRef.current[targetId]?.reload());
+  }, []);
+
+  const editTagsOfWildcards = useCallback(async (ids: string[], tags: { add: string[]; remove: string[] }, listId: string) => {
+    const { items } = await dbApi.editTagsMany(ids, tags);
+    items.forEach(({ id, text }) => listsRef.current[listId]?.update(id, { text }));
+  }, []);
+
+  const removeWildcards = useCallback((ids: string[], listId: string) => {
+    ids.forEach((id) => listsRef.current[listId]?.remove(id));
+    dbApi.removeMany(ids).then(offerUndo);
+  }, [offerUndo]);
+
+  // ── Export ───────────────────────────────────────────────────────────────
+  /** Downloads one collection as `<name>.txt`, or every collection as a zip. */
+  const handleExportDownload = useCallback((listId?: string) => {
+    const a = document.createElement('a');
+    a.href = dbApi.exportUrl(listId);
+    a.download = '';
+    a.click();
+  }, []);
+
+  const handleExportToFolder = useCallback((listId?: string) => dbApi.exportToDir(listId), []);
+
+  // ── Find and replace ─────────────────────────────────────────────────────
+  const handleReplace = async (request: ReplaceRequest) => {
+    const result = await dbApi.replaceInWildcards(request);
+    // Changed wildcards may sit on any page of a list, so the lists they're in start over.
+    if (!result.dryRun) result.lists.forEach((id) => listsRef.current[id]?.reload());
+    return result;
+  };
+
+  // ── Import ───────────────────────────────────────────────────────────────
+  const handleImport = async (payload: Parameters<typeof dbApi.importFiles>[0]) => {
+    const report = await dbApi.importFiles(payload);
+    // Imported rows may land in any collection (including new ones), so refresh everything.
+    refreshCollections();
+    Object.values(listsRef.current).forEach((list) => list.reload());
+    return report;
+  };
+
+  // ── Collections ──────────────────────────────────────────────────────────
+  const refreshCollections = useCallback(() => {
+    dbApi.fetchCollections()
+      .then(setCollections)
+      .catch(reportApiError);
+  }, []);
+
+  const handleCreateCollection = async (name: string) => {
+    const created = await dbApi.createCollection(name);
+    setCollections((prev) => [...prev, created]);
+  };
+
+  const handleRenameCollection = async (id: string, name: string) => {
+    const updated = await dbApi.updateCollection(id, { name });
+    setCollections((prev) => prev.map((c) => (c.id === id ? updated : c)));
+  };
+
+  const handleToggleCollection = (id: string) => {
+    const current = collections.find((c) => c.id === id);
+    if (!current) return;
+    setCollections((prev) => prev.map((c) => (c.id === id ? { ...c, visible: !c.visible } : c)));
+    persist(() => dbApi.updateCollection(id, { visible: !current.visible }));
+  };
+
+  const handleDeleteCollection = (id: string) => {
+    setCollections((prev) => prev.filter((c) => c.id !== id));
+    persist(() => dbApi.removeCollection(id).then(offerUndo));
+  };
 
   // ── Settings handlers ────────────────────────────────────────────────────
-  const handleApplyApiKey = async (trimmed: string) => {
-    setApiKey(trimmed);
-    await dbApi.updateConfig({ apiKey: trimmed });
+  /** Resolves with false if the server didn't take the change (reported with a retry), so Settings keeps its inputs. */
+  const handleApplyLlmConfig = async (patch: LlmConfigPatch): Promise<boolean> => {
+    try {
+      await dbApi.updateConfig(patch);
+    } catch (err) {
+      reportApiError(err, () => handleApplyLlmConfig(patch));
+      return false;
+    }
+    // Re-read so the "key is set" flags come from the server.
+    setLlmConfig(await dbApi.fetchConfig());
+    return true;
+  };
+
+  const handleSelectModel = (model: string) =>
+    handleApplyLlmConfig(llmConfig.provider === 'gemini' ? { geminiModel: model } : { openaiModel: model });
+
+  const handleSavePricing = async (entry: Omit<ModelPricing, 'id'>) => {
+    try {
+      const saved = await dbApi.savePricing(entry);
+      setPricing((prev) =>
+        prev.some((p) => p.id === saved.id)
+          ? prev.map((p) => (p.id === saved.id ? saved : p))
+          : [...prev, saved],
+      );
+    } catch (err) {
+      notify({ kind: 'error', title: t('notifications.pricingFailed'), message: (err as Error).message });
+    }
+  };
+
+  const handleRemovePricing = (id: string) => {
+    setPricing((prev) => prev.filter((p) => p.id !== id));
+    dbApi.removePricing(id);
+  };
+
+  const refreshBudget = useCallback(() => {
+    dbApi.fetchBudget()
+      .then(setBudget)
+      .catch(reportApiError);
+  }, []);
+
+  const handleUpdateDuplicateSettings = async (patch: Partial<DuplicateSettings>) => {
+    setDuplicateSettings(await dbApi.updateDuplicateSettings(patch));
+  };
+
+  /** Drops merged-away wildcards from the open lists and refreshes the one that was kept. */
+  const handleDuplicatesMerged = useCallback((kept: WildcardItem & { list: string }, removed: (WildcardItem & { list: string })[]) => {
+    for (const item of removed) listsRef.current[item.list]?.remove(item.id);
+    listsRef.current[kept.list]?.update(kept.id, {
+      previewUrl: kept.previewUrl,
+      previewUrls: kept.previewUrls,
+      duplicateOf: undefined,
+    });
+    refreshCollections();
+  }, [refreshCollections]);
+
+  /** Like handleApplyLlmConfig: false if the server didn't take the change. */
+  const handleUpdateBudget = async (patch: BudgetPatch): Promise<boolean> => {
+    try {
+      await dbApi.updateBudget(patch);
+    } catch (err) {
+      reportApiError(err, () => handleUpdateBudget(patch));
+      return false;
+    }
+    refreshBudget();
+    return true;
   };
 
   const handleApplyGallery = async (trimmed: string) => {
     setGalleryPath(trimmed);
-    await dbApi.updateConfig({ galleryDir: trimmed });
+    await persist(() => dbApi.updateConfig({ galleryDir: trimmed }));
     if (trimmed) {
       setGalleryLoading(true);
       try {
@@ -296,6 +626,11 @@ export default function App() {
     }
   };
 
+  const handleApplyWildcardsDir = async (trimmed: string) => {
+    setWildcardsPath(trimmed);
+    await persist(() => dbApi.updateConfig({ wildcardsDir: trimmed }));
+  };
+
   const handleGalleryRefresh = async () => {
     setGalleryLoading(true);
     try {
@@ -311,21 +646,28 @@ export default function App() {
   };
 
   const handleResetDb = async () => {
-    await dbApi.resetDb();
-    generatedList.clear();
-    savedList.clear();
+    const receipt = await dbApi.resetDb();
+    Object.values(listsRef.current).forEach((list) => list.clear());
+    refreshCollections();
     setAllTimeCost(0);
     setSessionCost(0);
     setLastCallCost(0);
-    setApiKey('');
-    setApiKeyInput('');
+    setLlmConfig(DEFAULT_LLM_CONFIG);
+    // The reset reseeds the default Gemini rates.
+    dbApi.fetchPricing().then(setPricing).catch(reportApiError);
+    refreshBudget();
+    resetTagLookups();
+    setDuplicateSettings(DEFAULT_DUPLICATE_SETTINGS);
+    setDuplicatesDropped(0);
     setGalleryPath('');
     setGalleryPathInput('');
+    setWildcardsPath('');
+    setWildcardsPathInput('');
     setGalleryFiles([]);
     sessionIdRef.current = null;
-    sessionCostRef.current = 0;
     setShowResetConfirm(false);
     setShowSettings(false);
+    offerUndo(receipt);
   };
 
   // ── Render ───────────────────────────────────────────────────────────────
@@ -338,24 +680,76 @@ export default function App() {
         theme={theme}
         themeId={themeId}
         setThemeId={setThemeId}
-        apiKey={apiKey}
+        missingSetup={missingSetup}
         galleryEnabled={galleryEnabled}
         showSettings={showSettings}
         onToggleSettings={() => setShowSettings((v) => !v)}
         onShowGuide={() => setShowGuide(true)}
+        notifications={notifications}
       />
 
       {/* Modals */}
       <ResetDbModal
         theme={theme}
         show={showResetConfirm}
-        generatedCount={generatedList.total}
-        savedCount={savedList.total}
+        collections={collections}
         allTimeCost={allTimeCost}
         onClose={() => setShowResetConfirm(false)}
         onReset={handleResetDb}
       />
       <GuideModal theme={theme} show={showGuide} onClose={() => setShowGuide(false)} />
+      <ImportModal
+        theme={theme}
+        show={showImport}
+        collections={collections}
+        onClose={() => setShowImport(false)}
+        onImport={handleImport}
+      />
+
+      <GenerationsModal
+        theme={theme}
+        show={showGenerations}
+        isLoading={isLoading}
+        onClose={() => setShowGenerations(false)}
+        onRestore={(detail) => { restoreGeneration(detail); setShowGenerations(false); }}
+        onRerun={rerunGeneration}
+      />
+      <CostAnalyticsModal theme={theme} show={showAnalytics} onClose={() => setShowAnalytics(false)} />
+      <TrashModal
+        theme={theme}
+        show={showTrash}
+        onClose={() => setShowTrash(false)}
+        onRestored={handleRestored}
+      />
+      <UndoToast theme={theme} offer={undoOffer} onUndo={handleUndo} onDismiss={() => setUndoOffer(null)} />
+      <NotificationToasts
+        theme={theme}
+        toasts={notifications.toasts}
+        onRetry={notifications.retry}
+        onDismiss={notifications.dismiss}
+      />
+      <FindReplaceModal
+        theme={theme}
+        show={showReplace}
+        collections={collections}
+        searchQuery={debouncedSearch}
+        onClose={() => setShowReplace(false)}
+        onReplace={handleReplace}
+      />
+      <DuplicatesModal
+        theme={theme}
+        show={showDuplicates}
+        collections={collections}
+        defaultThreshold={duplicateSettings.threshold}
+        onClose={() => setShowDuplicates(false)}
+        onMerged={handleDuplicatesMerged}
+      />
+      <BudgetModal
+        theme={theme}
+        check={budgetCheck?.check ?? null}
+        onClose={() => setBudgetCheck(null)}
+        onConfirm={confirmOverBudget}
+      />
 
       {/* Settings overlay (absolute, sits below header) */}
       <SettingsOverlay
@@ -363,14 +757,27 @@ export default function App() {
         show={showSettings}
         systemInstruction={systemInstruction}
         setSystemInstruction={setSystemInstruction}
-        apiKeyInput={apiKeyInput}
-        setApiKeyInput={setApiKeyInput}
+        llmConfig={llmConfig}
+        pricing={pricing}
+        budget={budget}
         galleryPathInput={galleryPathInput}
         setGalleryPathInput={setGalleryPathInput}
-        onApplyApiKey={handleApplyApiKey}
+        wildcardsPathInput={wildcardsPathInput}
+        setWildcardsPathInput={setWildcardsPathInput}
+        onApplyLlmConfig={handleApplyLlmConfig}
+        onSavePricing={handleSavePricing}
+        onRemovePricing={handleRemovePricing}
+        onUpdateBudget={handleUpdateBudget}
+        duplicateSettings={duplicateSettings}
+        onUpdateDuplicateSettings={handleUpdateDuplicateSettings}
         onApplyGallery={handleApplyGallery}
+        onApplyWildcardsDir={handleApplyWildcardsDir}
+        onDatabaseRestored={() => {
+          // A restore replaces every list, setting and cost, so start over from the restored data.
+          window.location.reload();
+        }}
         onClose={() => setShowSettings(false)}
-        onShowResetConfirm={() => setShowResetConfirm(true)}
+        onShowResetConfirm={() => { refreshCollections(); setShowResetConfirm(true); }}
       />
 
       <main className="flex-1 flex overflow-hidden">
@@ -383,8 +790,15 @@ export default function App() {
           setReferenceImages={setReferenceImages as (updater: (prev: string[]) => string[]) => void}
           numToGenerate={numToGenerate}
           setNumToGenerate={setNumToGenerate}
+          modelOptions={modelOptions}
+          selectedModel={selectedModel}
+          selectedPricing={selectedPricing}
+          onSelectModel={handleSelectModel}
           isLoading={isLoading}
-          onGenerate={generateWildcards}
+          generationProgress={generationProgress}
+          duplicatesDropped={duplicatesDropped}
+          onGenerate={() => generateWildcards()}
+          onStop={stopGeneration}
           onSurprise={() => {
             setUserPrompt('');
             setReferenceImages(() => []);
@@ -401,6 +815,8 @@ export default function App() {
           lastCallCost={lastCallCost}
           sessionCost={sessionCost}
           allTimeCost={allTimeCost}
+          budget={budget}
+          onOpenAnalytics={() => setShowAnalytics(true)}
         />
 
         {/* Main Content */}
@@ -428,41 +844,97 @@ export default function App() {
               value={searchQuery}
               onChange={(e) => setSearchQuery(e.target.value)}
               placeholder={t('search.placeholder')}
+              title={t('search.syntax')}
               className="flex-1 bg-transparent border-none text-sm focus:ring-0 placeholder:opacity-20"
             />
+            <LintFilter theme={theme} searchQuery={searchQuery} setSearchQuery={setSearchQuery} />
+            <button
+              onClick={() => setShowImport(true)}
+              className="flex items-center gap-1.5 px-2 py-1 rounded-md transition-colors text-[10px] font-bold uppercase tracking-wider shrink-0"
+              style={{ color: theme.muted }}
+            >
+              <Upload className="w-3.5 h-3.5" /> {t('importModal.open')}
+            </button>
+            <button
+              onClick={() => setShowGenerations(true)}
+              className="flex items-center gap-1.5 px-2 py-1 rounded-md transition-colors text-[10px] font-bold uppercase tracking-wider shrink-0"
+              style={{ color: theme.muted }}
+            >
+              <History className="w-3.5 h-3.5" /> {t('generations.open')}
+            </button>
+            <button
+              onClick={() => setShowReplace(true)}
+              className="flex items-center gap-1.5 px-2 py-1 rounded-md transition-colors text-[10px] font-bold uppercase tracking-wider shrink-0"
+              style={{ color: theme.muted }}
+            >
+              <Replace className="w-3.5 h-3.5" /> {t('replace.open')}
+            </button>
+            <button
+              onClick={() => setShowTrash(true)}
+              className="flex items-center gap-1.5 px-2 py-1 rounded-md transition-colors text-[10px] font-bold uppercase tracking-wider shrink-0"
+              style={{ color: theme.muted }}
+            >
+              <Trash2 className="w-3.5 h-3.5" /> {t('trash.open')}
+            </button>
+            <button
+              onClick={() => setShowDuplicates(true)}
+              className="flex items-center gap-1.5 px-2 py-1 rounded-md transition-colors text-[10px] font-bold uppercase tracking-wider shrink-0"
+              style={{ color: theme.muted }}
+            >
+              <Layers className="w-3.5 h-3.5" /> {t('duplicates.open')}
+            </button>
+            <CollectionsMenu
+              theme={theme}
+              collections={collections}
+              onOpen={refreshCollections}
+              onCreate={handleCreateCollection}
+              onRename={handleRenameCollection}
+              onToggleVisible={handleToggleCollection}
+              onDelete={handleDeleteCollection}
+              exportFolderEnabled={wildcardsPath !== ''}
+              onExportAllDownload={handleExportDownload}
+              onExportAllToFolder={handleExportToFolder}
+            />
           </div>
 
-          {/* Generated + Saved columns */}
+          {/* One column per visible collection */}
           <WildcardsColumns
             theme={theme}
-            generatedList={generatedList}
-            clearGeneratedConfirm={clearGeneratedConfirm}
-            setClearGeneratedConfirm={setClearGeneratedConfirm}
-            onClearGenerated={clearGenerated}
-            onSave={saveToSavedList}
-            onRemoveGenerated={removeGenerated}
-            savedList={savedList}
-            clearSavedConfirm={clearSavedConfirm}
-            setClearSavedConfirm={setClearSavedConfirm}
-            onClearSaved={clearSaved}
-            onRemoveSaved={removeSaved}
+            collections={visibleCollections}
+            saveTargets={saveTargets}
+            searchQuery={debouncedSearch}
+            registerList={registerList}
             copiedId={copiedId}
             lastGenerationTime={lastGenerationTime}
             galleryEnabled={galleryEnabled}
             galleryEmpty={galleryFiles.length === 0}
             currentGalleryImageUrl={currentGalleryImageUrl}
             onCopy={handleCopy}
-            onRefine={setRefiningWildcard}
+            onSave={saveToSavedList}
+            onRefine={refineWildcard}
             onAddPreview={addPreviewForWildcard}
             onRemovePreview={removePreviewForWildcard}
             onSetDefaultPreview={setDefaultPreviewForWildcard}
+            onEdit={editWildcard}
+            onLoadHistory={loadHistory}
+            onLoadLineage={loadLineage}
+            onRemove={removeWildcard}
+            onClear={clearList}
+            allCollections={collections}
+            onCopyMany={copyWildcards}
+            onMoveMany={moveWildcards}
+            onEditTagsMany={editTagsOfWildcards}
+            onRemoveMany={removeWildcards}
+            exportFolderEnabled={wildcardsPath !== ''}
+            onExportDownload={handleExportDownload}
+            onExportToFolder={handleExportToFolder}
           />
         </div>
       </main>
 
       <RefineBar
         theme={theme}
-        refiningWildcard={refiningWildcard}
+        refiningWildcard={refiningWildcard?.text ?? null}
         onClear={() => setRefiningWildcard(null)}
       />
       <style>{`
@@ -0,0 +1,339 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * The API contract shared by server.ts and dbApi: a schema for every request
+ * body and query string (the server validates each request against it, the
+ * client sends the inferred types), the response shapes, and the error body
+ * every failed request answers with. Like validation.ts it must stay free of
+ * browser and Node APIs.
+ */
+
+import {
+  BackupInfo, DuplicateGroup, ProviderId, ReplaceMode, TagInfo, TrashItem, WildcardItem,
+} from '../types';
+import { Infer, ValidationIssue, v } from './validation';
+
+// ── Limits ────────────────────────────────────────────────────────────────────
+export const MAX_PAGE_SIZE = 200;
+/** Ids per batch action on selected wildcards. */
+export const MAX_BATCH = 1000;
+export const MAX_GENERATE = 100;
+export const MAX_LOOKUP_TAGS = 500;
+export const MAX_RETENTION_DAYS = 3650;
+export const MAX_BACKUP_INTERVAL_HOURS = 24 * 30;
+export const MAX_BACKUP_KEEP = 100;
+const MAX_NAME_LENGTH = 200;
+
+const PROVIDERS = ['gemini', 'openai'] as const satisfies readonly ProviderId[];
+const REPLACE_MODES = ['tag', 'regex'] as const satisfies readonly ReplaceMode[];
+export const DUPLICATE_ACTIONS = ['off', 'flag', 'drop'] as const;
+const BUDGET_MODES = ['block', 'confirm'] as const;
+
+// ── Errors ────────────────────────────────────────────────────────────────────
+export type ApiErrorCode =
+  | 'invalid_request'
+  | 'over_budget'
+  | 'forbidden'
+  | 'not_found'
+  | 'conflict'
+  | 'too_large'
+  | 'internal_error'
+  | 'upstream_error';
+
+/** Body of every error response. Budget refusals add the budget check to it. */
+export interface ApiErrorBody {
+  error: string;
+  code: ApiErrorCode;
+  /** The fields that failed validation (invalid_request only). */
+  issues?: ValidationIssue[];
+}
+
+/** Error code of an HTTP status; 402 is a budget refusal, 409 also covers the budget confirmation. */
+export function errorCodeForStatus(status: number): ApiErrorCode {
+  switch (status) {
+    case 400: return 'invalid_request';
+    case 402: return 'over_budget';
+    case 403: return 'forbidden';
+    case 404: return 'not_found';
+    case 409: return 'conflict';
+    case 413: return 'too_large';
+    case 502: return 'upstream_error';
+    default: return status < 500 ? 'invalid_request' : 'internal_error';
+  }
+}
+
+// ── Shared pieces ─────────────────────────────────────────────────────────────
+const id = () => v.string({ min: 1 });
+const name = () => v.string({ trim: true, min: 1, max: MAX_NAME_LENGTH });
+const batchIds = () => v.array(id(), { min: 1, max: MAX_BATCH });
+const threshold = (coerce = false) => v.number({ above: 0, max: 1, coerce });
+const pageQuery = {
+  limit: v.optional(v.number({ integer: true, min: 1, max: MAX_PAGE_SIZE, coerce: true })),
+  cursor: v.optional(v.number({ integer: true, coerce: true })),
+};
+
+// ── Config ────────────────────────────────────────────────────────────────────
+export const ConfigPatch = v.object({
+  galleryDir: v.optional(v.string()),
+  wildcardsDir: v.optional(v.string()),
+  apiKey: v.optional(v.string()),
+  provider: v.optional(v.oneOf(PROVIDERS)),
+  geminiModel: v.optional(v.string()),
+  openaiBaseUrl: v.optional(v.string()),
+  openaiModel: v.optional(v.string()),
+  openaiApiKey: v.optional(v.string()),
+});
+export type ConfigPatch = Infer<typeof ConfigPatch>;
+
+// ── Collections ───────────────────────────────────────────────────────────────
+export const CreateCollectionBody = v.object({ name: name() });
+export const UpdateCollectionBody = v.object({ name: v.optional(name()), visible: v.optional(v.boolean()) });
+export type UpdateCollectionBody = Infer<typeof UpdateCollectionBody>;
+
+// ── Wildcards ─────────────────────────────────────────────────────────────────
+export const ListWildcardsQuery = v.object({ list: id(), q: v.optional(v.string()), ...pageQuery });
+export const ListQuery = v.object({ list: id() });
+
+export interface FetchListResult {
+  items: WildcardItem[];
+  /** Matching rows for the search; only counted for the first page (null afterwards). */
+  total: number | null;
+  nextCursor: number | null;
+}
+
+const NewWildcard = v.object({
+  id: id(),
+  text: v.string({ nonBlank: true }),
+  list: id(),
+  createdAt: v.number(),
+  previewUrl: v.optional(v.nullable(v.string())),
+  previewUrls: v.optional(v.array(v.string())),
+  generationId: v.optional(v.nullable(v.string())),
+  parentId: v.optional(v.nullable(v.string())),
+  copiedFrom: v.optional(v.nullable(v.string())),
+});
+export const AddWildcardsBody = v.object({ items: v.array(NewWildcard, { min: 1 }) });
+export type NewWildcard = Infer<typeof NewWildcard>;
+
+export const ImportFilesBody = v.object({
+  files: v.optional(v.array(v.object({ name: v.string(), content: v.string() }))),
+  dir: v.optional(v.string()),
+  list: v.optional(id()),
+});
+export type ImportFilesBody = Infer<typeof ImportFilesBody>;
+
+export interface ImportFileReport {
+  name: string;
+  added: number;
+  skipped: number;
+  malformed: number;
+  error?: string;
+}
+
+export interface ImportReport {
+  added: number;
+  skipped: number;
+  malformed: number;
+  files: ImportFileReport[];
+}
+
+export const ReplaceRequest = v.object({
+  mode: v.oneOf(REPLACE_MODES),
+  find: v.string({ nonBlank: true }),
+  replace: v.optional(v.string()),
+  /** Regex mode only. */
+  caseSensitive: v.optional(v.boolean()),
+  /** Collection to change; every collection when omitted. */
+  list: v.optional(id()),
+  /** Search query (same syntax as the search bar) narrowing the wildcards changed. */
+  q: v.optional(v.string()),
+  /** Only report what would change. */
+  dryRun: v.optional(v.boolean()),
+});
+export type ReplaceRequest = Infer<typeof ReplaceRequest>;
+
+export const UpdateWildcardBody = v.object({
+  text: v.optional(v.string({ trim: true, min: 1 })),
+  list: v.optional(id()),
+  previewUrl: v.optional(v.nullable(v.string())),
+});
+export type UpdateWildcardBody = Infer<typeof UpdateWildcardBody>;
+
+export const PreviewBody = v.object({ url: v.string({ min: 1 }) });
+
+// ── Batch actions ─────────────────────────────────────────────────────────────
+export const BatchIdsBody = v.object({ ids: batchIds() });
+export const BatchTargetBody = v.object({ ids: batchIds(), list: id() });
+export const BatchTagsBody = v.object({
+  ids: batchIds(),
+  add: v.optional(v.array(v.string())),
+  remove: v.optional(v.array(v.string())),
+});
+
+export interface CopyResult {
+  /** The copies, newest first. */
+  items: (WildcardItem & { list: string })[];
+  skipped: number;
+}
+
+export interface EditTagsResult {
+  /** New text of every wildcard that changed. */
+  items: { id: string; text: string }[];
+  skipped: number;
+}
+
+// ── Trash ─────────────────────────────────────────────────────────────────────
+export const PageQuery = v.object(pageQuery);
+
+export interface TrashPage {
+  items: TrashItem[];
+  total: number;
+  nextCursor: number | null;
+}
+
+export const TrashSettingsBody = v.object({
+  retentionDays: v.number({ integer: true, min: 1, max: MAX_RETENTION_DAYS }),
+});
+/** One delete (`batchId`) or the given entries. */
+export const RestoreTrashBody = v.object({ batchId: v.optional(id()), ids: v.optional(batchIds()) });
+export type RestoreTrashBody = { batchId: string } | { ids: string[] };
+export const PurgeTrashBody = v.object({ ids: v.optional(batchIds()) });
+
+export interface RestoreResult {
+  restored: number;
+  /** Collections that got wildcards back. */
+  lists: string[];
+  /** Trash entries left in the trash because a wildcard with the same id exists. */
+  conflicts: string[];
+}
+
+// ── Duplicates ────────────────────────────────────────────────────────────────
+export const DuplicateSettingsBody = v.object({
+  threshold: v.optional(threshold()),
+  action: v.optional(v.oneOf(DUPLICATE_ACTIONS)),
+});
+export const DuplicateCheckBody = v.object({
+  text: v.string({ nonBlank: true }),
+  list: v.optional(id()),
+  threshold: v.optional(threshold()),
+});
+export const DuplicatesQuery = v.object({ list: v.optional(v.string()), threshold: v.optional(threshold(true)) });
+export const MergeDuplicatesBody = v.object({ keepId: id(), removeIds: v.array(id(), { min: 1 }) });
+
+export interface DuplicateMatch {
+  item: WildcardItem & { list: string };
+  score: number;
+}
+
+export interface DuplicatesResult {
+  threshold: number;
+  total: number;
+  groups: DuplicateGroup[];
+}
+
+// ── Export ────────────────────────────────────────────────────────────────────
+export const ExportQuery = v.object({ list: v.optional(v.string()) });
+export const ExportBody = v.object({ list: v.optional(id()) });
+
+export interface ExportedFile {
+  name: string;
+  path: string;
+  count: number;
+}
+
+// ── Generation ────────────────────────────────────────────────────────────────
+export const GenerateRequest = v.object({
+  prompt: v.optional(v.string()),
+  systemInstruction: v.optional(v.string()),
+  count: v.number({ integer: true, min: 1, max: MAX_GENERATE }),
+  refining: v.optional(v.nullable(v.string())),
+  /** Id of the wildcard being refined; recorded as the parent of the outputs. */
+  refiningId: v.optional(v.nullable(v.string())),
+  /** Reference images as data URLs. */
+  referenceImages: v.optional(v.array(v.string())),
+  sessionId: v.optional(v.nullable(v.string())),
+  /** Go ahead although the run is estimated to exceed a budget (only in 'confirm' mode). */
+  confirmOverBudget: v.optional(v.boolean()),
+});
+export type GenerateRequest = Infer<typeof GenerateRequest>;
+
+export interface GenerateResult {
+  /** Wildcards saved into the generated collection, newest batch first. */
+  items: WildcardItem[];
+  cost: number;
+  sessionCost: number;
+  allTimeCost: number;
+  /** True when the generation was stopped; `items` holds what was produced before that. */
+  cancelled?: boolean;
+  /** Near-duplicates of existing wildcards that were not saved (duplicate action 'drop'). */
+  duplicatesDropped?: number;
+  /** Set when a batch failed; `items` still holds the batches that succeeded. */
+  error?: string;
+}
+
+/** Final event of a streamed generation; items were delivered one by one before it. */
+export type GenerateStreamSummary = Omit<GenerateResult, 'items'>;
+
+// ── Model pricing ─────────────────────────────────────────────────────────────
+const rate = () => v.optional(v.number({ min: 0 }));
+export const PricingBody = v.object({
+  provider: v.oneOf(PROVIDERS),
+  model: name(),
+  inputPerMTok: rate(),
+  outputPerMTok: rate(),
+  imagePerMTok: rate(),
+});
+
+// ── Budgets ───────────────────────────────────────────────────────────────────
+const limit = () => v.optional(v.nullable(v.number({ min: 0 })));
+export const BudgetPatchBody = v.object({
+  session: limit(),
+  daily: limit(),
+  monthly: limit(),
+  mode: v.optional(v.oneOf(BUDGET_MODES)),
+});
+
+// ── Tag dictionary ────────────────────────────────────────────────────────────
+export const TagImportBody = v.object({ content: v.optional(v.string()), path: v.optional(v.string()) });
+export type TagImportBody = { content: string } | { path: string };
+export const TagCompleteQuery = v.object({
+  q: v.optional(v.string()),
+  limit: v.optional(v.number({ integer: true, min: 1, max: 50, coerce: true })),
+});
+export const TagLookupBody = v.object({ tags: v.array(v.string(), { max: MAX_LOOKUP_TAGS }) });
+
+export interface TagImportResult {
+  imported: number;
+  malformed: number;
+}
+
+export interface TagLookupResult {
+  loaded: boolean;
+  /** Keyed by normalized tag; null for a tag the dictionary doesn't know. */
+  tags: Record<string, TagInfo | null>;
+  suggestions: Record<string, string[]>;
+}
+
+// ── Costs ─────────────────────────────────────────────────────────────────────
+export const CostRangeQuery = v.object({
+  from: v.optional(v.number({ coerce: true })),
+  to: v.optional(v.number({ coerce: true })),
+  bucket: v.optional(v.oneOf(['day', 'week'] as const)),
+});
+export const SessionBody = v.object({ label: v.string({ max: MAX_NAME_LENGTH }) });
+
+// ── Backups ───────────────────────────────────────────────────────────────────
+export const BackupSettingsBody = v.object({
+  intervalHours: v.optional(v.number({ integer: true, min: 0, max: MAX_BACKUP_INTERVAL_HOURS })),
+  keep: v.optional(v.number({ integer: true, min: 1, max: MAX_BACKUP_KEEP })),
+});
+export const ImportDatabaseBody = v.object({ content: v.string() });
+
+export interface BackupList {
+  backups: BackupInfo[];
+  /** Folder the backups are written to, on the server. */
+  dir: string;
+}
@@ -3,12 +3,55 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
-import { WildcardItem } from '../types';
+import {
+  BackupInfo, BackupSettings, BudgetPatch, BudgetStatus, Collection, CostAnalytics, CostBucket, DuplicateSettings,
+  GenerationDetail, GenerationEstimate, GenerationRecord, LlmConfig, LlmConfigPatch, ModelPricing, ReplaceResult, TagInfo,
+  TagLookup, TrashReceipt, WildcardEdit, WildcardItem, WildcardLineage,
+} from '../types';
+import {
+  BackupList, ConfigPatch, CopyResult, DuplicateMatch, DuplicatesResult, EditTagsResult,
+  ExportedFile, FetchListResult, GenerateRequest, GenerateStreamSummary, ImportFilesBody, ImportReport,
+  NewWildcard, ReplaceRequest, RestoreResult, RestoreTrashBody, TagImportBody, TagImportResult, TagLookupResult, TrashPage,
+  UpdateCollectionBody, UpdateWildcardBody,
+} from './contract';
+import { call, persist, responseError } from './http';
+import { enqueueWrite } from './writeQueue';
 
-export interface FetchListResult {
-  items: WildcardItem[];
-  total: number;
-  nextCursor: number | null;
+/** Fire-and-forget variant for background saves: a failure goes to the error listeners instead of the caller. */
+const send = (url: string, method: string, body?: unknown): Promise<void> => persist(() => call(url, method, body));
+
+/** Optimistic wildcard write through the offline queue; resolves once the server has it. */
+const queue = (url: string, method: string, body: unknown, targets: string[]): Promise<void> =>
+  enqueueWrite({ url, method, body, targets }).then(() => undefined);
+
+export interface GenerateStreamHandlers {
+  /** Receives the generation id, needed to cancel it. */
+  onStart: (id: string, provider: string, model: string) => void;
+  onBatch: (batch: number, batches: number) => void;
+  onItem: (item: WildcardItem) => void;
+}
+
+/** Reads a `text/event-stream` body, calling `onEvent` for each complete event. */
+async function readEventStream(res: Response, onEvent: (event: string, data: any) => void) {
+  const reader = res.body!.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = '';
+  for (;;) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    buffer += value;
+    let end: number;
+    while ((end = buffer.indexOf('\n\n')) !== -1) {
+      const block = buffer.slice(0, end);
+      buffer = buffer.slice(end + 2);
+      let event = 'message';
+      let data = '';
+      for (const line of block.split('\n')) {
+        if (line.startsWith('event: ')) event = line.slice(7);
+        else if (line.startsWith('data: ')) data += line.slice(6);
+      }
+      if (data) onEvent(event, JSON.parse(data));
+    }
+  }
 }
 
 export interface FetchListOpts {
@@ -17,97 +60,270 @@ export interface FetchListOpts {
   q?: string;
 }
 
-/** REST helpers – fire-and-forget for optimistic updates */
+function costRangeParams({ from, to, bucket }: { from?: number; to?: number; bucket?: CostBucket }) {
+  const params = new URLSearchParams();
+  if (from !== undefined) params.set('from', String(from));
+  if (to !== undefined) params.set('to', String(to));
+  if (bucket) params.set('bucket', bucket);
+  return params.toString();
+}
+
+/**
+ * REST helpers. Methods that return data, and the settings saves a dialog waits
+ * on (config, budget), throw an ApiError on failure. The
+ * wildcard writes behind optimistic updates go through the offline write queue
+ * (see writeQueue.ts); other background saves are fire-and-forget and report
+ * failures through `onApiError` instead.
+ */
 export const dbApi = {
   // ── Wildcards ──────────────────────────────────────────────────────────────
-  fetchList: async (
-    list: 'generated' | 'saved',
-    opts: FetchListOpts = {},
-  ): Promise<FetchListResult> => {
+  fetchList: (list: string, opts: FetchListOpts = {}): Promise<FetchListResult> => {
     const params = new URLSearchParams({ list });
     if (opts.limit !== undefined) params.set('limit', String(opts.limit));
     if (opts.cursor !== null && opts.cursor !== undefined) params.set('cursor', String(opts.cursor));
     if (opts.q) params.set('q', opts.q);
-    const res = await fetch(`/api/wildcards?${params}`);
-    return res.json();
+    return call(`/api/wildcards?${params}`);
   },
 
   add: (items: (WildcardItem & { list: string })[]) =>
-    fetch('/api/wildcards', {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ items }),
-    }),
+    queue('/api/wildcards', 'POST', { items: items as NewWildcard[] }, items.map((item) => item.id)),
 
-  patch: (id: string, patch: { list?: string; previewUrl?: string | null }) =>
-    fetch(`/api/wildcards/${id}`, {
-      method: 'PATCH',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify(patch),
-    }),
+  /**
+   * Imports wildcard files — uploaded contents or a folder on the server.
+   * Without `list`, each file goes into the collection named after it.
+   */
+  importFiles: (payload: ImportFilesBody): Promise<ImportReport> => call('/api/wildcards/import', 'POST', payload),
+
+  /** Bulk find/replace; with `dryRun` nothing is changed and the result is a preview. */
+  replaceInWildcards: (request: ReplaceRequest): Promise<ReplaceResult> => call('/api/wildcards/replace', 'POST', request),
+
+  /** Queued; resolves with false if the server refused the change. */
+  patch: (id: string, patch: UpdateWildcardBody): Promise<boolean> =>
+    enqueueWrite({ url: `/api/wildcards/${id}`, method: 'PATCH', body: patch, targets: [id] }).then((answer) => answer !== undefined),
+
+  /** Previous texts of a wildcard, newest first. */
+  fetchHistory: async (id: string): Promise<WildcardEdit[]> =>
+    (await call<{ edits: WildcardEdit[] }>(`/api/wildcards/${id}/history`)).edits,
+
+  /** The refine/copy tree the wildcard belongs to. */
+  fetchLineage: (id: string): Promise<WildcardLineage> => call(`/api/wildcards/${id}/lineage`),
+
+  /** Moves the wildcard to the trash (queued; undefined if the server refused it). */
+  remove: (id: string): Promise<TrashReceipt | undefined> =>
+    enqueueWrite({ url: `/api/wildcards/${id}`, method: 'DELETE', targets: [id] }),
+
+  /** Moves every wildcard of the list to the trash (queued; undefined if the server refused it). */
+  clearList: (list: string): Promise<TrashReceipt | undefined> =>
+    enqueueWrite({ url: `/api/wildcards?list=${encodeURIComponent(list)}`, method: 'DELETE', targets: [] }),
+
+  // ── Batch actions on selected wildcards ────────────────────────────────────
+  /** Queued like `remove`. */
+  removeMany: async (ids: string[]): Promise<TrashReceipt | undefined> => {
+    const data = await enqueueWrite<{ batchId: string; deleted: number }>({
+      url: '/api/wildcards/batch/delete', method: 'POST', body: { ids }, targets: ids,
+    });
+    return data && { batchId: data.batchId, trashed: data.deleted };
+  },
 
-  remove: (id: string) => fetch(`/api/wildcards/${id}`, { method: 'DELETE' }),
+  moveMany: (ids: string[], list: string) => queue('/api/wildcards/batch/move', 'POST', { ids, list }, ids),
 
-  clearList: (list: 'generated' | 'saved') =>
-    fetch(`/api/wildcards?list=${list}`, { method: 'DELETE' }),
+  /** Copies wildcards into `list` like Save does; texts already there are skipped. Copies come newest first. */
+  copyMany: (ids: string[], list: string): Promise<CopyResult> => call('/api/wildcards/batch/copy', 'POST', { ids, list }),
+
+  /** Adds and removes whole tags; returns the new text of every wildcard that changed. */
+  editTagsMany: (ids: string[], tags: { add?: string[]; remove?: string[] }): Promise<EditTagsResult> =>
+    call('/api/wildcards/batch/tags', 'POST', { ids, ...tags }),
+
+  // ── Collections ────────────────────────────────────────────────────────────
+  fetchCollections: async (): Promise<Collection[]> =>
+    (await call<{ collections: Collection[] }>('/api/collections')).collections,
+
+  createCollection: async (name: string): Promise<Collection> =>
+    (await call<{ collection: Collection }>('/api/collections', 'POST', { name })).collection,
+
+  updateCollection: async (id: string, patch: UpdateCollectionBody): Promise<Collection> =>
+    (await call<{ collection: Collection }>(`/api/collections/${id}`, 'PATCH', patch)).collection,
+
+  /** Deletes a custom collection; its wildcards go to the trash. */
+  removeCollection: (id: string): Promise<TrashReceipt> => call(`/api/collections/${id}`, 'DELETE'),
+
+  // ── Trash ──────────────────────────────────────────────────────────────────
+  fetchTrash: (cursor: number | null = null): Promise<TrashPage> => {
+    const params = new URLSearchParams();
+    if (cursor !== null) params.set('cursor', String(cursor));
+    return call(`/api/trash?${params}`);
+  },
+
+  /** Restores one delete (`batchId`) or the given entries; returns the collections that got wildcards back. */
+  restoreTrash: (target: RestoreTrashBody): Promise<RestoreResult> => call('/api/trash/restore', 'POST', target),
+
+  /** Deletes the given entries for good, or empties the trash without `ids`. */
+  purgeTrash: (ids?: string[]) => send('/api/trash', 'DELETE', { ids }),
+
+  fetchTrashRetention: async (): Promise<number> =>
+    (await call<{ retentionDays: number }>('/api/trash/settings')).retentionDays,
+
+  updateTrashRetention: async (retentionDays: number): Promise<number> =>
+    (await call<{ retentionDays: number }>('/api/trash/settings', 'PATCH', { retentionDays })).retentionDays,
 
   // ── Wildcard previews ──────────────────────────────────────────────────────
   addPreview: (wildcardId: string, url: string) =>
-    fetch(`/api/wildcards/${wildcardId}/previews`, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ url }),
-    }),
+    queue(`/api/wildcards/${wildcardId}/previews`, 'POST', { url }, [wildcardId]),
 
   removePreview: (wildcardId: string, url: string) =>
-    fetch(`/api/wildcards/${wildcardId}/previews`, {
-      method: 'DELETE',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ url }),
-    }),
+    queue(`/api/wildcards/${wildcardId}/previews`, 'DELETE', { url }, [wildcardId]),
 
-  // ── Costs ──────────────────────────────────────────────────────────────────
-  fetchCosts: async (): Promise<{ total: number }> => {
-    const res = await fetch('/api/costs');
-    return res.json();
-  },
+  // ── Export ─────────────────────────────────────────────────────────────────
+  /** Download URL: a single `<name>.txt`, or a zip of every collection when `list` is omitted. */
+  exportUrl: (list?: string) =>
+    list ? `/api/export?list=${encodeURIComponent(list)}` : '/api/export',
+
+  /** Writes wildcard files into the configured wildcards folder. */
+  exportToDir: async (list?: string): Promise<ExportedFile[]> =>
+    (await call<{ files: ExportedFile[] }>('/api/export', 'POST', { list })).files,
 
-  createSession: async (label: string): Promise<string> => {
-    const res = await fetch('/api/costs/session', {
+  // ── Generation ─────────────────────────────────────────────────────────────
+  /**
+   * Runs a generation on the server, which holds the API key and records the cost.
+   * Wildcards arrive through `handlers` as the model writes them; resolves with the
+   * totals once the last batch is done.
+   */
+  generateStream: async (request: GenerateRequest, handlers: GenerateStreamHandlers): Promise<GenerateStreamSummary> => {
+    const res = await fetch('/api/generate/stream', {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ label }),
+      body: JSON.stringify(request),
     });
-    const data = await res.json();
-    return data.id as string;
+    if (!res.ok) throw await responseError(res);
+    let summary: GenerateStreamSummary | null = null;
+    await readEventStream(res, (event, data) => {
+      if (event === 'start') handlers.onStart(data.id, data.provider, data.model);
+      else if (event === 'batch') handlers.onBatch(data.batch, data.batches);
+      else if (event === 'item') handlers.onItem(data as WildcardItem);
+      else if (event === 'done') summary = data as GenerateStreamSummary;
+    });
+    if (!summary) throw new Error('Generation stream ended unexpectedly');
+    return summary;
   },
 
-  updateSession: (id: string, amount: number) =>
-    fetch(`/api/costs/session/${id}`, {
-      method: 'PATCH',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ amount }),
-    }),
+  /** Estimates a run's usage and cost and checks it against the budgets. */
+  estimateGeneration: (request: GenerateRequest): Promise<GenerationEstimate> =>
+    call('/api/generate/estimate', 'POST', request),
 
-  addToTotal: (delta: number) =>
-    fetch('/api/costs/total', {
-      method: 'PATCH',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ delta }),
-    }),
+  /** Stops a running generation; its stream still ends with the partial totals. */
+  cancelGeneration: (id: string) => send(`/api/generate/${id}/cancel`, 'POST'),
 
-  // ── Config ──────────────────────────────────────────────────────────────────
-  fetchConfig: async (): Promise<{ galleryDir: string; apiKey: string }> => {
-    const res = await fetch('/api/config');
-    return res.json();
+  // ── Generation history ─────────────────────────────────────────────────────
+  fetchGenerations: (
+    cursor: number | null = null,
+  ): Promise<{ generations: GenerationRecord[]; nextCursor: number | null }> =>
+    call(cursor !== null ? `/api/generations?cursor=${cursor}` : '/api/generations'),
+
+  fetchGeneration: (id: string): Promise<GenerationDetail> => call(`/api/generations/${id}`),
+
+  removeGeneration: (id: string) => send(`/api/generations/${id}`, 'DELETE'),
+
+  // ── Model pricing ──────────────────────────────────────────────────────────
+  fetchPricing: async (): Promise<ModelPricing[]> => (await call<{ models: ModelPricing[] }>('/api/pricing')).models,
+
+  /** Creates or updates the rates of a (provider, model) pair. */
+  savePricing: async (entry: Omit<ModelPricing, 'id'>): Promise<ModelPricing> =>
+    (await call<{ model: ModelPricing }>('/api/pricing', 'PUT', entry)).model,
+
+  removePricing: (id: string) => send(`/api/pricing/${id}`, 'DELETE'),
+
+  // ── Budgets ────────────────────────────────────────────────────────────────
+  fetchBudget: (): Promise<BudgetStatus> => call('/api/budget'),
+
+  updateBudget: (patch: BudgetPatch): Promise<unknown> => call('/api/budget', 'PATCH', patch),
+
+  // ── Tag dictionary ─────────────────────────────────────────────────────────
+  fetchTagCount: async (): Promise<number> => (await call<{ count: number }>('/api/tags')).count,
+
+  /** Replaces the dictionary with an uploaded CSV (`content`) or a CSV file on the server (`path`). */
+  importTagDictionary: (source: TagImportBody): Promise<TagImportResult> => call('/api/tags/import', 'POST', source),
+
+  clearTagDictionary: () => send('/api/tags', 'DELETE'),
+
+  completeTags: async (q: string, limit = 8): Promise<TagInfo[]> => {
+    const params = new URLSearchParams({ q, limit: String(limit) });
+    return (await call<{ tags: TagInfo[] }>(`/api/tags/complete?${params}`)).tags;
   },
 
-  updateConfig: (config: { galleryDir?: string; apiKey?: string }) =>
-    fetch('/api/config', {
-      method: 'PATCH',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify(config),
-    }),
+  /** Keys of the result are the normalized tags; `loaded` is false when no dictionary is loaded. */
+  lookupTags: async (tags: string[]): Promise<{ loaded: boolean; tags: Record<string, TagLookup> }> => {
+    const data = await call<TagLookupResult>('/api/tags/lookup', 'POST', { tags });
+    const lookups: Record<string, TagLookup> = {};
+    for (const [tag, info] of Object.entries(data.tags)) {
+      lookups[tag] = { info, suggestions: data.suggestions[tag] ?? [] };
+    }
+    return { loaded: data.loaded, tags: lookups };
+  },
+
+  // ── Duplicates ─────────────────────────────────────────────────────────────
+  fetchDuplicateSettings: (): Promise<DuplicateSettings> => call('/api/duplicates/settings'),
+
+  updateDuplicateSettings: (patch: Partial<DuplicateSettings>): Promise<DuplicateSettings> =>
+    call('/api/duplicates/settings', 'PATCH', patch),
+
+  /** The closest wildcard to `text` in `list` (or anywhere) at the configured threshold, if any. */
+  checkDuplicate: async (text: string, list?: string): Promise<DuplicateMatch | null> =>
+    (await call<{ match: DuplicateMatch | null }>('/api/duplicates/check', 'POST', { text, list })).match,
+
+  fetchDuplicates: (opts: { list?: string; threshold?: number } = {}): Promise<DuplicatesResult> => {
+    const params = new URLSearchParams();
+    if (opts.list) params.set('list', opts.list);
+    if (opts.threshold !== undefined) params.set('threshold', String(opts.threshold));
+    return call(`/api/duplicates?${params}`);
+  },
+
+  /** Folds `removeIds` into `keepId` and returns the kept wildcard with its merged previews. */
+  mergeDuplicates: async (keepId: string, removeIds: string[]): Promise<WildcardItem & { list: string }> =>
+    (await call<{ item: WildcardItem & { list: string } }>('/api/duplicates/merge', 'POST', { keepId, removeIds })).item,
+
+  // ── Costs ──────────────────────────────────────────────────────────────────
+  fetchCosts: (): Promise<{ total: number }> => call('/api/costs'),
+
+  /** `from`/`to` are ms timestamps; `to` is exclusive. */
+  fetchCostAnalytics: (range: { from?: number; to?: number; bucket: CostBucket }): Promise<CostAnalytics> =>
+    call(`/api/costs/analytics?${costRangeParams(range)}`),
+
+  costsExportUrl: (range: { from?: number; to?: number }) => `/api/costs/export?${costRangeParams(range)}`,
+
+  createSession: async (label: string): Promise<string> =>
+    (await call<{ id: string }>('/api/costs/session', 'POST', { label })).id,
+
+  // ── Backups ────────────────────────────────────────────────────────────────
+  fetchBackups: (): Promise<BackupList> => call('/api/backups'),
+
+  createBackup: async (): Promise<BackupInfo> => (await call<{ backup: BackupInfo }>('/api/backups', 'POST')).backup,
+
+  backupUrl: (name: string) => `/api/backups/${encodeURIComponent(name)}`,
+
+  /** Replaces all data with the backup's; returns the pre-restore backup of the data it replaced. */
+  restoreBackup: async (name: string): Promise<BackupInfo> =>
+    (await call<{ backup: BackupInfo }>(`/api/backups/${encodeURIComponent(name)}/restore`, 'POST')).backup,
+
+  removeBackup: (name: string) => send(`/api/backups/${encodeURIComponent(name)}`, 'DELETE'),
+
+  fetchBackupSettings: (): Promise<BackupSettings> => call('/api/backups/settings'),
+
+  updateBackupSettings: (patch: Partial<BackupSettings>): Promise<BackupSettings> =>
+    call('/api/backups/settings', 'PATCH', patch),
+
+  /** Download URL of the JSON export; API keys are only included with `secrets`. */
+  databaseExportUrl: (secrets: boolean) => `/api/backups/export${secrets ? '?secrets=1' : ''}`,
+
+  /** Imports a JSON export; returns the rows imported per table. */
+  importDatabase: async (content: string): Promise<Record<string, number>> =>
+    (await call<{ imported: Record<string, number> }>('/api/backups/import', 'POST', { content })).imported,
+
+  // ── Config ──────────────────────────────────────────────────────────────────
+  fetchConfig: (): Promise<{ galleryDir: string; wildcardsDir: string } & LlmConfig> => call('/api/config'),
+
+  /** API keys are write-only: they are stored on the server and never read back. */
+  updateConfig: (config: ConfigPatch & LlmConfigPatch): Promise<unknown> => call('/api/config', 'PATCH', config),
 
-  resetDb: () => fetch('/api/db/reset', { method: 'POST' }),
+  /** Resets everything; the wildcards go to the trash. */
+  resetDb: (): Promise<TrashReceipt> => call('/api/db/reset', 'POST'),
 };
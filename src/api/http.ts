@@ -0,0 +1,72 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { ApiErrorBody, ApiErrorCode, errorCodeForStatus } from './contract';
+import { ValidationIssue } from './validation';
+
+/** A failed API request: the server's message and error code, and the fields at fault for an invalid one. */
+export class ApiError extends Error {
+  constructor(
+    message: string,
+    /** HTTP status; 0 when the server could not be reached. */
+    readonly status: number,
+    readonly code: ApiErrorCode | 'network_error',
+    readonly issues?: ValidationIssue[],
+    /** The whole error body, for responses that carry more than the message (budget refusals, partial generations). */
+    readonly body?: ApiErrorBody & Record<string, unknown>,
+  ) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+type ApiErrorListener = (error: Error, retry?: () => void) => void;
+const errorListeners = new Set<ApiErrorListener>();
+
+/** Subscribes to failures of requests nobody waits on; returns the unsubscribe function. */
+export function onApiError(listener: ApiErrorListener): () => void {
+  errorListeners.add(listener);
+  return () => {
+    errorListeners.delete(listener);
+  };
+}
+
+/**
+ * Hands a failure to the error listeners (usable directly as a `.catch` handler).
+ * `retry`, when given, runs the failed request again.
+ */
+export function reportApiError(error: unknown, retry?: () => void) {
+  const err = error instanceof Error ? error : new Error(String(error));
+  errorListeners.forEach((listener) => listener(err, retry));
+}
+
+/** Runs a background save; a failure is reported with a retry that runs it again (and reports again if that fails). */
+export function persist(request: () => Promise<unknown>): Promise<void> {
+  return request().then(
+    () => undefined,
+    (err) => reportApiError(err, () => persist(request)),
+  );
+}
+
+/** The ApiError for a response that isn't ok, from its JSON error body when it has one. */
+export async function responseError(res: Response): Promise<ApiError> {
+  const data = await res.json().catch(() => ({}));
+  return new ApiError(
+    data.error ?? `Request failed (${res.status})`, res.status, data.code ?? errorCodeForStatus(res.status), data.issues, data,
+  );
+}
+
+/** Sends a request (JSON body when given) and returns the parsed answer, or throws an ApiError. */
+export async function call<T>(url: string, method = 'GET', body?: unknown): Promise<T> {
+  const res = await fetch(url, body === undefined ? { method } : {
+    method,
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  }).catch(() => {
+    throw new ApiError('Could not reach the server', 0, 'network_error');
+  });
+  if (res.ok) return res.json();
+  throw await responseError(res);
+}
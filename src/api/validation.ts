@@ -0,0 +1,164 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * Small runtime schemas for API request bodies and query strings. Shared by the
+ * server (which validates every request with them) and the client (which takes
+ * its request types from them), so it must stay free of browser and Node APIs.
+ *
+ * A schema checks an unknown value and returns it typed, with strings trimmed
+ * where asked and object keys the schema doesn't know dropped, or the problems
+ * found, each with the path of the offending field (`items[2].text`).
+ */
+
+export interface ValidationIssue {
+  /** Path of the field; empty for the body itself. */
+  path: string;
+  message: string;
+}
+
+export type ValidationResult<T> = { value: T } | { issues: ValidationIssue[] };
+
+export interface Schema<T, Optional extends boolean = boolean> {
+  /** The key may be left out of an object (its value is then undefined). */
+  readonly optional: Optional;
+  /** Returns the checked value; on failure records issues (the return value is then meaningless). */
+  check(value: unknown, path: string, issues: ValidationIssue[]): T;
+}
+
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+type Shape = Record<string, Schema<unknown>>;
+type OptionalKeys<S extends Shape> = { [K in keyof S]: S[K] extends Schema<unknown, true> ? K : never }[keyof S];
+type Simplify<T> = { [K in keyof T]: T[K] } & {};
+export type ObjectOf<S extends Shape> = Simplify<
+  { [K in Exclude<keyof S, OptionalKeys<S>>]: Infer<S[K]> } & { [K in OptionalKeys<S>]?: Infer<S[K]> }
+>;
+
+function schema<T>(check: (value: unknown, path: string, issues: ValidationIssue[]) => T): Schema<T, false> {
+  return { optional: false, check };
+}
+
+function fail(issues: ValidationIssue[], path: string, message: string): never {
+  issues.push({ path, message });
+  return undefined as never;
+}
+
+const join = (path: string, key: string) => (path ? `${path}.${key}` : key);
+
+interface StringOpts {
+  /** Trim before checking; the trimmed string is returned. */
+  trim?: boolean;
+  /** Reject whitespace-only strings but return them untrimmed. */
+  nonBlank?: boolean;
+  min?: number;
+  max?: number;
+}
+
+interface NumberOpts {
+  integer?: boolean;
+  min?: number;
+  max?: number;
+  /** Exclusive lower bound. */
+  above?: number;
+  /** Also accept a numeric string, as found in query strings. */
+  coerce?: boolean;
+}
+
+function rangeMessage({ min, max, above }: NumberOpts): string {
+  if (above !== undefined) return max !== undefined ? `greater than ${above} and at most ${max}` : `greater than ${above}`;
+  if (min !== undefined && max !== undefined) return `from ${min} to ${max}`;
+  return min !== undefined ? `at least ${min}` : `at most ${max}`;
+}
+
+export const v = {
+  string(opts: StringOpts = {}): Schema<string, false> {
+    return schema((value, path, issues) => {
+      if (typeof value !== 'string') return fail(issues, path, 'must be a string');
+      const s = opts.trim ? value.trim() : value;
+      if (opts.nonBlank && !s.trim()) return fail(issues, path, 'must not be blank');
+      if (opts.min !== undefined && s.length < opts.min) {
+        return fail(issues, path, opts.min === 1 ? 'must not be empty' : `must be at least ${opts.min} characters`);
+      }
+      if (opts.max !== undefined && s.length > opts.max) return fail(issues, path, `must be at most ${opts.max} characters`);
+      return s;
+    });
+  },
+
+  number(opts: NumberOpts = {}): Schema<number, false> {
+    return schema((value, path, issues) => {
+      const n = opts.coerce && typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+      const kind = opts.integer ? 'a whole number' : 'a number';
+      if (typeof n !== 'number' || !Number.isFinite(n) || (opts.integer && !Number.isInteger(n))) {
+        return fail(issues, path, `must be ${kind}`);
+      }
+      if ((opts.min !== undefined && n < opts.min) || (opts.max !== undefined && n > opts.max)
+        || (opts.above !== undefined && n <= opts.above)) {
+        return fail(issues, path, `must be ${kind} ${rangeMessage(opts)}`);
+      }
+      return n;
+    });
+  },
+
+  boolean(): Schema<boolean, false> {
+    return schema((value, path, issues) => (typeof value === 'boolean' ? value : fail(issues, path, 'must be true or false')));
+  },
+
+  oneOf<const T extends string>(values: readonly T[]): Schema<T, false> {
+    return schema((value, path, issues) =>
+      values.includes(value as T) ? (value as T) : fail(issues, path, `must be one of: ${values.join(', ')}`));
+  },
+
+  array<T>(item: Schema<T>, opts: { min?: number; max?: number } = {}): Schema<T[], false> {
+    return schema((value, path, issues) => {
+      if (!Array.isArray(value)) return fail(issues, path, 'must be an array');
+      if (opts.min !== undefined && value.length < opts.min) {
+        return fail(issues, path, opts.min === 1 ? 'must not be empty' : `must have at least ${opts.min} entries`);
+      }
+      if (opts.max !== undefined && value.length > opts.max) return fail(issues, path, `must have at most ${opts.max} entries`);
+      return value.map((entry, i) => item.check(entry, `${path}[${i}]`, issues));
+    });
+  },
+
+  object<S extends Shape>(shape: S): Schema<ObjectOf<S>, false> {
+    return schema((value, path, issues) => {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) return fail(issues, path, 'must be an object');
+      const out: Record<string, unknown> = {};
+      for (const [key, field] of Object.entries(shape)) {
+        const entry = (value as Record<string, unknown>)[key];
+        if (entry === undefined) {
+          if (!field.optional) fail(issues, join(path, key), 'is required');
+          continue;
+        }
+        out[key] = field.check(entry, join(path, key), issues);
+      }
+      return out as ObjectOf<S>;
+    });
+  },
+
+  optional<T>(inner: Schema<T>): Schema<T | undefined, true> {
+    return { optional: true, check: (value, path, issues) => (value === undefined ? undefined : inner.check(value, path, issues)) };
+  },
+
+  nullable<T, O extends boolean>(inner: Schema<T, O>): Schema<T | null, O> {
+    return {
+      optional: inner.optional,
+      check: (value, path, issues) => (value === null ? null : inner.check(value, path, issues)),
+    };
+  },
+};
+
+export function validate<T>(s: Schema<T>, value: unknown): ValidationResult<T> {
+  const issues: ValidationIssue[] = [];
+  const checked = s.check(value, '', issues);
+  return issues.length === 0 ? { value: checked } : { issues };
+}
+
+/** One line for an error message: the first issue, with how many more there are. */
+export function describeIssues(issues: ValidationIssue[]): string {
+  const [first] = issues;
+  const line = `${first.path || 'body'} ${first.message}`;
+  return issues.length > 1 ? `${line} (and ${issues.length - 1} more)` : line;
+}
@@ -0,0 +1,258 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * Queue for the optimistic wildcard writes (adds, edits, moves, previews, deletes).
+ *
+ * The UI changes first and the write waits here until the server has it. Writes
+ * are sent one at a time in the order they were made, so a later write never
+ * overtakes an earlier one on the same wildcard. Each is kept in IndexedDB until
+ * it succeeds, so writes made while the server is down survive a reload and are
+ * sent once it is back. A reload between the server answering and the write being
+ * forgotten still sends it twice, so the endpoints behind these writes accept a
+ * repeat (an upsert, a preview added once, a delete of a gone wildcard).
+ *
+ * A write that can't get through (no connection, 5xx, 408, 429) is retried with
+ * backoff, and right away when the browser comes back online. One the server
+ * refuses (any other 4xx) is dropped and announced through `onWriteRejected`, so
+ * the UI can reload the affected lists, and reported with a retry like any other
+ * failed save. Once the queue catches up after being offline or replaying an
+ * earlier visit's writes, `onCaughtUp` tells the UI to refetch what it shows.
+ */
+
+import { ApiError, call, reportApiError } from './http';
+
+export interface QueuedWrite {
+  url: string;
+  method: string;
+  body?: unknown;
+  /** Wildcards the write changes; they count as unsaved until it is through. */
+  targets: string[];
+  createdAt: number;
+}
+
+export type SyncState = 'synced' | 'syncing' | 'offline';
+
+export interface SyncStatus {
+  state: SyncState;
+  /** Writes not yet on the server. */
+  pending: number;
+  /** When the next attempt is due while offline (ms timestamp). */
+  retryAt: number | null;
+}
+
+interface Entry {
+  write: QueuedWrite;
+  /** IndexedDB key, once stored; null when IndexedDB isn't available. */
+  stored: Promise<number | null>;
+  /** Settles the enqueueWrite promise; absent for writes replayed from an earlier visit. */
+  settle?: (answer: unknown) => void;
+}
+
+const DB_NAME = 'wildcards-offline';
+const STORE = 'writes';
+/** Delay before each retry of a write that couldn't get through; the last one repeats. */
+const BACKOFF_MS = [1000, 2000, 5000, 10000, 30000, 60000];
+
+const queue: Entry[] = [];
+let flushing = false;
+let attempt = 0;
+let retryTimer: ReturnType<typeof setTimeout> | null = null;
+let retryAt: number | null = null;
+let started = false;
+let loaded: Promise<void> | null = null;
+/** The lists on screen may be behind the server once the queue empties. */
+let behind = false;
+
+// ── IndexedDB ────────────────────────────────────────────────────────────────
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+/** The queue's database, or null where IndexedDB isn't available (the queue then lives in memory only). */
+function openDb(): Promise<IDBDatabase | null> {
+  dbPromise ??= new Promise((resolve) => {
+    if (typeof indexedDB === 'undefined') return resolve(null);
+    const request = indexedDB.open(DB_NAME, 1);
+    request.onupgradeneeded = () => request.result.createObjectStore(STORE, { autoIncrement: true });
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => resolve(null);
+  });
+  return dbPromise;
+}
+
+/** Runs one request against the store and resolves with its result (null when IndexedDB is unavailable or fails). */
+async function withStore<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T | null> {
+  const db = await openDb();
+  if (!db) return null;
+  return new Promise((resolve) => {
+    const request = run(db.transaction(STORE, mode).objectStore(STORE));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => resolve(null);
+  });
+}
+
+/**
+ * Puts the writes left over from an earlier visit at the front of the queue.
+ * Runs once, before anything is sent or stored, so nothing is sent twice.
+ */
+function loadLeftovers(): Promise<void> {
+  loaded ??= openDb().then((db) => new Promise<void>((resolve) => {
+    if (!db) return resolve();
+    const leftover: Entry[] = [];
+    const request = db.transaction(STORE, 'readonly').objectStore(STORE).openCursor();
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (cursor) {
+        leftover.push({ write: cursor.value as QueuedWrite, stored: Promise.resolve(cursor.key as number) });
+        cursor.continue();
+        return;
+      }
+      queue.unshift(...leftover);
+      if (leftover.length > 0) behind = true;
+      resolve();
+    };
+    request.onerror = () => resolve();
+  }));
+  return loaded;
+}
+
+async function forget(entry: Entry) {
+  const key = await entry.stored;
+  if (key !== null) await withStore('readwrite', (store) => store.delete(key));
+}
+
+// ── Status ───────────────────────────────────────────────────────────────────
+type StatusListener = (status: SyncStatus) => void;
+const statusListeners = new Set<StatusListener>();
+type RejectedListener = (write: QueuedWrite, error: Error) => void;
+const rejectedListeners = new Set<RejectedListener>();
+const caughtUpListeners = new Set<() => void>();
+
+export function getSyncStatus(): SyncStatus {
+  return {
+    state: queue.length === 0 ? 'synced' : retryTimer ? 'offline' : 'syncing',
+    pending: queue.length,
+    retryAt,
+  };
+}
+
+/** Wildcards with a write still in the queue. */
+export function hasPendingWrite(wildcardId: string): boolean {
+  return queue.some((entry) => entry.write.targets.includes(wildcardId));
+}
+
+/** Subscribes to sync status changes; returns the unsubscribe function. */
+export function onSyncStatus(listener: StatusListener): () => void {
+  statusListeners.add(listener);
+  return () => {
+    statusListeners.delete(listener);
+  };
+}
+
+/** Subscribes to writes the server refused; returns the unsubscribe function. */
+export function onWriteRejected(listener: RejectedListener): () => void {
+  rejectedListeners.add(listener);
+  return () => {
+    rejectedListeners.delete(listener);
+  };
+}
+
+/** Subscribes to the queue emptying after it was offline or replayed earlier writes; returns the unsubscribe function. */
+export function onCaughtUp(listener: () => void): () => void {
+  caughtUpListeners.add(listener);
+  return () => {
+    caughtUpListeners.delete(listener);
+  };
+}
+
+function emitStatus() {
+  const status = getSyncStatus();
+  statusListeners.forEach((listener) => listener(status));
+}
+
+// ── Sending ──────────────────────────────────────────────────────────────────
+/** Whether a failed write may get through later, rather than being refused for good. */
+const isTransient = (err: unknown) =>
+  !(err instanceof ApiError) || err.status === 0 || err.status === 408 || err.status === 429 || err.status >= 500;
+
+function scheduleRetry() {
+  behind = true;
+  const delay = BACKOFF_MS[Math.min(attempt, BACKOFF_MS.length - 1)];
+  attempt++;
+  retryAt = Date.now() + delay;
+  retryTimer = setTimeout(retryNow, delay);
+}
+
+/** Sends the queued writes in order until the queue is empty or one can't get through. */
+async function flush() {
+  if (flushing || retryTimer) return;
+  flushing = true;
+  await loadLeftovers();
+  emitStatus();
+  while (queue.length > 0) {
+    const entry = queue[0];
+    const { url, method, body } = entry.write;
+    try {
+      const answer = await call(url, method, body);
+      attempt = 0;
+      // Off the stored queue before anything else happens, so a reload can't send it again.
+      await forget(entry);
+      queue.shift();
+      entry.settle?.(answer);
+    } catch (err) {
+      if (isTransient(err)) {
+        scheduleRetry();
+        break;
+      }
+      await forget(entry);
+      queue.shift();
+      entry.settle?.(undefined);
+      rejectedListeners.forEach((listener) => listener(entry.write, err as Error));
+      reportApiError(err, () => enqueueWrite(entry.write));
+    }
+    emitStatus();
+  }
+  flushing = false;
+  emitStatus();
+  if (queue.length === 0 && behind) {
+    behind = false;
+    caughtUpListeners.forEach((listener) => listener());
+  }
+}
+
+/** Sends the queue now instead of waiting for the next backoff step. */
+export function retryNow() {
+  if (retryTimer) clearTimeout(retryTimer);
+  retryTimer = null;
+  retryAt = null;
+  flush();
+}
+
+/**
+ * Queues a write. Resolves with the server's answer once it is through, or with
+ * undefined if the server refused it (that is reported separately).
+ */
+export function enqueueWrite<T>(write: Omit<QueuedWrite, 'createdAt'> & { createdAt?: number }): Promise<T | undefined> {
+  const stored: QueuedWrite = { ...write, createdAt: write.createdAt ?? Date.now() };
+  return new Promise((resolve) => {
+    queue.push({
+      write: stored,
+      stored: loadLeftovers().then(() => withStore('readwrite', (store) => store.add(stored) as IDBRequest<number>)),
+      settle: resolve as (answer: unknown) => void,
+    });
+    emitStatus();
+    flush();
+  });
+}
+
+/**
+ * Sends the writes left over from an earlier visit, and retries right away
+ * whenever the browser comes back online. Call once at startup.
+ */
+export function startWriteQueue() {
+  if (started) return;
+  started = true;
+  window.addEventListener('online', retryNow);
+  flush();
+}
@@ -0,0 +1,91 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { BudgetMode, BudgetPatch, BudgetPeriod, BudgetStatus, Theme } from '../types';
+
+interface Props {
+  theme: Theme;
+  budget: BudgetStatus;
+  /** Resolves with false if the change wasn't saved. */
+  onUpdate: (patch: BudgetPatch) => Promise<boolean>;
+}
+
+const PERIODS: BudgetPeriod[] = ['session', 'daily', 'monthly'];
+const MODES: BudgetMode[] = ['confirm', 'block'];
+
+/** Session, daily and monthly spend limits; a limit is saved when its field loses focus. */
+export function BudgetSettings({ theme, budget, onUpdate }: Props) {
+  const { t } = useTranslation();
+  // Inputs start from the saved limits each time Settings opens (the overlay remounts).
+  const [draft, setDraft] = useState<Record<BudgetPeriod, string>>(() => ({
+    session: budget.limits.session?.toString() ?? '',
+    daily: budget.limits.daily?.toString() ?? '',
+    monthly: budget.limits.monthly?.toString() ?? '',
+  }));
+
+  const commit = (period: BudgetPeriod) => {
+    const text = draft[period].trim();
+    const value = text === '' ? null : Number(text);
+    if (value !== null && (!Number.isFinite(value) || value < 0)) {
+      setDraft((d) => ({ ...d, [period]: budget.limits[period]?.toString() ?? '' }));
+      return;
+    }
+    if (value === budget.limits[period]) return;
+    // A limit that wasn't saved goes back to the saved one.
+    onUpdate({ [period]: value }).then((saved) => {
+      if (!saved) setDraft((d) => ({ ...d, [period]: budget.limits[period]?.toString() ?? '' }));
+    });
+  };
+
+  return (
+    <div className="space-y-1.5">
+      <label className="text-[10px] font-bold uppercase tracking-wider opacity-40">{t('budget.label')}</label>
+      <div className="grid grid-cols-3 gap-2">
+        {PERIODS.map((period) => (
+          <div key={period} className="space-y-1">
+            <span className="text-[9px] font-bold uppercase tracking-wider opacity-30">{t(`budget.${period}`)}</span>
+            <div className="relative">
+              <span className="absolute left-2.5 top-1/2 -translate-y-1/2 text-[10px] opacity-30">$</span>
+              <input
+                type="number"
+                min="0"
+                step="0.01"
+                value={draft[period]}
+                onChange={(e) => setDraft((d) => ({ ...d, [period]: e.target.value }))}
+                onBlur={() => commit(period)}
+                onKeyDown={(e) => { if (e.key === 'Enter') e.currentTarget.blur(); }}
+                placeholder={t('budget.noLimit')}
+                className="w-full h-8 border-none rounded-lg pl-5 pr-2 text-xs font-mono focus:ring-1 transition-all"
+                style={{
+                  backgroundColor: theme.input,
+                  color: theme.text,
+                  '--tw-ring-color': theme.accent,
+                } as React.CSSProperties}
+              />
+            </div>
+          </div>
+        ))}
+      </div>
+      <div className="flex gap-2">
+        {MODES.map((mode) => (
+          <button
+            key={mode}
+            onClick={() => { if (mode !== budget.mode) onUpdate({ mode }); }}
+            className="flex-1 h-7 rounded-lg text-[10px] font-bold uppercase tracking-wider transition-all"
+            style={{
+              backgroundColor: budget.mode === mode ? theme.accent : theme.input,
+              color: budget.mode === mode ? (theme.id === 'dark' ? '#000' : '#fff') : theme.text,
+            }}
+          >
+            {t(`budget.mode.${mode}`)}
+          </button>
+        ))}
+      </div>
+      <p className="text-[9px] opacity-30 leading-relaxed">{t('budget.note')}</p>
+    </div>
+  );
+}
@@ -0,0 +1,242 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useState, useRef, useEffect } from 'react';
+import { Columns3, Eye, EyeOff, Pencil, Trash2, Plus, Check, X } from 'lucide-react';
+import { motion, AnimatePresence } from 'motion/react';
+import { useTranslation } from 'react-i18next';
+import { Collection, Theme } from '../types';
+import { collectionLabel } from '../utils/collectionLabel';
+import { ExportActions } from './ExportActions';
+import type { ExportedFile } from '../api/contract';
+
+interface Props {
+  theme: Theme;
+  collections: Collection[];
+  /** Called when the menu opens so counts are fresh. */
+  onOpen: () => void;
+  onCreate: (name: string) => Promise<void>;
+  onRename: (id: string, name: string) => Promise<void>;
+  onToggleVisible: (id: string) => void;
+  onDelete: (id: string) => void;
+  exportFolderEnabled: boolean;
+  onExportAllDownload: () => void;
+  onExportAllToFolder: () => Promise<ExportedFile[]>;
+}
+
+/** Popover for creating, renaming, deleting collections and choosing which ones are shown as columns. */
+export function CollectionsMenu({
+  theme,
+  collections,
+  onOpen,
+  onCreate,
+  onRename,
+  onToggleVisible,
+  onDelete,
+  exportFolderEnabled,
+  onExportAllDownload,
+  onExportAllToFolder,
+}: Props) {
+  const { t } = useTranslation();
+  const [open, setOpen] = useState(false);
+  const [newName, setNewName] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editName, setEditName] = useState('');
+  const [deleteConfirmId, setDeleteConfirmId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const rootRef = useRef<HTMLDivElement>(null);
+
+  // Close when clicking anywhere outside the menu.
+  useEffect(() => {
+    if (!open) return;
+    const onDown = (e: MouseEvent) => {
+      if (rootRef.current && !rootRef.current.contains(e.target as Node)) setOpen(false);
+    };
+    document.addEventListener('mousedown', onDown);
+    return () => document.removeEventListener('mousedown', onDown);
+  }, [open]);
+
+  const toggleOpen = () => {
+    if (!open) {
+      onOpen();
+      setError(null);
+      setEditingId(null);
+      setDeleteConfirmId(null);
+    }
+    setOpen((v) => !v);
+  };
+
+  const handleCreate = async () => {
+    const trimmed = newName.trim();
+    if (!trimmed) return;
+    try {
+      await onCreate(trimmed);
+      setNewName('');
+      setError(null);
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  const handleRename = async (id: string) => {
+    const trimmed = editName.trim();
+    if (!trimmed) return;
+    try {
+      await onRename(id, trimmed);
+      setEditingId(null);
+      setError(null);
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  const visibleCount = collections.filter((c) => c.visible).length;
+
+  return (
+    <div ref={rootRef} className="relative shrink-0">
+      <button
+        onClick={toggleOpen}
+        className="flex items-center gap-1.5 px-2 py-1 rounded-md transition-colors text-[10px] font-bold uppercase tracking-wider"
+        style={{
+          backgroundColor: open ? theme.input : 'transparent',
+          color: open ? theme.accent : theme.muted,
+        }}
+      >
+        <Columns3 className="w-3.5 h-3.5" /> {t('collections.title')}
+      </button>
+
+      <AnimatePresence>
+        {open && (
+          <motion.div
+            initial={{ opacity: 0, y: -4 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: -4 }}
+            className="absolute right-0 top-full mt-2 z-50 w-80 rounded-xl border shadow-xl p-3 space-y-2"
+            style={{ backgroundColor: theme.card, borderColor: theme.border, color: theme.text }}
+          >
+            <p className="text-[10px] font-bold uppercase tracking-wider opacity-40 px-1">{t('collections.shownAsColumns')}</p>
+
+            <ul className="space-y-1 max-h-72 overflow-y-auto custom-scrollbar">
+              {collections.map((c) => (
+                <li
+                  key={c.id}
+                  className="flex items-center gap-2 rounded-lg px-2 py-1.5"
+                  style={{ backgroundColor: theme.input }}
+                >
+                  <button
+                    onClick={() => onToggleVisible(c.id)}
+                    // Keep at least one column on screen.
+                    disabled={c.visible && visibleCount <= 1}
+                    className="p-0.5 transition-opacity disabled:opacity-20"
+                    style={{ color: c.visible ? theme.accent : theme.muted }}
+                    title={c.visible ? t('collections.hide') : t('collections.show')}
+                  >
+                    {c.visible ? <Eye className="w-3.5 h-3.5" /> : <EyeOff className="w-3.5 h-3.5" />}
+                  </button>
+
+                  {editingId === c.id ? (
+                    <>
+                      <input
+                        autoFocus
+                        value={editName}
+                        onChange={(e) => setEditName(e.target.value)}
+                        onKeyDown={(e) => {
+                          if (e.key === 'Enter') handleRename(c.id);
+                          if (e.key === 'Escape') setEditingId(null);
+                        }}
+                        className="flex-1 min-w-0 h-6 border-none rounded px-1.5 text-xs focus:ring-1"
+                        style={{ backgroundColor: theme.card, color: theme.text, '--tw-ring-color': theme.accent } as React.CSSProperties}
+                      />
+                      <button onClick={() => handleRename(c.id)} className="p-0.5 opacity-60 hover:opacity-100">
+                        <Check className="w-3 h-3" />
+                      </button>
+                      <button onClick={() => setEditingId(null)} className="p-0.5 opacity-60 hover:opacity-100">
+                        <X className="w-3 h-3" />
+                      </button>
+                    </>
+                  ) : deleteConfirmId === c.id ? (
+                    <>
+                      <span className="flex-1 min-w-0 text-[10px] opacity-60 truncate">
+                        {t('collections.deleteConfirm', { count: c.count })}
+                      </span>
+                      <button
+                        onClick={() => setDeleteConfirmId(null)}
+                        className="px-2 py-0.5 rounded-md text-[10px] font-bold"
+                        style={{ backgroundColor: theme.card }}
+                      >
+                        {t('list.cancel')}
+                      </button>
+                      <button
+                        onClick={() => { onDelete(c.id); setDeleteConfirmId(null); }}
+                        className="px-2 py-0.5 rounded-md text-[10px] font-bold text-white bg-red-500 hover:bg-red-600"
+                      >
+                        {t('card.delete')}
+                      </button>
+                    </>
+                  ) : (
+                    <>
+                      <span className="flex-1 min-w-0 text-xs truncate">{collectionLabel(c, t)}</span>
+                      <span className="text-[10px] font-mono opacity-30">{c.count}</span>
+                      <button
+                        onClick={() => { setEditingId(c.id); setEditName(c.name); setDeleteConfirmId(null); }}
+                        className="p-0.5 opacity-40 hover:opacity-100 transition-opacity"
+                        title={t('collections.rename')}
+                      >
+                        <Pencil className="w-3 h-3" />
+                      </button>
+                      {!c.builtin && (
+                        <button
+                          onClick={() => { setDeleteConfirmId(c.id); setEditingId(null); }}
+                          className="p-0.5 opacity-40 hover:opacity-100 hover:text-red-500 transition-all"
+                          title={t('card.delete')}
+                        >
+                          <Trash2 className="w-3 h-3" />
+                        </button>
+                      )}
+                    </>
+                  )}
+                </li>
+              ))}
+            </ul>
+
+            {/* New collection */}
+            <div className="flex gap-2 pt-2 border-t" style={{ borderColor: theme.border }}>
+              <input
+                value={newName}
+                onChange={(e) => setNewName(e.target.value)}
+                onKeyDown={(e) => { if (e.key === 'Enter') handleCreate(); }}
+                placeholder={t('collections.newPlaceholder')}
+                className="flex-1 min-w-0 h-8 border-none rounded-lg px-2.5 text-xs focus:ring-1 placeholder:opacity-30"
+                style={{ backgroundColor: theme.input, color: theme.text, '--tw-ring-color': theme.accent } as React.CSSProperties}
+              />
+              <button
+                onClick={handleCreate}
+                disabled={!newName.trim()}
+                className="h-8 px-3 rounded-lg text-xs font-bold flex items-center gap-1 disabled:opacity-30 transition-opacity"
+                style={{ backgroundColor: theme.input, color: theme.accent }}
+              >
+                <Plus className="w-3 h-3" /> {t('collections.create')}
+              </button>
+            </div>
+
+            {error && <p className="text-[10px] text-red-500 px-1">{error}</p>}
+
+            {/* Export every collection at once */}
+            <div className="pt-2 border-t space-y-1.5" style={{ borderColor: theme.border }}>
+              <p className="text-[10px] font-bold uppercase tracking-wider opacity-40 px-1">{t('export.exportAll')}</p>
+              <ExportActions
+                theme={theme}
+                downloadLabel={t('export.downloadZip')}
+                folderEnabled={exportFolderEnabled}
+                onDownload={onExportAllDownload}
+                onWriteToFolder={onExportAllToFolder}
+              />
+            </div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+}
@@ -0,0 +1,247 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useEffect, useRef, useState } from 'react';
+import { DatabaseBackup, Download, FileJson, RotateCcw, Upload, X } from 'lucide-react';
+import { useTranslation } from 'react-i18next';
+import { BackupInfo, BackupSettings, Theme } from '../types';
+import { dbApi } from '../api/dbApi';
+import { reportApiError } from '../api/http';
+
+interface Props {
+  theme: Theme;
+  /** Called after a restore or import replaced the data, so the app can reload it. */
+  onRestored: () => void;
+}
+
+const formatSize = (bytes: number) =>
+  bytes < 1024 * 1024 ? `${Math.max(1, Math.round(bytes / 1024))} KB` : `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+
+/** Database snapshots (manual and scheduled), restoring one, and the portable JSON export/import. */
+export function DatabaseBackupSettings({ theme, onRestored }: Props) {
+  const { t } = useTranslation();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [backups, setBackups] = useState<BackupInfo[]>([]);
+  const [dir, setDir] = useState('');
+  const [settings, setSettings] = useState<BackupSettings | null>(null);
+  const [intervalDraft, setIntervalDraft] = useState('');
+  const [keepDraft, setKeepDraft] = useState('');
+  const [includeSecrets, setIncludeSecrets] = useState(false);
+  const [confirmRestore, setConfirmRestore] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState<{ text: string; error: boolean } | null>(null);
+
+  const refresh = () =>
+    dbApi.fetchBackups()
+      .then((data) => {
+        setBackups(data.backups);
+        setDir(data.dir);
+      })
+      .catch(reportApiError);
+
+  useEffect(() => {
+    refresh();
+    dbApi.fetchBackupSettings()
+      .then((s) => {
+        setSettings(s);
+        setIntervalDraft(String(s.intervalHours));
+        setKeepDraft(String(s.keep));
+      })
+      .catch(reportApiError);
+  }, []);
+
+  /** Runs an action, showing its outcome below the panel. */
+  const run = async (action: () => Promise<string>) => {
+    setBusy(true);
+    setMessage(null);
+    try {
+      setMessage({ text: await action(), error: false });
+    } catch (err) {
+      setMessage({ text: err instanceof Error ? err.message : String(err), error: true });
+    } finally {
+      setBusy(false);
+      refresh();
+    }
+  };
+
+  const backUpNow = () =>
+    run(async () => {
+      const backup = await dbApi.createBackup();
+      return t('backups.created', { name: backup.name });
+    });
+
+  const restore = (name: string) => {
+    setConfirmRestore(null);
+    run(async () => {
+      await dbApi.restoreBackup(name);
+      onRestored();
+      return t('backups.restored');
+    });
+  };
+
+  const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = () =>
+      run(async () => {
+        const imported = await dbApi.importDatabase(reader.result as string);
+        onRestored();
+        return t('backups.imported', { count: imported.wildcards ?? 0 });
+      });
+    reader.readAsText(file);
+  };
+
+  const remove = (name: string) => {
+    setBackups((prev) => prev.filter((b) => b.name !== name));
+    dbApi.removeBackup(name);
+  };
+
+  const commitSettings = async () => {
+    if (!settings) return;
+    const patch = { intervalHours: Number(intervalDraft), keep: Number(keepDraft) };
+    if (patch.intervalHours === settings.intervalHours && patch.keep === settings.keep) return;
+    try {
+      setSettings(await dbApi.updateBackupSettings(patch));
+      setMessage(null);
+      refresh();
+    } catch (err) {
+      setIntervalDraft(String(settings.intervalHours));
+      setKeepDraft(String(settings.keep));
+      setMessage({ text: (err as Error).message, error: true });
+    }
+  };
+
+  const numberInput = (value: string, setValue: (v: string) => void, min: number, max: number) => (
+    <input
+      type="number"
+      min={min}
+      max={max}
+      value={value}
+      onChange={(e) => setValue(e.target.value)}
+      onBlur={commitSettings}
+      onKeyDown={(e) => { if (e.key === 'Enter') e.currentTarget.blur(); }}
+      className="w-14 h-7 border-none rounded-lg px-2 text-xs font-mono focus:ring-1"
+      style={{ backgroundColor: theme.input, color: theme.text, '--tw-ring-color': theme.accent } as React.CSSProperties}
+    />
+  );
+
+  return (
+    <div className="space-y-1.5">
+      <div className="flex items-center justify-between">
+        <label className="text-[10px] font-bold uppercase tracking-wider opacity-40">{t('backups.label')}</label>
+        <span className="text-[10px] font-mono opacity-40">{t('backups.count', { count: backups.length })}</span>
+      </div>
+
+      <div className="flex gap-2">
+        <button
+          onClick={backUpNow}
+          disabled={busy}
+          className="flex-1 h-10 flex items-center justify-center gap-1.5 rounded-lg text-xs font-bold transition-all disabled:opacity-30"
+          style={{ backgroundColor: theme.input, color: theme.accent }}
+        >
+          <DatabaseBackup className="w-3.5 h-3.5" /> {t('backups.backUpNow')}
+        </button>
+        <a
+          href={dbApi.databaseExportUrl(includeSecrets)}
+          download
+          className="h-10 px-3 flex items-center gap-1.5 rounded-lg text-xs font-bold transition-all shrink-0"
+          style={{ backgroundColor: theme.input, color: theme.accent }}
+          title={t('backups.exportJsonNote')}
+        >
+          <FileJson className="w-3.5 h-3.5" /> {t('backups.exportJson')}
+        </a>
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          disabled={busy}
+          className="h-10 px-3 rounded-lg transition-all shrink-0 disabled:opacity-30"
+          style={{ backgroundColor: theme.input, color: theme.accent }}
+          title={t('backups.importJson')}
+        >
+          <Upload className="w-3.5 h-3.5" />
+        </button>
+        <input ref={fileInputRef} type="file" accept=".json,application/json" className="hidden" onChange={handleFile} />
+      </div>
+      <label className="flex items-center gap-2 text-[10px] cursor-pointer opacity-60">
+        <input
+          type="checkbox"
+          checked={includeSecrets}
+          onChange={(e) => setIncludeSecrets(e.target.checked)}
+          style={{ accentColor: theme.accent }}
+        />
+        {t('backups.includeSecrets')}
+      </label>
+
+      {/* Schedule */}
+      {settings && (
+        <div className="flex flex-wrap items-center gap-2 text-[10px]">
+          <span className="opacity-50">{t('backups.every')}</span>
+          {numberInput(intervalDraft, setIntervalDraft, 0, 720)}
+          <span className="opacity-50">{t('backups.hoursKeep')}</span>
+          {numberInput(keepDraft, setKeepDraft, 1, 100)}
+        </div>
+      )}
+
+      {/* Backups, newest first */}
+      {backups.length > 0 && (
+        <ul className="max-h-40 overflow-y-auto custom-scrollbar rounded-lg" style={{ backgroundColor: theme.input }}>
+          {backups.map((backup) => (
+            <li key={backup.name} className="flex items-center gap-2 px-3 py-1.5 text-[10px]">
+              <span className="flex-1 min-w-0 truncate">{new Date(backup.createdAt).toLocaleString()}</span>
+              <span className="opacity-40 shrink-0">{t(`backups.kind.${backup.kind}`)}</span>
+              <span className="font-mono opacity-40 shrink-0 w-14 text-right">{formatSize(backup.size)}</span>
+              {confirmRestore === backup.name ? (
+                <>
+                  <button onClick={() => setConfirmRestore(null)} className="px-1.5 font-bold opacity-50 hover:opacity-100">
+                    {t('list.cancel')}
+                  </button>
+                  <button
+                    onClick={() => restore(backup.name)}
+                    className="px-2 py-0.5 rounded-md font-bold text-white bg-red-500 hover:bg-red-600 transition-colors"
+                  >
+                    {t('backups.restoreConfirm')}
+                  </button>
+                </>
+              ) : (
+                <>
+                  <button
+                    onClick={() => setConfirmRestore(backup.name)}
+                    disabled={busy}
+                    className="p-1 rounded-md opacity-40 hover:opacity-100 transition-opacity disabled:opacity-20"
+                    title={t('backups.restore')}
+                  >
+                    <RotateCcw className="w-3 h-3" />
+                  </button>
+                  <a
+                    href={dbApi.backupUrl(backup.name)}
+                    download
+                    className="p-1 rounded-md opacity-40 hover:opacity-100 transition-opacity"
+                    title={t('backups.download')}
+                  >
+                    <Download className="w-3 h-3" />
+                  </a>
+                  <button
+                    onClick={() => remove(backup.name)}
+                    className="p-1 rounded-md opacity-40 hover:opacity-100 hover:text-red-500 transition-all"
+                    title={t('backups.delete')}
+                  >
+                    <X className="w-3 h-3" />
+                  </button>
+                </>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {busy && <p className="text-[9px] opacity-50">{t('backups.working')}</p>}
+      {message && (
+        <p className={`text-[9px] leading-relaxed break-words ${message.error ? 'text-red-500' : 'opacity-50'}`}>{message.text}</p>
+      )}
+      <p className="text-[9px] opacity-30 leading-relaxed">{t('backups.note', { dir })}</p>
+    </div>
+  );
+}
@@ -0,0 +1,74 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { DuplicateAction, DuplicateSettings, Theme } from '../types';
+
+interface Props {
+  theme: Theme;
+  settings: DuplicateSettings;
+  onUpdate: (patch: Partial<DuplicateSettings>) => void;
+}
+
+const ACTIONS: DuplicateAction[] = ['off', 'flag', 'drop'];
+
+/** Similarity threshold and what to do with near-duplicate generations; the threshold is saved on blur. */
+export function DuplicateDetectionSettings({ theme, settings, onUpdate }: Props) {
+  const { t } = useTranslation();
+  // Shown and edited as a percentage; stored as a 0–1 fraction.
+  const [draft, setDraft] = useState(() => String(Math.round(settings.threshold * 100)));
+
+  const commit = () => {
+    const percent = Number(draft);
+    if (!Number.isFinite(percent) || percent <= 0 || percent > 100) {
+      setDraft(String(Math.round(settings.threshold * 100)));
+      return;
+    }
+    if (percent / 100 !== settings.threshold) onUpdate({ threshold: percent / 100 });
+  };
+
+  return (
+    <div className="space-y-1.5">
+      <label className="text-[10px] font-bold uppercase tracking-wider opacity-40">{t('duplicates.settingsLabel')}</label>
+      <div className="flex gap-2">
+        <div className="relative w-24 shrink-0">
+          <input
+            type="number"
+            min="1"
+            max="100"
+            step="5"
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            onBlur={commit}
+            onKeyDown={(e) => { if (e.key === 'Enter') e.currentTarget.blur(); }}
+            title={t('duplicates.threshold')}
+            className="w-full h-8 border-none rounded-lg pl-2.5 pr-6 text-xs font-mono focus:ring-1 transition-all"
+            style={{
+              backgroundColor: theme.input,
+              color: theme.text,
+              '--tw-ring-color': theme.accent,
+            } as React.CSSProperties}
+          />
+          <span className="absolute right-2.5 top-1/2 -translate-y-1/2 text-[10px] opacity-30">%</span>
+        </div>
+        {ACTIONS.map((action) => (
+          <button
+            key={action}
+            onClick={() => { if (action !== settings.action) onUpdate({ action }); }}
+            className="flex-1 h-8 rounded-lg text-[10px] font-bold uppercase tracking-wider transition-all"
+            style={{
+              backgroundColor: settings.action === action ? theme.accent : theme.input,
+              color: settings.action === action ? (theme.id === 'dark' ? '#000' : '#fff') : theme.text,
+            }}
+          >
+            {t(`duplicates.action.${action}`)}
+          </button>
+        ))}
+      </div>
+      <p className="text-[9px] opacity-30 leading-relaxed">{t('duplicates.note')}</p>
+    </div>
+  );
+}
@@ -0,0 +1,74 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useState } from 'react';
+import { Download, FolderInput } from 'lucide-react';
+import { useTranslation } from 'react-i18next';
+import { Theme } from '../types';
+import type { ExportedFile } from '../api/contract';
+import { cn } from '../utils/cn';
+
+interface Props {
+  theme: Theme;
+  /** Label of the download button, e.g. "Download .txt" or "Download .zip". */
+  downloadLabel: string;
+  /** False when no wildcards folder is configured — disables writing to it. */
+  folderEnabled: boolean;
+  onDownload: () => void;
+  onWriteToFolder: () => Promise<ExportedFile[]>;
+}
+
+/** Download / write-to-folder buttons for wildcard file export, with a one-line result message. */
+export function ExportActions({ theme, downloadLabel, folderEnabled, onDownload, onWriteToFolder }: Props) {
+  const { t } = useTranslation();
+  const [status, setStatus] = useState<{ ok: boolean; message: string } | null>(null);
+  const [isWriting, setIsWriting] = useState(false);
+
+  const handleWrite = async () => {
+    setIsWriting(true);
+    try {
+      const files = await onWriteToFolder();
+      const wildcards = files.reduce((sum, f) => sum + f.count, 0);
+      setStatus({
+        ok: true,
+        message: files.length === 1
+          ? t('export.wroteFile', { file: files[0].name, count: wildcards })
+          : t('export.wroteFiles', { files: files.length, count: wildcards }),
+      });
+    } catch (err) {
+      setStatus({ ok: false, message: (err as Error).message });
+    } finally {
+      setIsWriting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-1.5">
+      <div className="flex gap-2">
+        <button
+          onClick={onDownload}
+          className="flex-1 flex items-center justify-center gap-1.5 px-2.5 py-1 rounded-md text-[10px] font-bold transition-colors"
+          style={{ backgroundColor: theme.input }}
+        >
+          <Download className="w-3 h-3" /> {downloadLabel}
+        </button>
+        <button
+          onClick={handleWrite}
+          disabled={!folderEnabled || isWriting}
+          title={folderEnabled ? undefined : t('export.noFolder')}
+          className="flex-1 flex items-center justify-center gap-1.5 px-2.5 py-1 rounded-md text-[10px] font-bold transition-colors disabled:opacity-30"
+          style={{ backgroundColor: theme.input }}
+        >
+          <FolderInput className="w-3 h-3" /> {t('export.writeToFolder')}
+        </button>
+      </div>
+      {status && (
+        <p className={cn('text-[10px] leading-tight', status.ok ? 'text-emerald-600' : 'text-red-500')}>
+          {status.message}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -8,27 +8,33 @@ import { Sparkles, Settings2, HelpCircle, KeyRound, FolderOpen } from 'lucide-re
 import { useTranslation } from 'react-i18next';
 import { Theme } from '../types';
 import { THEMES } from '../constants';
+import { NotificationsHandle } from '../hooks/useNotifications';
+import { NotificationCenter } from './NotificationCenter';
+import { SyncIndicator } from './SyncIndicator';
 
 interface Props {
   theme: Theme;
   themeId: string;
   setThemeId: (id: string) => void;
-  apiKey: string;
+  /** What the selected LLM provider still needs before it can generate, if anything. */
+  missingSetup: 'apiKey' | 'model' | null;
   galleryEnabled: boolean;
   showSettings: boolean;
   onToggleSettings: () => void;
   onShowGuide: () => void;
+  notifications: NotificationsHandle;
 }
 
 export function Header({
   theme,
   themeId,
   setThemeId,
-  apiKey,
+  missingSetup,
   galleryEnabled,
   showSettings,
   onToggleSettings,
   onShowGuide,
+  notifications,
 }: Props) {
   const { t, i18n } = useTranslation();
   const LANGUAGES = [
@@ -44,12 +50,13 @@ export function Header({
       className="h-14 border-b flex items-center justify-between px-6 shrink-0 transition-colors duration-300"
       style={{ backgroundColor: theme.sidebar, borderColor: theme.border }}
     >
-      {/* Left: logo + warning badges */}
+      {/* Left: logo + sync status + warning badges */}
       <div className="flex items-center gap-2">
         <Sparkles className="w-4 h-4" style={{ color: theme.accent }} />
         <h1 className="text-sm font-medium tracking-tight">{t('header.appName')}</h1>
+        <SyncIndicator theme={theme} />
 
-        {!apiKey.trim() && (
+        {missingSetup && (
           <button
             onClick={onToggleSettings}
             className="flex items-center gap-1 px-2 py-0.5 rounded-full text-[9px] font-bold uppercase tracking-wider border transition-opacity hover:opacity-80"
@@ -59,7 +66,7 @@ export function Header({
               backgroundColor: 'rgba(250,100,100,0.08)',
             }}
           >
-            <KeyRound className="w-2.5 h-2.5" /> {t('header.noApiKey')}
+            <KeyRound className="w-2.5 h-2.5" /> {missingSetup === 'apiKey' ? t('header.noApiKey') : t('header.noModel')}
           </button>
         )}
 
@@ -78,7 +85,7 @@ export function Header({
         )}
       </div>
 
-      {/* Right: theme picker + language picker + guide + settings */}
+      {/* Right: theme picker + language picker + notifications + guide + settings */}
       <div className="flex items-center gap-4">
         <div className="flex items-center gap-2">
           <label className="text-[10px] font-bold uppercase tracking-wider opacity-40">{t('header.theme')}</label>
@@ -116,6 +123,8 @@ export function Header({
           </select>
         </div>
 
+        <NotificationCenter theme={theme} notifications={notifications} />
+
         <button
           onClick={onShowGuide}
           className="flex items-center gap-1.5 px-3 py-2 rounded-md transition-colors hover:bg-black/5 text-[10px] font-bold uppercase tracking-wider"
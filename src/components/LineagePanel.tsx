@@ -0,0 +1,106 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useMemo, useState } from 'react';
+import { Sparkles, Copy } from 'lucide-react';
+import { useTranslation } from 'react-i18next';
+import { Theme, WildcardLineage } from '../types';
+import { cn } from '../utils/cn';
+import { tagDiff } from '../utils/tagDiff';
+
+interface Props {
+  theme: Theme;
+  /** The card the panel was opened from; selected initially. */
+  currentId: string;
+  lineage: WildcardLineage;
+}
+
+type Node = WildcardLineage['nodes'][number];
+
+/** Refine/copy tree of a wildcard, plus a tag diff of the selected node against the one it came from. */
+export function LineagePanel({ theme, currentId, lineage }: Props) {
+  const { t } = useTranslation();
+  const [selectedId, setSelectedId] = useState(currentId);
+
+  const { byId, children } = useMemo(() => {
+    const byId = new Map(lineage.nodes.map((n) => [n.id, n]));
+    const children = new Map<string, Node[]>();
+    for (const n of lineage.nodes) {
+      const source = n.parentId ?? n.copiedFrom;
+      if (!source || n.id === lineage.rootId) continue;
+      children.set(source, [...(children.get(source) ?? []), n]);
+    }
+    return { byId, children };
+  }, [lineage]);
+
+  const selected = byId.get(selectedId);
+  const source = selected && selected.id !== lineage.rootId
+    ? byId.get(selected.parentId ?? selected.copiedFrom ?? '')
+    : undefined;
+  const diff = selected && source ? tagDiff(source.text, selected.text) : null;
+
+  const renderNode = (node: Node, depth: number): React.ReactNode => (
+    <React.Fragment key={node.id}>
+      <button
+        onClick={() => setSelectedId(node.id)}
+        className={cn('w-full flex items-start gap-1.5 text-left rounded-md px-1.5 py-1 transition-colors', node.id !== selectedId && 'hover:bg-black/5')}
+        style={{
+          paddingLeft: `${depth * 12 + 6}px`,
+          backgroundColor: node.id === selectedId ? theme.input : undefined,
+        }}
+        title={node.text}
+      >
+        {node.id === lineage.rootId ? (
+          <span className="w-2.5 h-2.5 mt-0.5 shrink-0 flex items-center justify-center">
+            <span className="w-1.5 h-1.5 rounded-full" style={{ backgroundColor: theme.accent }} />
+          </span>
+        ) : node.parentId ? (
+          <Sparkles className="w-2.5 h-2.5 mt-0.5 shrink-0 opacity-50" />
+        ) : (
+          <Copy className="w-2.5 h-2.5 mt-0.5 shrink-0 opacity-50" />
+        )}
+        <span className={cn('text-[10px] font-mono leading-relaxed line-clamp-1 break-all', node.id === currentId ? 'opacity-90 font-bold' : 'opacity-50')}>
+          {node.text}
+        </span>
+      </button>
+      {(children.get(node.id) ?? []).map((child) => renderNode(child, depth + 1))}
+    </React.Fragment>
+  );
+
+  const root = byId.get(lineage.rootId);
+
+  return (
+    <div className="space-y-2">
+      <div className="space-y-0.5 max-h-40 overflow-y-auto custom-scrollbar">
+        {root && renderNode(root, 0)}
+      </div>
+
+      {selected && (
+        <div className="space-y-1 border-t pt-2" style={{ borderColor: theme.border }}>
+          {!source ? (
+            <p className="text-[10px] opacity-30">{t('card.lineageRoot')}</p>
+          ) : diff && diff.added.length === 0 && diff.removed.length === 0 ? (
+            <p className="text-[10px] opacity-30">{t('card.lineageIdentical')}</p>
+          ) : diff && (
+            <>
+              <p className="text-[9px] font-bold uppercase tracking-wider opacity-30">
+                {selected.parentId ? t('card.lineageDiffRefine') : t('card.lineageDiffCopy')}
+              </p>
+              <div className="flex flex-wrap gap-1">
+                {diff.added.map((tag) => (
+                  <span key={`+${tag}`} className="px-1.5 py-0.5 rounded text-[9px] font-mono bg-green-500/10 text-green-600">+{tag}</span>
+                ))}
+                {diff.removed.map((tag) => (
+                  <span key={`-${tag}`} className="px-1.5 py-0.5 rounded text-[9px] font-mono bg-red-500/10 text-red-500 line-through">{tag}</span>
+                ))}
+              </div>
+              <p className="text-[9px] opacity-30">{t('card.lineageKept', { count: diff.kept.length })}</p>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,52 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React from 'react';
+import { ShieldAlert } from 'lucide-react';
+import { useTranslation } from 'react-i18next';
+import { Theme } from '../types';
+import { LINT_CODES } from '../utils/tagLint';
+
+interface Props {
+  theme: Theme;
+  searchQuery: string;
+  setSearchQuery: (q: string) => void;
+}
+
+// A positive lint: term; negated ones (-lint:…) are left for the user to manage.
+const LINT_TERM = /(^|\s)lint:([\w-]+)(?=\s|$)/i;
+
+/** Picks the `lint:` term of the search query, so the filter composes with the rest of the search. */
+export function LintFilter({ theme, searchQuery, setSearchQuery }: Props) {
+  const { t } = useTranslation();
+  const current = LINT_TERM.exec(searchQuery)?.[2].toLowerCase() ?? '';
+
+  const select = (value: string) => {
+    const rest = searchQuery.replace(new RegExp(LINT_TERM, 'gi'), ' ').replace(/\s+/g, ' ').trim();
+    setSearchQuery(value ? `${rest} lint:${value}`.trim() : rest);
+  };
+
+  return (
+    <label
+      className="flex items-center gap-1.5 px-2 py-1 rounded-md text-[10px] font-bold uppercase tracking-wider shrink-0"
+      style={{ color: current ? theme.text : theme.muted }}
+      title={t('lint.filterHint')}
+    >
+      <ShieldAlert className="w-3.5 h-3.5" />
+      <select
+        value={current}
+        onChange={(e) => select(e.target.value)}
+        className="bg-transparent border-none text-[10px] font-bold uppercase tracking-wider focus:ring-0 p-0 pr-5 cursor-pointer"
+        style={{ color: 'inherit' }}
+      >
+        <option value="">{t('lint.filterOff')}</option>
+        <option value="any">{t('lint.filterAny')}</option>
+        {LINT_CODES.map((code) => (
+          <option key={code} value={code}>{t(`lint.names.${code}`)}</option>
+        ))}
+      </select>
+    </label>
+  );
+}
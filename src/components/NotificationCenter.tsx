@@ -0,0 +1,110 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useEffect, useRef, useState } from 'react';
+import { Bell } from 'lucide-react';
+import { motion, AnimatePresence } from 'motion/react';
+import { useTranslation } from 'react-i18next';
+import { Theme } from '../types';
+import { NotificationsHandle } from '../hooks/useNotifications';
+import { NotificationIcon } from './NotificationIcon';
+
+interface Props {
+  theme: Theme;
+  notifications: NotificationsHandle;
+}
+
+/** Header bell with the unread count; opens the log of recent notifications, where failed saves can be retried. */
+export function NotificationCenter({ theme, notifications }: Props) {
+  const { t } = useTranslation();
+  const { log, unread, retry, markRead, clear } = notifications;
+  const [open, setOpen] = useState(false);
+  const rootRef = useRef<HTMLDivElement>(null);
+
+  // Close when clicking anywhere outside the panel.
+  useEffect(() => {
+    if (!open) return;
+    const onDown = (e: MouseEvent) => {
+      if (rootRef.current && !rootRef.current.contains(e.target as Node)) setOpen(false);
+    };
+    document.addEventListener('mousedown', onDown);
+    return () => document.removeEventListener('mousedown', onDown);
+  }, [open]);
+
+  // Whatever arrives while the panel is open counts as seen.
+  useEffect(() => {
+    if (open) markRead();
+  }, [open, log, markRead]);
+
+  return (
+    <div ref={rootRef} className="relative">
+      <button
+        onClick={() => setOpen((v) => !v)}
+        className="relative flex items-center p-2 rounded-md transition-colors"
+        style={{
+          backgroundColor: open ? theme.input : 'transparent',
+          color: open ? theme.accent : theme.muted,
+        }}
+        title={t('notifications.title')}
+      >
+        <Bell className="w-4 h-4" />
+        {unread > 0 && (
+          <span
+            className="absolute -top-0.5 -right-0.5 min-w-4 h-4 px-1 rounded-full text-[9px] font-bold leading-4 text-center text-white bg-red-500"
+          >
+            {unread > 9 ? '9+' : unread}
+          </span>
+        )}
+      </button>
+
+      <AnimatePresence>
+        {open && (
+          <motion.div
+            initial={{ opacity: 0, y: -4 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: -4 }}
+            className="absolute right-0 top-full mt-2 z-50 w-96 rounded-xl border shadow-xl p-3 space-y-2"
+            style={{ backgroundColor: theme.card, borderColor: theme.border, color: theme.text }}
+          >
+            <div className="flex items-center justify-between px-1">
+              <p className="text-[10px] font-bold uppercase tracking-wider opacity-40">{t('notifications.title')}</p>
+              {log.length > 0 && (
+                <button onClick={clear} className="text-[10px] font-bold opacity-50 hover:opacity-100 transition-opacity">
+                  {t('notifications.clear')}
+                </button>
+              )}
+            </div>
+
+            {log.length === 0 ? (
+              <p className="text-xs opacity-40 px-1 py-4 text-center">{t('notifications.empty')}</p>
+            ) : (
+              <ul className="space-y-1 max-h-96 overflow-y-auto custom-scrollbar">
+                {log.map((n) => (
+                  <li key={n.id} className="flex items-start gap-2 rounded-lg px-2 py-1.5" style={{ backgroundColor: theme.input }}>
+                    <NotificationIcon kind={n.kind} theme={theme} />
+                    <div className="flex-1 min-w-0 text-xs">
+                      <p className="font-bold">{n.title}</p>
+                      {n.message && <p className="opacity-60 break-words">{n.message}</p>}
+                      <p className="text-[9px] font-mono opacity-30">{new Date(n.createdAt).toLocaleTimeString()}</p>
+                    </div>
+                    {n.retry && (
+                      <button
+                        onClick={() => retry(n.id)}
+                        className="px-2 py-0.5 rounded-md text-[10px] font-bold shrink-0 transition-colors"
+                        style={{ color: theme.accent }}
+                      >
+                        {t('notifications.retry')}
+                      </button>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+}
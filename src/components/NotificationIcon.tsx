@@ -0,0 +1,14 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React from 'react';
+import { AlertTriangle, CheckCircle2, Info } from 'lucide-react';
+import { NotificationKind, Theme } from '../types';
+
+export function NotificationIcon({ kind, theme }: { kind: NotificationKind; theme: Theme }) {
+  if (kind === 'error') return <AlertTriangle className="w-4 h-4 mt-0.5 shrink-0 text-red-500" />;
+  if (kind === 'success') return <CheckCircle2 className="w-4 h-4 mt-0.5 shrink-0 text-emerald-600" />;
+  return <Info className="w-4 h-4 mt-0.5 shrink-0" style={{ color: theme.accent }} />;
+}
@@ -0,0 +1,64 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React from 'react';
+import { X } from 'lucide-react';
+import { motion, AnimatePresence } from 'motion/react';
+import { useTranslation } from 'react-i18next';
+import { AppNotification, Theme } from '../types';
+import { NotificationIcon } from './NotificationIcon';
+
+interface Props {
+  theme: Theme;
+  toasts: AppNotification[];
+  onRetry: (id: number) => void;
+  onDismiss: (id: number) => void;
+}
+
+/** Bottom-left stack of the newest notifications; each leaves on its own after a few seconds. */
+export function NotificationToasts({ theme, toasts, onRetry, onDismiss }: Props) {
+  const { t } = useTranslation();
+
+  return (
+    <div className="fixed bottom-6 left-6 z-[150] flex flex-col-reverse gap-2 w-80">
+      <AnimatePresence initial={false}>
+        {toasts.map((n) => (
+          <motion.div
+            key={n.id}
+            layout
+            initial={{ opacity: 0, y: 16 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, x: -16 }}
+            role={n.kind === 'error' ? 'alert' : 'status'}
+            className="flex items-start gap-3 pl-4 pr-2 py-2 rounded-xl shadow-2xl border"
+            style={{ backgroundColor: theme.card, borderColor: theme.border, color: theme.text }}
+          >
+            <NotificationIcon kind={n.kind} theme={theme} />
+            <div className="flex-1 min-w-0 text-xs">
+              <p className="font-bold">{n.title}</p>
+              {n.message && <p className="opacity-60 break-words line-clamp-3">{n.message}</p>}
+            </div>
+            {n.retry && (
+              <button
+                onClick={() => onRetry(n.id)}
+                className="px-2.5 py-1 rounded-md text-[10px] font-bold uppercase tracking-wider transition-colors shrink-0"
+                style={{ backgroundColor: theme.accent, color: theme.id === 'dark' ? '#000' : '#fff' }}
+              >
+                {t('notifications.retry')}
+              </button>
+            )}
+            <button
+              onClick={() => onDismiss(n.id)}
+              className="p-1 rounded-md opacity-40 hover:opacity-100 transition-opacity shrink-0"
+              title={t('notifications.dismiss')}
+            >
+              <X className="w-3 h-3" />
+            </button>
+          </motion.div>
+        ))}
+      </AnimatePresence>
+    </div>
+  );
+}
@@ -0,0 +1,159 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useState } from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import { useTranslation } from 'react-i18next';
+import { ModelPricing, ProviderId, Theme } from '../types';
+
+type Rates = Pick<ModelPricing, 'inputPerMTok' | 'outputPerMTok' | 'imagePerMTok'>;
+
+const RATE_FIELDS: (keyof Rates)[] = ['inputPerMTok', 'outputPerMTok', 'imagePerMTok'];
+
+interface Props {
+  theme: Theme;
+  provider: ProviderId;
+  /** Entries of every provider; only the current provider's are shown. */
+  pricing: ModelPricing[];
+  onSave: (entry: Omit<ModelPricing, 'id'>) => Promise<void>;
+  onRemove: (id: string) => void;
+}
+
+interface RowProps {
+  theme: Theme;
+  entry: ModelPricing;
+  onSave: Props['onSave'];
+  onRemove: Props['onRemove'];
+}
+
+/** One model's rates; a rate is saved when its field loses focus. */
+function PricingRow({ theme, entry, onSave, onRemove }: RowProps) {
+  const { t } = useTranslation();
+  const [draft, setDraft] = useState<Record<keyof Rates, string>>({
+    inputPerMTok: String(entry.inputPerMTok),
+    outputPerMTok: String(entry.outputPerMTok),
+    imagePerMTok: String(entry.imagePerMTok),
+  });
+
+  const commit = (field: keyof Rates) => {
+    const value = Number(draft[field]);
+    if (draft[field].trim() === '' || !Number.isFinite(value) || value < 0) {
+      // Invalid input falls back to the saved rate.
+      setDraft((d) => ({ ...d, [field]: String(entry[field]) }));
+      return;
+    }
+    if (value === entry[field]) return;
+    const { id: _id, ...rest } = entry;
+    onSave({ ...rest, [field]: value });
+  };
+
+  return (
+    <tr className="group">
+      <td className="py-1 pr-2 text-[10px] font-mono truncate max-w-0 w-full" title={entry.model}>{entry.model}</td>
+      {RATE_FIELDS.map((field) => (
+        <td key={field} className="py-1 pr-1">
+          <input
+            type="number"
+            min="0"
+            step="0.01"
+            value={draft[field]}
+            onChange={(e) => setDraft((d) => ({ ...d, [field]: e.target.value }))}
+            onBlur={() => commit(field)}
+            onKeyDown={(e) => { if (e.key === 'Enter') e.currentTarget.blur(); }}
+            className="w-16 h-7 border-none rounded-md px-2 text-[10px] font-mono focus:ring-1 transition-all"
+            style={{
+              backgroundColor: theme.input,
+              color: theme.text,
+              '--tw-ring-color': theme.accent,
+            } as React.CSSProperties}
+          />
+        </td>
+      ))}
+      <td className="py-1">
+        <button
+          onClick={() => onRemove(entry.id)}
+          className="p-1 opacity-0 group-hover:opacity-40 hover:!opacity-100 hover:text-red-500 transition-all"
+          title={t('settings.pricingRemove')}
+        >
+          <Trash2 className="w-3 h-3" />
+        </button>
+      </td>
+    </tr>
+  );
+}
+
+/**
+ * Editable rates (USD per million tokens) of the current provider's models.
+ * Models without an entry are not priced, so their calls cost $0.
+ */
+export function PricingTable({ theme, provider, pricing, onSave, onRemove }: Props) {
+  const { t } = useTranslation();
+  const [newModel, setNewModel] = useState('');
+  const rows = pricing.filter((p) => p.provider === provider);
+
+  const addModel = async () => {
+    const model = newModel.trim();
+    if (!model) return;
+    await onSave({ provider, model, inputPerMTok: 0, outputPerMTok: 0, imagePerMTok: 0 });
+    setNewModel('');
+  };
+
+  return (
+    <div className="space-y-1.5">
+      <label className="text-[10px] font-bold uppercase tracking-wider opacity-40">{t('settings.pricingLabel')}</label>
+      <table className="w-full table-fixed">
+        <thead>
+          <tr className="text-[9px] font-bold uppercase tracking-wider opacity-30 text-left">
+            <th className="pb-1 font-bold">{t('settings.pricingModel')}</th>
+            <th className="pb-1 w-[4.25rem] font-bold">{t('settings.pricingInput')}</th>
+            <th className="pb-1 w-[4.25rem] font-bold">{t('settings.pricingOutput')}</th>
+            <th className="pb-1 w-[4.25rem] font-bold">{t('settings.pricingImage')}</th>
+            <th className="pb-1 w-6" />
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((entry) => (
+            // Keyed on the rates too so a saved change resets the row's drafts.
+            <PricingRow
+              key={`${entry.id}:${entry.inputPerMTok}:${entry.outputPerMTok}:${entry.imagePerMTok}`}
+              theme={theme}
+              entry={entry}
+              onSave={onSave}
+              onRemove={onRemove}
+            />
+          ))}
+        </tbody>
+      </table>
+      {rows.length === 0 && (
+        <p className="text-[10px] opacity-30 italic">{t('settings.pricingEmpty')}</p>
+      )}
+      <div className="flex gap-2">
+        <input
+          type="text"
+          value={newModel}
+          onChange={(e) => setNewModel(e.target.value)}
+          onKeyDown={(e) => { if (e.key === 'Enter') addModel(); }}
+          placeholder={t('settings.pricingAddPlaceholder')}
+          className="flex-1 h-8 border-none rounded-lg px-3 text-xs focus:ring-1 transition-all"
+          style={{
+            backgroundColor: theme.input,
+            color: theme.text,
+            '--tw-ring-color': theme.accent,
+          } as React.CSSProperties}
+        />
+        <button
+          onClick={addModel}
+          disabled={!newModel.trim()}
+          className="h-8 px-3 rounded-lg text-xs font-bold transition-all shrink-0 disabled:opacity-30 flex items-center gap-1"
+          style={{ backgroundColor: theme.input, color: theme.accent }}
+        >
+          <Plus className="w-3 h-3" />
+          {t('settings.pricingAdd')}
+        </button>
+      </div>
+      <p className="text-[9px] opacity-30 leading-relaxed">{t('settings.pricingNote')}</p>
+    </div>
+  );
+}
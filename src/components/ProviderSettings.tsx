@@ -0,0 +1,183 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useState } from 'react';
+import { KeyRound, Link, Cpu } from 'lucide-react';
+import { useTranslation } from 'react-i18next';
+import { LlmConfig, LlmConfigPatch, ProviderId, Theme } from '../types';
+
+interface Props {
+  theme: Theme;
+  config: LlmConfig;
+  /** Resolves with false if the change wasn't saved. */
+  onApply: (patch: LlmConfigPatch) => Promise<boolean>;
+}
+
+const PROVIDERS: ProviderId[] = ['gemini', 'openai'];
+
+/**
+ * Provider picker plus its settings: the Gemini API key, or the base URL, model
+ * and optional key of an OpenAI-compatible endpoint. Saved keys are never loaded
+ * back — the key fields only take a replacement.
+ */
+export function ProviderSettings({ theme, config, onApply }: Props) {
+  const { t } = useTranslation();
+  // Inputs start from the saved config each time Settings opens (the overlay remounts).
+  const [geminiKey, setGeminiKey] = useState('');
+  const [baseUrl, setBaseUrl] = useState(config.openaiBaseUrl);
+  const [model, setModel] = useState(config.openaiModel);
+  const [openaiKey, setOpenaiKey] = useState('');
+
+  const inputStyle = {
+    backgroundColor: theme.input,
+    color: theme.text,
+    '--tw-ring-color': theme.accent,
+  } as React.CSSProperties;
+  const inputClass = 'w-full h-10 border-none rounded-lg pl-8 pr-4 text-xs focus:ring-1 transition-all';
+  const labelClass = 'text-[10px] font-bold uppercase tracking-wider opacity-40';
+
+  const applyGeminiKey = async (key: string) => {
+    // A key that wasn't saved stays in the input so it can be applied again.
+    if (await onApply({ apiKey: key })) setGeminiKey('');
+  };
+
+  const applyOpenAi = async () => {
+    const saved = await onApply({
+      openaiBaseUrl: baseUrl.trim(),
+      openaiModel: model.trim(),
+      // Blank keeps the saved key.
+      ...(openaiKey.trim() && { openaiApiKey: openaiKey.trim() }),
+    });
+    if (saved) setOpenaiKey('');
+  };
+
+  return (
+    <div className="space-y-4">
+      {/* Provider */}
+      <div className="space-y-1.5">
+        <label className={labelClass}>{t('settings.providerLabel')}</label>
+        <div className="flex gap-2">
+          {PROVIDERS.map((p) => (
+            <button
+              key={p}
+              onClick={() => { if (p !== config.provider) onApply({ provider: p }); }}
+              className="flex-1 h-8 rounded-lg text-[10px] font-bold uppercase tracking-wider transition-all"
+              style={{
+                backgroundColor: config.provider === p ? theme.accent : theme.input,
+                color: config.provider === p ? (theme.id === 'dark' ? '#000' : '#fff') : theme.text,
+              }}
+            >
+              {t(`settings.provider.${p}`)}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {config.provider === 'gemini' ? (
+        /* Gemini API key */
+        <div className="space-y-1.5">
+          <label className={labelClass}>{t('settings.apiKeyLabel')}</label>
+          <div className="flex gap-2">
+            <div className="relative flex-1">
+              <KeyRound className="absolute left-3 top-1/2 -translate-y-1/2 w-3 h-3 opacity-30" />
+              <input
+                type="password"
+                value={geminiKey}
+                onChange={(e) => setGeminiKey(e.target.value)}
+                onKeyDown={(e) => { if (e.key === 'Enter' && geminiKey.trim()) applyGeminiKey(geminiKey.trim()); }}
+                placeholder={config.hasApiKey ? t('settings.apiKeySavedPlaceholder') : t('settings.apiKeyPlaceholder')}
+                className={inputClass}
+                style={inputStyle}
+              />
+            </div>
+            <button
+              onClick={() => applyGeminiKey(geminiKey.trim())}
+              disabled={!geminiKey.trim()}
+              className="h-10 px-4 rounded-lg text-xs font-bold transition-all shrink-0 disabled:opacity-30"
+              style={{ backgroundColor: theme.input, color: theme.accent }}
+            >
+              {t('settings.apply')}
+            </button>
+            {config.hasApiKey && (
+              <button
+                onClick={() => applyGeminiKey('')}
+                className="h-10 px-4 rounded-lg text-xs font-bold transition-all shrink-0 hover:text-red-500"
+                style={{ backgroundColor: theme.input }}
+              >
+                {t('settings.removeApiKey')}
+              </button>
+            )}
+          </div>
+        </div>
+      ) : (
+        /* OpenAI-compatible endpoint */
+        <div className="space-y-2">
+          <div className="space-y-1.5">
+            <label className={labelClass}>{t('settings.baseUrlLabel')}</label>
+            <div className="relative">
+              <Link className="absolute left-3 top-1/2 -translate-y-1/2 w-3 h-3 opacity-30" />
+              <input
+                type="text"
+                value={baseUrl}
+                onChange={(e) => setBaseUrl(e.target.value)}
+                placeholder="http://localhost:11434/v1"
+                className={inputClass}
+                style={inputStyle}
+              />
+            </div>
+          </div>
+          <div className="space-y-1.5">
+            <label className={labelClass}>{t('settings.modelLabel')}</label>
+            <div className="relative">
+              <Cpu className="absolute left-3 top-1/2 -translate-y-1/2 w-3 h-3 opacity-30" />
+              <input
+                type="text"
+                value={model}
+                onChange={(e) => setModel(e.target.value)}
+                placeholder={t('settings.modelPlaceholder')}
+                className={inputClass}
+                style={inputStyle}
+              />
+            </div>
+          </div>
+          <div className="space-y-1.5">
+            <label className={labelClass}>{t('settings.openaiKeyLabel')}</label>
+            <div className="flex gap-2">
+              <div className="relative flex-1">
+                <KeyRound className="absolute left-3 top-1/2 -translate-y-1/2 w-3 h-3 opacity-30" />
+                <input
+                  type="password"
+                  value={openaiKey}
+                  onChange={(e) => setOpenaiKey(e.target.value)}
+                  placeholder={config.hasOpenaiApiKey ? t('settings.apiKeySavedPlaceholder') : t('settings.openaiKeyPlaceholder')}
+                  className={inputClass}
+                  style={inputStyle}
+                />
+              </div>
+              {config.hasOpenaiApiKey && (
+                <button
+                  onClick={() => onApply({ openaiApiKey: '' })}
+                  className="h-10 px-4 rounded-lg text-xs font-bold transition-all shrink-0 hover:text-red-500"
+                  style={{ backgroundColor: theme.input }}
+                >
+                  {t('settings.removeApiKey')}
+                </button>
+              )}
+            </div>
+          </div>
+          <button
+            onClick={applyOpenAi}
+            disabled={!baseUrl.trim() || !model.trim()}
+            className="w-full h-9 rounded-lg text-xs font-bold transition-all disabled:opacity-30"
+            style={{ backgroundColor: theme.input, color: theme.accent }}
+          >
+            {t('settings.apply')}
+          </button>
+          <p className="text-[9px] opacity-30 leading-relaxed">{t('settings.openaiNote')}</p>
+        </div>
+      )}
+    </div>
+  );
+}
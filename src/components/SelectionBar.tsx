@@ -0,0 +1,232 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useState } from 'react';
+import { Save, FolderInput, Tags, Download, ClipboardCopy, Trash2, Check, X } from 'lucide-react';
+import { Trans, useTranslation } from 'react-i18next';
+import { Theme, WildcardItem } from '../types';
+import type { SaveTarget } from './WildcardList';
+
+interface Props {
+  theme: Theme;
+  /** Selected wildcards, in list order. */
+  items: WildcardItem[];
+  /** Number of wildcards loaded in the list (what Select all picks). */
+  loadedCount: number;
+  /** Collections the selection can be saved (copied) or moved into. */
+  targets: SaveTarget[];
+  /** File name used by Export, without extension. */
+  exportName: string;
+  onSelectAll: () => void;
+  onClearSelection: () => void;
+  onCopyTo: (ids: string[], targetId: string) => Promise<unknown>;
+  onMoveTo: (ids: string[], targetId: string) => void;
+  onEditTags: (ids: string[], tags: { add: string[]; remove: string[] }) => Promise<unknown>;
+  onDelete: (ids: string[]) => void;
+}
+
+type Panel = 'copy' | 'move' | 'tags' | 'delete' | null;
+
+const splitTags = (value: string) => value.split(',').map((t) => t.trim()).filter(Boolean);
+
+/** Bulk actions for the cards selected in a wildcard list; shown in the list header while anything is selected. */
+export function SelectionBar({
+  theme,
+  items,
+  loadedCount,
+  targets,
+  exportName,
+  onSelectAll,
+  onClearSelection,
+  onCopyTo,
+  onMoveTo,
+  onEditTags,
+  onDelete,
+}: Props) {
+  const { t } = useTranslation();
+  const [panel, setPanel] = useState<Panel>(null);
+  const [addTags, setAddTags] = useState('');
+  const [removeTags, setRemoveTags] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [copied, setCopied] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const ids = items.map((i) => i.id);
+
+  const open = (next: Panel) => {
+    setPanel((current) => (current === next ? null : next));
+    setError(null);
+  };
+
+  /** Runs an action that needs the server's answer; the panel closes once it succeeds. */
+  const run = async (action: () => Promise<unknown>) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await action();
+      setPanel(null);
+      setAddTags('');
+      setRemoveTags('');
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const lines = () => items.map((i) => i.text).join('\n');
+
+  const copyLines = () => {
+    navigator.clipboard.writeText(lines());
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  // Same format as the collection export: one wildcard per line.
+  const exportSelection = () => {
+    const url = URL.createObjectURL(new Blob([lines() + '\n'], { type: 'text/plain' }));
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `${exportName}.txt`;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const buttonClass =
+    'flex items-center gap-1 px-2 py-1 border rounded-md text-[10px] font-medium transition-colors disabled:opacity-30';
+  const buttonStyle = (active = false) => ({
+    backgroundColor: active ? theme.accent : theme.input,
+    borderColor: active ? theme.accent : theme.border,
+    color: active ? (theme.id === 'dark' ? '#000' : '#fff') : theme.text,
+  });
+  const inputStyle = {
+    backgroundColor: theme.input,
+    color: theme.text,
+    '--tw-ring-color': theme.accent,
+  } as React.CSSProperties;
+
+  return (
+    <div className="px-4 pb-3 border-t pt-3 space-y-2" style={{ borderColor: theme.border }}>
+      <div className="flex items-center gap-2 text-[10px]">
+        <span className="font-bold" style={{ color: theme.accent }}>{t('selection.count', { count: items.length })}</span>
+        {items.length < loadedCount && (
+          <button onClick={onSelectAll} className="opacity-50 hover:opacity-100 transition-opacity underline">
+            {t('selection.selectAll', { count: loadedCount })}
+          </button>
+        )}
+        <span className="flex-1" />
+        <button
+          onClick={onClearSelection}
+          className="p-1 rounded-md opacity-40 hover:opacity-100 transition-opacity"
+          title={t('selection.clear')}
+        >
+          <X className="w-3 h-3" />
+        </button>
+      </div>
+
+      <div className="flex flex-wrap gap-1">
+        <button onClick={() => open('copy')} disabled={targets.length === 0} className={buttonClass} style={buttonStyle(panel === 'copy')}>
+          <Save className="w-3 h-3" /> {t('selection.saveTo')}
+        </button>
+        <button onClick={() => open('move')} disabled={targets.length === 0} className={buttonClass} style={buttonStyle(panel === 'move')}>
+          <FolderInput className="w-3 h-3" /> {t('selection.moveTo')}
+        </button>
+        <button onClick={() => open('tags')} className={buttonClass} style={buttonStyle(panel === 'tags')}>
+          <Tags className="w-3 h-3" /> {t('selection.tags')}
+        </button>
+        <button onClick={exportSelection} className={buttonClass} style={buttonStyle()}>
+          <Download className="w-3 h-3" /> {t('export.export')}
+        </button>
+        <button onClick={copyLines} className={buttonClass} style={buttonStyle()}>
+          {copied ? <Check className="w-3 h-3" /> : <ClipboardCopy className="w-3 h-3" />}
+          {copied ? t('selection.copied') : t('selection.copyLines')}
+        </button>
+        <button
+          onClick={() => open('delete')}
+          className={`${buttonClass} hover:bg-red-500 hover:text-white`}
+          style={buttonStyle(panel === 'delete')}
+        >
+          <Trash2 className="w-3 h-3" /> {t('card.delete')}
+        </button>
+      </div>
+
+      {/* Target picker for Save to / Move to */}
+      {(panel === 'copy' || panel === 'move') && (
+        <div className="flex flex-wrap items-center gap-1">
+          {targets.map((target) => (
+            <button
+              key={target.id}
+              disabled={busy}
+              onClick={() => {
+                if (panel === 'copy') run(() => onCopyTo(ids, target.id));
+                else {
+                  onMoveTo(ids, target.id);
+                  setPanel(null);
+                }
+              }}
+              className="px-2 py-1 border rounded-md text-[10px] font-medium transition-colors max-w-[10rem] truncate disabled:opacity-30"
+              style={{ backgroundColor: theme.input, borderColor: theme.border }}
+            >
+              {target.label}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {/* Tag operations */}
+      {panel === 'tags' && (
+        <div className="space-y-1.5">
+          <input
+            type="text"
+            value={addTags}
+            onChange={(e) => setAddTags(e.target.value)}
+            placeholder={t('selection.addTags')}
+            className="w-full h-8 border-none rounded-lg px-2.5 text-[11px] font-mono focus:ring-1"
+            style={inputStyle}
+          />
+          <input
+            type="text"
+            value={removeTags}
+            onChange={(e) => setRemoveTags(e.target.value)}
+            placeholder={t('selection.removeTags')}
+            className="w-full h-8 border-none rounded-lg px-2.5 text-[11px] font-mono focus:ring-1"
+            style={inputStyle}
+          />
+          <button
+            onClick={() => run(() => onEditTags(ids, { add: splitTags(addTags), remove: splitTags(removeTags) }))}
+            disabled={busy || splitTags(addTags).length + splitTags(removeTags).length === 0}
+            className="flex items-center gap-1 px-2 py-1 rounded-md text-[10px] font-bold transition-colors disabled:opacity-30"
+            style={{ backgroundColor: theme.accent, color: theme.id === 'dark' ? '#000' : '#fff' }}
+          >
+            <Check className="w-3 h-3" /> {t('selection.applyTags', { count: items.length })}
+          </button>
+        </div>
+      )}
+
+      {/* Delete confirmation */}
+      {panel === 'delete' && (
+        <div className="flex items-center justify-between gap-3">
+          <p className="text-[10px] opacity-60 leading-tight">
+            <Trans
+              i18nKey="list.deleteConfirm"
+              count={items.length}
+              components={{ b: <span className="font-bold text-red-500" /> }}
+            />
+          </p>
+          <button
+            onClick={() => {
+              onDelete(ids);
+              setPanel(null);
+            }}
+            className="px-2.5 py-1 rounded-md text-[10px] font-bold text-white bg-red-500 hover:bg-red-600 transition-colors shrink-0"
+          >
+            {t('card.delete')}
+          </button>
+        </div>
+      )}
+
+      {error && <p className="text-[10px] text-red-500 break-words">{error}</p>}
+    </div>
+  );
+}
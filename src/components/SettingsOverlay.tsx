@@ -4,10 +4,16 @@
  */
 
 import React from 'react';
-import { KeyRound, FolderOpen } from 'lucide-react';
+import { FolderOpen, FileText } from 'lucide-react';
 import { useTranslation } from 'react-i18next';
 import { motion, AnimatePresence } from 'motion/react';
-import { Theme } from '../types';
+import { BudgetPatch, BudgetStatus, DuplicateSettings, LlmConfig, LlmConfigPatch, ModelPricing, Theme } from '../types';
+import { ProviderSettings } from './ProviderSettings';
+import { PricingTable } from './PricingTable';
+import { BudgetSettings } from './BudgetSettings';
+import { DuplicateDetectionSettings } from './DuplicateDetectionSettings';
+import { TagDictionarySettings } from './TagDictionarySettings';
+import { DatabaseBackupSettings } from './DatabaseBackupSettings';
 import { DEFAULT_SYSTEM_INSTRUCTION } from '../constants';
 
 interface Props {
@@ -15,12 +21,24 @@ interface Props {
   show: boolean;
   systemInstruction: string;
   setSystemInstruction: (v: string) => void;
-  apiKeyInput: string;
-  setApiKeyInput: (v: string) => void;
+  llmConfig: LlmConfig;
+  pricing: ModelPricing[];
+  budget: BudgetStatus | null;
+  duplicateSettings: DuplicateSettings;
   galleryPathInput: string;
   setGalleryPathInput: (v: string) => void;
-  onApplyApiKey: (trimmed: string) => Promise<void>;
+  wildcardsPathInput: string;
+  setWildcardsPathInput: (v: string) => void;
+  /** Resolves with false if the change wasn't saved. */
+  onApplyLlmConfig: (patch: LlmConfigPatch) => Promise<boolean>;
+  onSavePricing: (entry: Omit<ModelPricing, 'id'>) => Promise<void>;
+  onRemovePricing: (id: string) => void;
+  /** Resolves with false if the change wasn't saved. */
+  onUpdateBudget: (patch: BudgetPatch) => Promise<boolean>;
+  onUpdateDuplicateSettings: (patch: Partial<DuplicateSettings>) => void;
   onApplyGallery: (trimmed: string) => Promise<void>;
+  onApplyWildcardsDir: (trimmed: string) => Promise<void>;
+  onDatabaseRestored: () => void;
   onClose: () => void;
   onShowResetConfirm: () => void;
 }
@@ -30,12 +48,22 @@ export function SettingsOverlay({
   show,
   systemInstruction,
   setSystemInstruction,
-  apiKeyInput,
-  setApiKeyInput,
+  llmConfig,
+  pricing,
+  budget,
+  duplicateSettings,
   galleryPathInput,
   setGalleryPathInput,
-  onApplyApiKey,
+  wildcardsPathInput,
+  setWildcardsPathInput,
+  onApplyLlmConfig,
+  onSavePricing,
+  onRemovePricing,
+  onUpdateBudget,
+  onUpdateDuplicateSettings,
   onApplyGallery,
+  onApplyWildcardsDir,
+  onDatabaseRestored,
   onClose,
   onShowResetConfirm,
 }: Props) {
@@ -51,7 +79,7 @@ export function SettingsOverlay({
           style={{ backgroundColor: theme.card, borderColor: theme.border }}
         >
           <div className="max-w-4xl mx-auto grid grid-cols-1 md:grid-cols-2 gap-8">
-            {/* Left column: System Instructions */}
+            {/* Left column: System Instructions, model pricing, budgets, duplicate detection */}
             <div className="space-y-4">
               <div className="flex items-center justify-between">
                 <label className="text-[10px] font-bold uppercase tracking-wider opacity-40">
@@ -74,21 +102,40 @@ export function SettingsOverlay({
                   '--tw-ring-color': theme.accent,
                 } as React.CSSProperties}
               />
+
+              {/* Model pricing */}
+              <PricingTable
+                theme={theme}
+                provider={llmConfig.provider}
+                pricing={pricing}
+                onSave={onSavePricing}
+                onRemove={onRemovePricing}
+              />
+
+              {/* Budgets */}
+              {budget && <BudgetSettings theme={theme} budget={budget} onUpdate={onUpdateBudget} />}
+
+              {/* Duplicate detection */}
+              <DuplicateDetectionSettings theme={theme} settings={duplicateSettings} onUpdate={onUpdateDuplicateSettings} />
             </div>
 
-            {/* Right column: API Key, Gallery Path, actions */}
+            {/* Right column: LLM provider, folders, tag dictionary, backups, actions */}
             <div className="space-y-4">
-              {/* API Key */}
+              {/* LLM provider */}
+              <ProviderSettings theme={theme} config={llmConfig} onApply={onApplyLlmConfig} />
+
+              {/* Gallery Path */}
               <div className="space-y-1.5">
-                <label className="text-[10px] font-bold uppercase tracking-wider opacity-40">{t('settings.apiKeyLabel')}</label>
+                <label className="text-[10px] font-bold uppercase tracking-wider opacity-40">{t('settings.galleryFolderLabel')}</label>
                 <div className="flex gap-2">
                   <div className="relative flex-1">
-                    <KeyRound className="absolute left-3 top-1/2 -translate-y-1/2 w-3 h-3 opacity-30" />
+                    <FolderOpen className="absolute left-3 top-1/2 -translate-y-1/2 w-3 h-3 opacity-30" />
                     <input
-                      type="password"
-                      value={apiKeyInput}
-                      onChange={(e) => setApiKeyInput(e.target.value)}
-                      placeholder={t('settings.apiKeyPlaceholder')}
+                      type="text"
+                      value={galleryPathInput}
+                      onChange={(e) => setGalleryPathInput(e.target.value)}
+                      onKeyDown={(e) => { if (e.key === 'Enter') e.currentTarget.blur(); }}
+                      placeholder={t('settings.galleryPlaceholder')}
                       className="w-full h-10 border-none rounded-lg pl-8 pr-4 text-xs focus:ring-1 transition-all"
                       style={{
                         backgroundColor: theme.input,
@@ -98,27 +145,30 @@ export function SettingsOverlay({
                     />
                   </div>
                   <button
-                    onClick={() => onApplyApiKey(apiKeyInput.trim())}
+                    onClick={() => onApplyGallery(galleryPathInput.trim())}
                     className="h-10 px-4 rounded-lg text-xs font-bold transition-all shrink-0"
                     style={{ backgroundColor: theme.input, color: theme.accent }}
                   >
                     {t('settings.apply')}
                   </button>
                 </div>
+                <p className="text-[9px] opacity-30 leading-relaxed">
+                  {t('settings.galleryNote')}
+                </p>
               </div>
 
-              {/* Gallery Path */}
+              {/* Wildcards export folder */}
               <div className="space-y-1.5">
-                <label className="text-[10px] font-bold uppercase tracking-wider opacity-40">{t('settings.galleryFolderLabel')}</label>
+                <label className="text-[10px] font-bold uppercase tracking-wider opacity-40">{t('settings.wildcardsFolderLabel')}</label>
                 <div className="flex gap-2">
                   <div className="relative flex-1">
-                    <FolderOpen className="absolute left-3 top-1/2 -translate-y-1/2 w-3 h-3 opacity-30" />
+                    <FileText className="absolute left-3 top-1/2 -translate-y-1/2 w-3 h-3 opacity-30" />
                     <input
                       type="text"
-                      value={galleryPathInput}
-                      onChange={(e) => setGalleryPathInput(e.target.value)}
+                      value={wildcardsPathInput}
+                      onChange={(e) => setWildcardsPathInput(e.target.value)}
                       onKeyDown={(e) => { if (e.key === 'Enter') e.currentTarget.blur(); }}
-                      placeholder={t('settings.galleryPlaceholder')}
+                      placeholder={t('settings.wildcardsPlaceholder')}
                       className="w-full h-10 border-none rounded-lg pl-8 pr-4 text-xs focus:ring-1 transition-all"
                       style={{
                         backgroundColor: theme.input,
@@ -128,7 +178,7 @@ export function SettingsOverlay({
                     />
                   </div>
                   <button
-                    onClick={() => onApplyGallery(galleryPathInput.trim())}
+                    onClick={() => onApplyWildcardsDir(wildcardsPathInput.trim())}
                     className="h-10 px-4 rounded-lg text-xs font-bold transition-all shrink-0"
                     style={{ backgroundColor: theme.input, color: theme.accent }}
                   >
@@ -136,10 +186,16 @@ export function SettingsOverlay({
                   </button>
                 </div>
                 <p className="text-[9px] opacity-30 leading-relaxed">
-                  {t('settings.galleryNote')}
+                  {t('settings.wildcardsNote')}
                 </p>
               </div>
 
+              {/* Tag dictionary */}
+              <TagDictionarySettings theme={theme} />
+
+              {/* Backups */}
+              <DatabaseBackupSettings theme={theme} onRestored={onDatabaseRestored} />
+
               {/* Action buttons */}
               <div className="pt-4 border-t flex flex-col gap-2" style={{ borderColor: theme.border }}>
                 <button
@@ -4,18 +4,28 @@
  */
 
 import React from 'react';
+import { BarChart3 } from 'lucide-react';
 import { useTranslation } from 'react-i18next';
-import { Theme } from '../../types';
+import { BudgetStatus, Theme } from '../../types';
 
 interface Props {
   theme: Theme;
   lastCallCost: number;
   sessionCost: number;
   allTimeCost: number;
+  budget: BudgetStatus | null;
+  onOpenAnalytics: () => void;
 }
 
-export function CostSummary({ theme, lastCallCost, sessionCost, allTimeCost }: Props) {
+/** Limit suffix of a spend figure; red once the spend reaches the limit. */
+function LimitSuffix({ spent, limit }: { spent: number; limit: number | null | undefined }) {
+  if (limit == null) return null;
+  return <span className={spent >= limit ? 'text-red-500' : 'opacity-40'}> / ${limit.toFixed(2)}</span>;
+}
+
+export function CostSummary({ theme, lastCallCost, sessionCost, allTimeCost, budget, onOpenAnalytics }: Props) {
   const { t } = useTranslation();
+  const limits = budget?.limits;
   return (
     <div
       className="px-4 py-3 border-t shrink-0"
@@ -27,13 +37,43 @@ export function CostSummary({ theme, lastCallCost, sessionCost, allTimeCost }: P
       </div>
       <div className="flex items-center justify-between mb-1">
         <span className="text-[10px] font-bold uppercase tracking-wider opacity-30">{t('costs.thisSession')}</span>
-        <span className="text-[10px] font-mono font-medium opacity-60">${sessionCost.toFixed(6)}</span>
+        <span className="text-[10px] font-mono font-medium">
+          <span className="opacity-60">${sessionCost.toFixed(6)}</span>
+          <LimitSuffix spent={sessionCost} limit={limits?.session} />
+        </span>
       </div>
+      {budget && limits?.daily != null && (
+        <div className="flex items-center justify-between mb-1">
+          <span className="text-[10px] font-bold uppercase tracking-wider opacity-30">{t('costs.today')}</span>
+          <span className="text-[10px] font-mono font-medium">
+            <span className="opacity-60">${budget.spend.daily.toFixed(6)}</span>
+            <LimitSuffix spent={budget.spend.daily} limit={limits.daily} />
+          </span>
+        </div>
+      )}
+      {budget && limits?.monthly != null && (
+        <div className="flex items-center justify-between mb-1">
+          <span className="text-[10px] font-bold uppercase tracking-wider opacity-30">{t('costs.thisMonth')}</span>
+          <span className="text-[10px] font-mono font-medium">
+            <span className="opacity-60">${budget.spend.monthly.toFixed(6)}</span>
+            <LimitSuffix spent={budget.spend.monthly} limit={limits.monthly} />
+          </span>
+        </div>
+      )}
       <div
         className="flex items-center justify-between"
         style={{ borderTop: `1px solid ${theme.border}`, paddingTop: '6px', marginTop: '4px' }}
       >
-        <span className="text-[10px] font-bold uppercase tracking-wider opacity-50">{t('costs.allTime')}</span>
+        <span className="flex items-center gap-1.5">
+          <span className="text-[10px] font-bold uppercase tracking-wider opacity-50">{t('costs.allTime')}</span>
+          <button
+            onClick={onOpenAnalytics}
+            className="opacity-40 hover:opacity-100 transition-opacity"
+            title={t('costs.analytics')}
+          >
+            <BarChart3 className="w-3 h-3" />
+          </button>
+        </span>
         <span className="text-[10px] font-mono font-bold opacity-80">${allTimeCost.toFixed(6)}</span>
       </div>
     </div>
@@ -4,10 +4,10 @@
  */
 
 import React, { useRef } from 'react';
-import { RefreshCw, Plus, X } from 'lucide-react';
+import { RefreshCw, Plus, X, Square } from 'lucide-react';
 import { useTranslation } from 'react-i18next';
-import { Theme } from '../../types';
-import { cn } from '../../utils/cn';
+import { GenerationProgress, ModelPricing, Theme } from '../../types';
+import { TagTextarea } from '../TagTextarea';
 
 interface Props {
   theme: Theme;
@@ -17,8 +17,19 @@ interface Props {
   setReferenceImages: (updater: (prev: string[]) => string[]) => void;
   numToGenerate: number;
   setNumToGenerate: (v: number) => void;
+  /** Models of the current provider that can be picked. */
+  modelOptions: string[];
+  selectedModel: string;
+  /** Rates of the selected model; undefined when it has no pricing entry. */
+  selectedPricing: ModelPricing | undefined;
+  onSelectModel: (model: string) => void;
   isLoading: boolean;
+  generationProgress: GenerationProgress | null;
+  /** Near-duplicates the last generation dropped instead of saving. */
+  duplicatesDropped: number;
   onGenerate: () => void;
+  /** Stops the running generation, keeping what it produced so far. */
+  onStop: () => void;
   onSurprise: () => void;
 }
 
@@ -30,8 +41,15 @@ export function InputPanel({
   setReferenceImages,
   numToGenerate,
   setNumToGenerate,
+  modelOptions,
+  selectedModel,
+  selectedPricing,
+  onSelectModel,
   isLoading,
+  generationProgress,
+  duplicatesDropped,
   onGenerate,
+  onStop,
   onSurprise,
 }: Props) {
   const imageInputRef = useRef<HTMLInputElement>(null);
@@ -60,9 +78,11 @@ export function InputPanel({
       {/* Prompt */}
       <div className="space-y-1.5">
         <label className="text-[10px] font-bold uppercase tracking-wider opacity-40">{t('input.requestLabel')}</label>
-        <textarea
+        <TagTextarea
+          theme={theme}
+          spaceSeparated
           value={userPrompt}
-          onChange={(e) => setUserPrompt(e.target.value)}
+          onValueChange={setUserPrompt}
           placeholder={t('input.requestPlaceholder')}
           className="w-full h-24 border-none rounded-lg p-3 text-sm focus:ring-1 transition-all resize-none placeholder:opacity-20"
           style={{
@@ -110,22 +130,49 @@ export function InputPanel({
         </div>
       </div>
 
-      {/* Count */}
-      <div className="space-y-1.5">
-        <label className="text-[10px] font-bold uppercase tracking-wider opacity-40">{t('input.countLabel')}</label>
-        <input
-          type="number"
-          min="1"
-          max="100"
-          value={numToGenerate}
-          onChange={(e) => setNumToGenerate(parseInt(e.target.value) || 1)}
-          className="w-full h-9 border-none rounded-lg px-3 text-xs focus:ring-1 transition-all"
-          style={{
-            backgroundColor: theme.input,
-            color: theme.text,
-            '--tw-ring-color': theme.accent,
-          } as React.CSSProperties}
-        />
+      {/* Model + Count */}
+      <div className="grid grid-cols-[1fr_5rem] gap-2">
+        <div className="space-y-1.5 min-w-0">
+          <label className="text-[10px] font-bold uppercase tracking-wider opacity-40">{t('input.modelLabel')}</label>
+          <select
+            value={selectedModel}
+            onChange={(e) => onSelectModel(e.target.value)}
+            disabled={isLoading}
+            className="w-full h-9 border-none rounded-lg px-3 text-xs focus:ring-1 transition-all"
+            style={{
+              backgroundColor: theme.input,
+              color: theme.text,
+              '--tw-ring-color': theme.accent,
+            } as React.CSSProperties}
+          >
+            {modelOptions.map((m) => <option key={m} value={m}>{m}</option>)}
+          </select>
+        </div>
+        <div className="space-y-1.5">
+          <label className="text-[10px] font-bold uppercase tracking-wider opacity-40">{t('input.countLabel')}</label>
+          <input
+            type="number"
+            min="1"
+            max="100"
+            value={numToGenerate}
+            onChange={(e) => setNumToGenerate(parseInt(e.target.value) || 1)}
+            className="w-full h-9 border-none rounded-lg px-3 text-xs focus:ring-1 transition-all"
+            style={{
+              backgroundColor: theme.input,
+              color: theme.text,
+              '--tw-ring-color': theme.accent,
+            } as React.CSSProperties}
+          />
+        </div>
+        <p className="col-span-2 text-[9px] font-mono opacity-30">
+          {selectedPricing
+            ? t('input.modelRates', {
+                input: selectedPricing.inputPerMTok.toFixed(2),
+                output: selectedPricing.outputPerMTok.toFixed(2),
+                image: selectedPricing.imagePerMTok.toFixed(2),
+              })
+            : t('input.modelUnpriced')}
+        </p>
       </div>
 
       {/* Actions */}
@@ -136,18 +183,48 @@ export function InputPanel({
           className="flex-1 h-10 text-xs font-medium rounded-lg disabled:opacity-20 transition-all flex items-center justify-center gap-2"
           style={{ backgroundColor: theme.accent, color: theme.id === 'dark' ? '#000' : '#fff' }}
         >
-          {isLoading ? <RefreshCw className="w-3 h-3 animate-spin" /> : t('input.generate')}
-        </button>
-        <button
-          onClick={onSurprise}
-          disabled={isLoading}
-          className="w-10 h-10 rounded-lg transition-all flex items-center justify-center"
-          title={t('input.surpriseMe')}
-          style={{ backgroundColor: theme.input, color: theme.muted }}
-        >
-          <RefreshCw className={cn('w-3.5 h-3.5', isLoading && 'animate-spin')} />
+          {isLoading ? (
+            <>
+              <RefreshCw className="w-3 h-3 animate-spin" />
+              {generationProgress && generationProgress.batches > 0 && (
+                <span className="font-mono text-[10px]">
+                  {t('input.progress', {
+                    batch: generationProgress.batch,
+                    batches: generationProgress.batches,
+                    received: generationProgress.received,
+                    requested: generationProgress.requested,
+                  })}
+                  <span className="opacity-60">
+                    {' · '}{t('input.progressEstimate', { cost: generationProgress.estimatedCost.toFixed(4) })}
+                  </span>
+                </span>
+              )}
+            </>
+          ) : t('input.generate')}
         </button>
+        {isLoading ? (
+          <button
+            onClick={onStop}
+            className="w-10 h-10 rounded-lg transition-all flex items-center justify-center text-red-500 hover:bg-red-500/10"
+            title={t('input.stop')}
+            style={{ backgroundColor: theme.input }}
+          >
+            <Square className="w-3.5 h-3.5 fill-current" />
+          </button>
+        ) : (
+          <button
+            onClick={onSurprise}
+            className="w-10 h-10 rounded-lg transition-all flex items-center justify-center"
+            title={t('input.surpriseMe')}
+            style={{ backgroundColor: theme.input, color: theme.muted }}
+          >
+            <RefreshCw className="w-3.5 h-3.5" />
+          </button>
+        )}
       </div>
+      {!isLoading && duplicatesDropped > 0 && (
+        <p className="text-[9px] opacity-40 -mt-2">{t('input.duplicatesDropped', { count: duplicatesDropped })}</p>
+      )}
     </div>
   );
 }
@@ -4,7 +4,7 @@
  */
 
 import React from 'react';
-import { Theme } from '../../types';
+import { BudgetStatus, GenerationProgress, ModelPricing, Theme } from '../../types';
 import { InputPanel } from './InputPanel';
 import { GalleryViewer } from './GalleryViewer';
 import { CostSummary } from './CostSummary';
@@ -18,8 +18,15 @@ interface Props {
   setReferenceImages: (updater: (prev: string[]) => string[]) => void;
   numToGenerate: number;
   setNumToGenerate: (v: number) => void;
+  modelOptions: string[];
+  selectedModel: string;
+  selectedPricing: ModelPricing | undefined;
+  onSelectModel: (model: string) => void;
   isLoading: boolean;
+  generationProgress: GenerationProgress | null;
+  duplicatesDropped: number;
   onGenerate: () => void;
+  onStop: () => void;
   onSurprise: () => void;
   // GalleryViewer
   galleryEnabled: boolean;
@@ -33,6 +40,8 @@ interface Props {
   lastCallCost: number;
   sessionCost: number;
   allTimeCost: number;
+  budget: BudgetStatus | null;
+  onOpenAnalytics: () => void;
 }
 
 export function Sidebar(props: Props) {
@@ -51,8 +60,15 @@ export function Sidebar(props: Props) {
         setReferenceImages={props.setReferenceImages}
         numToGenerate={props.numToGenerate}
         setNumToGenerate={props.setNumToGenerate}
+        modelOptions={props.modelOptions}
+        selectedModel={props.selectedModel}
+        selectedPricing={props.selectedPricing}
+        onSelectModel={props.onSelectModel}
         isLoading={props.isLoading}
+        generationProgress={props.generationProgress}
+        duplicatesDropped={props.duplicatesDropped}
         onGenerate={props.onGenerate}
+        onStop={props.onStop}
         onSurprise={props.onSurprise}
       />
 
@@ -72,6 +88,8 @@ export function Sidebar(props: Props) {
         lastCallCost={props.lastCallCost}
         sessionCost={props.sessionCost}
         allTimeCost={props.allTimeCost}
+        budget={props.budget}
+        onOpenAnalytics={props.onOpenAnalytics}
       />
     </aside>
   );
@@ -0,0 +1,46 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React from 'react';
+import { Cloud, CloudOff, RefreshCw } from 'lucide-react';
+import { useTranslation } from 'react-i18next';
+import { Theme } from '../types';
+import { retryNow } from '../api/writeQueue';
+import { useSyncStatus } from '../hooks/useSyncStatus';
+
+/** Header badge for the offline write queue: saved, saving, or offline with the writes waiting (click to retry now). */
+export function SyncIndicator({ theme }: { theme: Theme }) {
+  const { t } = useTranslation();
+  const { state, pending, retryAt } = useSyncStatus();
+
+  if (state === 'offline') {
+    return (
+      <button
+        onClick={retryNow}
+        className="flex items-center gap-1 px-2 py-0.5 rounded-full text-[9px] font-bold uppercase tracking-wider border transition-opacity hover:opacity-80"
+        style={{
+          borderColor: 'rgba(250,100,100,0.5)',
+          color: 'rgb(220,80,80)',
+          backgroundColor: 'rgba(250,100,100,0.08)',
+        }}
+        title={t('sync.offlineHint', { time: retryAt ? new Date(retryAt).toLocaleTimeString() : '' })}
+      >
+        <CloudOff className="w-2.5 h-2.5" /> {t('sync.offline', { count: pending })}
+      </button>
+    );
+  }
+
+  return (
+    <span
+      className="flex items-center gap-1 px-2 py-0.5 text-[9px] font-bold uppercase tracking-wider"
+      style={{ color: theme.muted }}
+      title={state === 'syncing' ? t('sync.syncingHint') : t('sync.syncedHint')}
+    >
+      {state === 'syncing'
+        ? <><RefreshCw className="w-2.5 h-2.5 animate-spin" /> {t('sync.syncing', { count: pending })}</>
+        : <><Cloud className="w-2.5 h-2.5" /> {t('sync.synced')}</>}
+    </span>
+  );
+}
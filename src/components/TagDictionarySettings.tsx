@@ -0,0 +1,126 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useEffect, useRef, useState } from 'react';
+import { BookOpen, Upload, Trash2 } from 'lucide-react';
+import { useTranslation } from 'react-i18next';
+import { Theme } from '../types';
+import { dbApi } from '../api/dbApi';
+import { resetTagLookups } from '../hooks/useTagLookup';
+
+interface Props {
+  theme: Theme;
+}
+
+/** Loads a Danbooru tag CSV, from an uploaded file or a path on the server, into the local dictionary. */
+export function TagDictionarySettings({ theme }: Props) {
+  const { t } = useTranslation();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [count, setCount] = useState<number | null>(null);
+  const [pathInput, setPathInput] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState<{ text: string; error: boolean } | null>(null);
+
+  useEffect(() => {
+    dbApi.fetchTagCount().then(setCount).catch(() => setCount(null));
+  }, []);
+
+  const load = async (source: { content: string } | { path: string }) => {
+    setBusy(true);
+    setMessage(null);
+    try {
+      const { imported, malformed } = await dbApi.importTagDictionary(source);
+      setCount(imported);
+      setMessage({
+        text: malformed > 0
+          ? `${t('tags.imported', { count: imported })} ${t('tags.malformed', { count: malformed })}`
+          : t('tags.imported', { count: imported }),
+        error: false,
+      });
+      resetTagLookups();
+    } catch (err) {
+      setMessage({ text: err instanceof Error ? err.message : String(err), error: true });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = () => load({ content: reader.result as string });
+    reader.readAsText(file);
+  };
+
+  const clear = async () => {
+    await dbApi.clearTagDictionary();
+    setCount(0);
+    setMessage(null);
+    resetTagLookups();
+  };
+
+  return (
+    <div className="space-y-1.5">
+      <div className="flex items-center justify-between">
+        <label className="text-[10px] font-bold uppercase tracking-wider opacity-40">{t('tags.label')}</label>
+        {count !== null && (
+          <span className="text-[10px] font-mono opacity-40">{t('tags.count', { count })}</span>
+        )}
+      </div>
+      <div className="flex gap-2">
+        <div className="relative flex-1">
+          <BookOpen className="absolute left-3 top-1/2 -translate-y-1/2 w-3 h-3 opacity-30" />
+          <input
+            type="text"
+            value={pathInput}
+            onChange={(e) => setPathInput(e.target.value)}
+            onKeyDown={(e) => { if (e.key === 'Enter' && pathInput.trim()) load({ path: pathInput.trim() }); }}
+            placeholder={t('tags.pathPlaceholder')}
+            className="w-full h-10 border-none rounded-lg pl-8 pr-4 text-xs focus:ring-1 transition-all"
+            style={{
+              backgroundColor: theme.input,
+              color: theme.text,
+              '--tw-ring-color': theme.accent,
+            } as React.CSSProperties}
+          />
+        </div>
+        <button
+          onClick={() => load({ path: pathInput.trim() })}
+          disabled={busy || !pathInput.trim()}
+          className="h-10 px-4 rounded-lg text-xs font-bold transition-all shrink-0 disabled:opacity-30"
+          style={{ backgroundColor: theme.input, color: theme.accent }}
+        >
+          {t('tags.load')}
+        </button>
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          disabled={busy}
+          className="h-10 px-3 rounded-lg transition-all shrink-0 disabled:opacity-30"
+          style={{ backgroundColor: theme.input, color: theme.accent }}
+          title={t('tags.upload')}
+        >
+          <Upload className="w-3.5 h-3.5" />
+        </button>
+        <button
+          onClick={clear}
+          disabled={busy || !count}
+          className="h-10 px-3 rounded-lg transition-all shrink-0 hover:text-red-500 disabled:opacity-30"
+          style={{ backgroundColor: theme.input }}
+          title={t('tags.clear')}
+        >
+          <Trash2 className="w-3.5 h-3.5" />
+        </button>
+        <input ref={fileInputRef} type="file" accept=".csv,text/csv" className="hidden" onChange={handleFile} />
+      </div>
+      {busy && <p className="text-[9px] opacity-50">{t('tags.loading')}</p>}
+      {message && (
+        <p className={`text-[9px] leading-relaxed ${message.error ? 'text-red-500' : 'opacity-50'}`}>{message.text}</p>
+      )}
+      <p className="text-[9px] opacity-30 leading-relaxed">{t('tags.note')}</p>
+    </div>
+  );
+}
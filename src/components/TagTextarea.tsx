@@ -0,0 +1,137 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useEffect, useRef, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { TagInfo, Theme } from '../types';
+import { dbApi } from '../api/dbApi';
+import { describeTag, tagCategoryColor } from '../utils/tagInfo';
+
+interface Props extends Omit<React.TextareaHTMLAttributes<HTMLTextAreaElement>, 'value' | 'onChange'> {
+  theme: Theme;
+  value: string;
+  onValueChange: (value: string) => void;
+  /** Whether spaces also end a tag — true for free text, false for comma-separated wildcards. */
+  spaceSeparated?: boolean;
+}
+
+const MIN_QUERY = 2;
+
+/** Start of the tag being typed at the caret. */
+function tokenStart(text: string, caret: number, spaceSeparated: boolean): number {
+  const separator = spaceSeparated ? /[,\n\s]/ : /[,\n]/;
+  let start = caret;
+  while (start > 0 && !separator.test(text[start - 1])) start--;
+  while (start < caret && /\s/.test(text[start])) start++;
+  return start;
+}
+
+/** A textarea that offers dictionary tags for the word at the caret. */
+export function TagTextarea({ theme, value, onValueChange, spaceSeparated = false, onKeyDown, onBlur, ...rest }: Props) {
+  const { t } = useTranslation();
+  const ref = useRef<HTMLTextAreaElement>(null);
+  const [query, setQuery] = useState<{ start: number; end: number; text: string } | null>(null);
+  const [options, setOptions] = useState<TagInfo[]>([]);
+  const [active, setActive] = useState(0);
+
+  const updateQuery = (text: string, caret: number) => {
+    const start = tokenStart(text, caret, spaceSeparated);
+    const token = text.slice(start, caret);
+    setQuery(token.trim().length >= MIN_QUERY ? { start, end: caret, text: token } : null);
+  };
+
+  // Debounced so typing a word sends one request, not one per keystroke.
+  useEffect(() => {
+    if (!query) {
+      setOptions([]);
+      return;
+    }
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      dbApi.completeTags(query.text)
+        .then((tags) => { if (!cancelled) { setOptions(tags); setActive(0); } })
+        .catch(() => { if (!cancelled) setOptions([]); });
+    }, 150);
+    return () => { cancelled = true; clearTimeout(timer); };
+  }, [query?.text, query?.start]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  const accept = (tag: TagInfo) => {
+    if (!query) return;
+    const next = value.slice(0, query.start) + tag.name + value.slice(query.end);
+    const caret = query.start + tag.name.length;
+    onValueChange(next);
+    setQuery(null);
+    requestAnimationFrame(() => ref.current?.setSelectionRange(caret, caret));
+  };
+
+  const open = query !== null && options.length > 0;
+
+  // Options are picked on mousedown, not click: the textarea's blur would close the list first.
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (open) {
+      if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+        e.preventDefault();
+        const step = e.key === 'ArrowDown' ? 1 : -1;
+        setActive((i) => (i + step + options.length) % options.length);
+        return;
+      }
+      if ((e.key === 'Enter' && !e.ctrlKey && !e.metaKey) || e.key === 'Tab') {
+        e.preventDefault();
+        accept(options[active]);
+        return;
+      }
+      if (e.key === 'Escape') {
+        e.preventDefault();
+        setQuery(null);
+        return;
+      }
+    }
+    onKeyDown?.(e);
+  };
+
+  return (
+    <div>
+      <textarea
+        {...rest}
+        ref={ref}
+        value={value}
+        onChange={(e) => {
+          onValueChange(e.target.value);
+          updateQuery(e.target.value, e.target.selectionStart);
+        }}
+        onKeyDown={handleKeyDown}
+        onBlur={(e) => { setQuery(null); onBlur?.(e); }}
+      />
+      {/* In the flow rather than floating: cards clip anything that overflows them */}
+      {open && (
+        <ul
+          className="mt-1 border rounded-lg max-h-44 overflow-y-auto py-1"
+          style={{ backgroundColor: theme.card, borderColor: theme.border }}
+        >
+          {options.map((tag, i) => (
+            <li
+              key={tag.name}
+              onMouseDown={(e) => { e.preventDefault(); accept(tag); }}
+              onMouseEnter={() => setActive(i)}
+              className="flex items-center gap-2 px-2 py-1 text-[11px] font-mono cursor-pointer"
+              style={{ backgroundColor: i === active ? theme.input : undefined, color: theme.text }}
+              title={describeTag(tag, t)}
+            >
+              <span className="w-1.5 h-1.5 rounded-full shrink-0" style={{ backgroundColor: tagCategoryColor(tag.category) }} />
+              <span className="flex-1 min-w-0 truncate">
+                {tag.alias && <span className="opacity-40">{tag.alias} → </span>}
+                {tag.name}
+              </span>
+              <span className="text-[9px] opacity-40 shrink-0">
+                {new Intl.NumberFormat(undefined, { notation: 'compact' }).format(tag.postCount)}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,65 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useEffect } from 'react';
+import { RotateCcw, X } from 'lucide-react';
+import { motion, AnimatePresence } from 'motion/react';
+import { useTranslation } from 'react-i18next';
+import { Theme } from '../types';
+
+/** How long the Undo button stays up after a delete. */
+const UNDO_TIMEOUT_MS = 8000;
+
+export interface UndoOffer {
+  /** Trash batch the delete created. */
+  batchId: string;
+  message: string;
+}
+
+interface Props {
+  theme: Theme;
+  offer: UndoOffer | null;
+  onUndo: (batchId: string) => void;
+  onDismiss: () => void;
+}
+
+/** Bottom-corner notice after a delete, with an Undo button that restores it from the trash. */
+export function UndoToast({ theme, offer, onUndo, onDismiss }: Props) {
+  const { t } = useTranslation();
+
+  // A newer delete replaces the offer and restarts the timer.
+  useEffect(() => {
+    if (!offer) return;
+    const timer = setTimeout(onDismiss, UNDO_TIMEOUT_MS);
+    return () => clearTimeout(timer);
+  }, [offer]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  return (
+    <AnimatePresence>
+      {offer && (
+        <motion.div
+          key={offer.batchId}
+          initial={{ opacity: 0, y: 16 }}
+          animate={{ opacity: 1, y: 0 }}
+          exit={{ opacity: 0, y: 16 }}
+          className="fixed bottom-6 right-6 z-[150] flex items-center gap-3 pl-4 pr-2 py-2 rounded-xl shadow-2xl border"
+          style={{ backgroundColor: theme.card, borderColor: theme.border, color: theme.text }}
+        >
+          <span className="text-xs">{offer.message}</span>
+          <button
+            onClick={() => onUndo(offer.batchId)}
+            className="flex items-center gap-1 px-2.5 py-1 rounded-md text-[10px] font-bold uppercase tracking-wider transition-colors"
+            style={{ backgroundColor: theme.accent, color: theme.id === 'dark' ? '#000' : '#fff' }}
+          >
+            <RotateCcw className="w-3 h-3" /> {t('trash.undo')}
+          </button>
+          <button onClick={onDismiss} className="p-1 rounded-md opacity-40 hover:opacity-100 transition-opacity">
+            <X className="w-3 h-3" />
+          </button>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+}
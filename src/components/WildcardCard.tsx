@@ -3,12 +3,19 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
-import React, { useRef, useEffect, useState } from 'react';
-import { Save, Sparkles, Image as ImageIcon, Trash2, Check, X } from 'lucide-react';
+import React, { useRef, useEffect, useMemo, useState } from 'react';
+import { Save, Sparkles, Image as ImageIcon, Trash2, Check, X, Pencil, History, RotateCcw, GitBranch, CloudOff } from 'lucide-react';
 import { motion, AnimatePresence } from 'motion/react';
 import { useTranslation } from 'react-i18next';
-import { Theme, WildcardItem } from '../types';
+import { Theme, WildcardEdit, WildcardItem, WildcardLineage } from '../types';
 import { cn } from '../utils/cn';
+import type { SaveTarget } from './WildcardList';
+import { LineagePanel } from './LineagePanel';
+import { lintWildcard } from '../utils/tagLint';
+import { normalizeTag, useTagLookup } from '../hooks/useTagLookup';
+import { describeTag } from '../utils/tagInfo';
+import { TagTextarea } from './TagTextarea';
+import { useUnsavedWrite } from '../hooks/useSyncStatus';
 
 interface Props {
   theme: Theme;
@@ -20,8 +27,10 @@ interface Props {
   galleryEmpty: boolean;
   currentGalleryImageUrl: string;
   onCopy: () => void;
-  /** Present only on Generated cards */
-  onSave?: () => void;
+  /** Present only on Generated cards — copies the wildcard into the given collection. */
+  onSave?: (targetId: string) => void;
+  /** Collections offered by the Save button; with more than one a picker is shown. */
+  saveTargets?: SaveTarget[];
   onRefine: () => void;
   /** Adds currentGalleryImageUrl to the wildcard's preview list. */
   onAddPreview: () => void;
@@ -29,7 +38,20 @@ interface Props {
   onRemovePreview: (url: string) => void;
   /** Persists the given URL as the default preview_url in the DB. */
   onSetDefaultPreview: (url: string) => void;
+  /**
+   * Saves new text for this wildcard; the server keeps the old text in its edit history.
+   * Resolves with false if the server refused it.
+   */
+  onEdit: (text: string) => Promise<boolean>;
+  onLoadHistory: () => Promise<WildcardEdit[]>;
+  /** Loads the refine/copy tree this wildcard belongs to. */
+  onLoadLineage: () => Promise<WildcardLineage>;
   onRemove: () => void;
+  isSelected?: boolean;
+  /** True while any card in the list is selected: a plain click then selects instead of copying. */
+  selecting?: boolean;
+  /** Toggles this card's selection, or with `range` selects every card up to the last one clicked. */
+  onSelect?: (range: boolean) => void;
   onHoverChange: (url: string | null, side?: 'left' | 'right') => void;
   /** Which side of the card to show the preview popup. Default: 'right' */
   previewSide?: 'left' | 'right';
@@ -45,16 +67,110 @@ export const WildcardCard = React.memo(function WildcardCard({
   currentGalleryImageUrl,
   onCopy,
   onSave,
+  saveTargets = [],
   onRefine,
   onAddPreview,
   onRemovePreview,
   onSetDefaultPreview,
+  onEdit,
+  onLoadHistory,
+  onLoadLineage,
   onRemove,
+  isSelected = false,
+  selecting = false,
+  onSelect,
   onHoverChange,
   previewSide = 'right',
 }: Props) {
   const { t } = useTranslation();
   const isCopied = copiedId === item.id;
+  const [pickingTarget, setPickingTarget] = useState(false);
+  const lintIssues = useMemo(() => lintWildcard(item.text), [item.text]);
+  const unsaved = useUnsavedWrite(item.id);
+
+  // ── Tag dictionary ─────────────────────────────────────────────────────────
+  // Split on commas only, so the parts join back into the exact original text.
+  const textParts = useMemo(() => item.text.split(','), [item.text]);
+  const tagLookup = useTagLookup(textParts);
+  const lookupOf = (part: string) => tagLookup.lookups.get(normalizeTag(part));
+  const isUnknown = (part: string) => tagLookup.loaded && part.trim() !== '' && lookupOf(part)?.info === null;
+
+  const applySuggestion = (index: number, suggestion: string) => {
+    const parts = [...textParts];
+    parts[index] = parts[index].replace(parts[index].trim(), suggestion);
+    onEdit(parts.join(','));
+    setHistory(null);
+    setShowHistory(false);
+  };
+
+  // ── Inline editing + edit history ─────────────────────────────────────────
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState(item.text);
+  const [history, setHistory] = useState<WildcardEdit[] | null>(null);
+  const [showHistory, setShowHistory] = useState(false);
+
+  const startEditing = () => {
+    setDraft(item.text);
+    setIsEditing(true);
+  };
+
+  const commitEdit = () => {
+    const trimmed = draft.trim();
+    if (trimmed && trimmed !== item.text) {
+      // Closes right away like any optimistic edit; a refused one reopens with the draft.
+      onEdit(trimmed).then((saved) => {
+        if (saved) return;
+        setDraft(trimmed);
+        setIsEditing(true);
+      });
+      // The new history entry only exists server-side; refetch next time it's opened.
+      setHistory(null);
+      setShowHistory(false);
+    }
+    setIsEditing(false);
+  };
+
+  const toggleHistory = () => {
+    if (showHistory) {
+      setShowHistory(false);
+      return;
+    }
+    setShowHistory(true);
+    onLoadHistory().then(setHistory).catch(() => setHistory([]));
+  };
+
+  // ── Lineage ────────────────────────────────────────────────────────────────
+  const [lineage, setLineage] = useState<WildcardLineage | null>(null);
+  const [showLineage, setShowLineage] = useState(false);
+
+  const toggleLineage = () => {
+    if (showLineage) {
+      setShowLineage(false);
+      return;
+    }
+    setShowLineage(true);
+    // Refetched on every open: refines and copies made elsewhere change the tree.
+    setLineage(null);
+    onLoadLineage().then(setLineage).catch(() => setShowLineage(false));
+  };
+
+  const restoreVersion = (text: string) => {
+    setHistory(null);
+    // Restoring is itself an edit, so the replaced text shows up in the refreshed history.
+    onEdit(text)
+      .then(() => onLoadHistory())
+      .then(setHistory)
+      .catch(() => setHistory([]));
+  };
+
+  const handleSaveClick = () => {
+    if (!onSave) return;
+    if (saveTargets.length > 1) {
+      setPickingTarget(true);
+    } else {
+      onSave(saveTargets[0]?.id ?? 'saved');
+    }
+  };
 
   // ── Multi-preview cycling ──────────────────────────────────────────────────
   const previewUrls: string[] = item.previewUrls ?? (item.previewUrl ? [item.previewUrl] : []);
@@ -161,10 +277,11 @@ export const WildcardCard = React.memo(function WildcardCard({
       className={cn(
         'group relative border rounded-xl transition-colors overflow-hidden flex flex-row',
         isHighlighted && 'ring-1',
+        isSelected && 'ring-2',
       )}
       style={{
         backgroundColor: theme.card,
-        borderColor: isHighlighted ? theme.accent : theme.border,
+        borderColor: isHighlighted || isSelected ? theme.accent : theme.border,
         '--tw-ring-color': theme.accent,
       } as React.CSSProperties}
       onMouseEnter={() => {
@@ -174,55 +291,275 @@ export const WildcardCard = React.memo(function WildcardCard({
     >
       {/* Left: text + buttons */}
       <div className="flex flex-col flex-1 min-w-0">
-        {/* Text — clicking copies */}
-        <div className="p-3 pb-2 flex-1 cursor-pointer" onClick={onCopy}>
-          <p className="text-[11px] font-mono opacity-60 leading-relaxed whitespace-pre-wrap break-words">
-            {item.text}
-          </p>
-        </div>
+        {/* Text — clicking copies (or selects, see onSelect); replaced by a textarea while editing */}
+        {isEditing ? (
+          <div className="p-3 pb-2 flex-1 space-y-2">
+            <TagTextarea
+              theme={theme}
+              autoFocus
+              value={draft}
+              onValueChange={setDraft}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) commitEdit();
+                if (e.key === 'Escape') setIsEditing(false);
+              }}
+              rows={4}
+              className="w-full border-none rounded-lg p-2 text-[11px] font-mono leading-relaxed focus:ring-1 resize-y"
+              style={{
+                backgroundColor: theme.input,
+                color: theme.text,
+                '--tw-ring-color': theme.accent,
+              } as React.CSSProperties}
+            />
+            <div className="flex gap-1">
+              <button
+                onClick={commitEdit}
+                disabled={!draft.trim()}
+                className="flex items-center gap-1 px-2 py-1 rounded-md text-[10px] font-bold transition-colors disabled:opacity-30"
+                style={{ backgroundColor: theme.accent, color: theme.id === 'dark' ? '#000' : '#fff' }}
+              >
+                <Check className="w-3 h-3" /> {t('card.saveEdit')}
+              </button>
+              <button
+                onClick={() => setIsEditing(false)}
+                className="flex items-center gap-1 px-2 py-1 border rounded-md text-[10px] font-medium transition-colors"
+                style={{ backgroundColor: theme.input, borderColor: theme.border }}
+              >
+                <X className="w-3 h-3" /> {t('list.cancel')}
+              </button>
+            </div>
+          </div>
+        ) : (
+          <div
+            className="p-3 pb-2 flex-1 cursor-pointer"
+            onMouseDown={(e) => {
+              // Keeps Shift-click from selecting text.
+              if (e.shiftKey && onSelect) e.preventDefault();
+            }}
+            onClick={(e) => {
+              if (onSelect && (selecting || e.shiftKey || e.ctrlKey || e.metaKey)) onSelect(e.shiftKey);
+              else onCopy();
+            }}
+          >
+            <p className="text-[11px] font-mono opacity-60 leading-relaxed whitespace-pre-wrap break-words">
+              {/* Hover a tag for its category and popularity; unknown tags are underlined */}
+              {textParts.map((part, i) => {
+                const info = lookupOf(part)?.info;
+                return (
+                  <React.Fragment key={i}>
+                    {i > 0 && ','}
+                    <span
+                      className={isUnknown(part) ? 'underline decoration-wavy decoration-red-500' : undefined}
+                      title={info ? describeTag(info, t) : isUnknown(part) ? t('tags.unknown') : undefined}
+                    >
+                      {part}
+                    </span>
+                  </React.Fragment>
+                );
+              })}
+            </p>
+            {/* Suggested corrections for unknown tags — click one to apply it */}
+            {textParts.some(isUnknown) && (
+              <div className="flex flex-wrap gap-1 mt-1.5">
+                {textParts.flatMap((part, i) =>
+                  isUnknown(part)
+                    ? (lookupOf(part)?.suggestions ?? []).map((suggestion) => (
+                        <button
+                          key={`${i}-${suggestion}`}
+                          onClick={(e) => { e.stopPropagation(); applySuggestion(i, suggestion); }}
+                          className="px-1.5 py-0.5 rounded text-[9px] font-mono bg-red-500/10 text-red-500 hover:bg-red-500/20 transition-colors"
+                          title={t('tags.applySuggestion')}
+                        >
+                          {part.trim()} → {suggestion}
+                        </button>
+                      ))
+                    : [],
+                )}
+              </div>
+            )}
+            {/* Tag linter badges — hover one for the tags it flags; plus the near-duplicate and unsaved flags */}
+            {(lintIssues.length > 0 || item.duplicateOf || unsaved) && (
+              <div className="flex flex-wrap gap-1 mt-1.5">
+                {unsaved && (
+                  <span
+                    className="flex items-center gap-1 px-1.5 py-0.5 rounded text-[9px] font-bold bg-red-500/10 text-red-500"
+                    title={t('sync.unsavedHint')}
+                  >
+                    <CloudOff className="w-2.5 h-2.5" /> {t('sync.unsaved')}
+                  </span>
+                )}
+                {item.duplicateOf && (
+                  <span
+                    className="px-1.5 py-0.5 rounded text-[9px] font-bold bg-sky-500/10 text-sky-600"
+                    title={t('duplicates.badgeHint')}
+                  >
+                    {t('duplicates.badge', { percent: Math.round(item.duplicateOf.score * 100) })}
+                  </span>
+                )}
+                {lintIssues.map((issue) => (
+                  <span
+                    key={issue.code}
+                    className="px-1.5 py-0.5 rounded text-[9px] font-bold bg-amber-500/10 text-amber-600"
+                    title={issue.code === 'missing_region'
+                      ? issue.tags.map((r) => t(`lint.region.${r}`)).join(', ')
+                      : issue.tags.join('\n')}
+                  >
+                    {t(`lint.${issue.code}`, { count: issue.tags.length })}
+                  </span>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
 
-        {/* Action buttons — always visible */}
-        <div
-          className="flex flex-wrap gap-1 px-3 pb-3 border-t pt-2"
-          style={{ borderColor: theme.border }}
-          onClick={(e) => e.stopPropagation()}
-        >
-          {onSave && (
+        {/* Save target picker — replaces the action buttons while open */}
+        {pickingTarget && onSave ? (
+          <div
+            className="flex flex-wrap items-center gap-1 px-3 pb-3 border-t pt-2"
+            style={{ borderColor: theme.border }}
+            onClick={(e) => e.stopPropagation()}
+          >
+            <span className="text-[10px] font-bold uppercase tracking-wider opacity-40 mr-1">{t('card.saveTo')}</span>
+            {saveTargets.map((target) => (
+              <button
+                key={target.id}
+                onClick={() => { onSave(target.id); setPickingTarget(false); }}
+                className="px-2 py-1 border rounded-md text-[10px] font-medium transition-colors max-w-[10rem] truncate"
+                style={{ backgroundColor: theme.input, borderColor: theme.border }}
+              >
+                {target.label}
+              </button>
+            ))}
             <button
-              onClick={onSave}
+              onClick={() => setPickingTarget(false)}
+              className="p-1 rounded-md opacity-40 hover:opacity-100 transition-opacity"
+              title={t('list.cancel')}
+            >
+              <X className="w-3 h-3" />
+            </button>
+          </div>
+        ) : (
+          /* Action buttons — always visible */
+          <div
+            className="flex flex-wrap gap-1 px-3 pb-3 border-t pt-2"
+            style={{ borderColor: theme.border }}
+            onClick={(e) => e.stopPropagation()}
+          >
+            {onSave && (
+              <button
+                onClick={handleSaveClick}
+                className="flex items-center gap-1 px-2 py-1 border rounded-md text-[10px] font-medium transition-colors"
+                style={{ backgroundColor: theme.input, borderColor: theme.border }}
+              >
+                <Save className="w-3 h-3" /> {t('card.save')}
+              </button>
+            )}
+            <button
+              onClick={onRefine}
               className="flex items-center gap-1 px-2 py-1 border rounded-md text-[10px] font-medium transition-colors"
               style={{ backgroundColor: theme.input, borderColor: theme.border }}
             >
-              <Save className="w-3 h-3" /> {t('card.save')}
+              <Sparkles className="w-3 h-3" /> {t('card.refine')}
             </button>
-          )}
-          <button
-            onClick={onRefine}
-            className="flex items-center gap-1 px-2 py-1 border rounded-md text-[10px] font-medium transition-colors"
-            style={{ backgroundColor: theme.input, borderColor: theme.border }}
-          >
-            <Sparkles className="w-3 h-3" /> {t('card.refine')}
-          </button>
-          <button
-            onClick={onAddPreview}
-            disabled={!galleryEnabled || galleryEmpty}
-            className="flex items-center gap-1 px-2 py-1 border rounded-md text-[10px] font-medium transition-colors disabled:opacity-20"
-            style={{
-              backgroundColor: hasPreview ? theme.accent : theme.input,
-              borderColor: hasPreview ? theme.accent : theme.border,
-              color: hasPreview ? (theme.id === 'dark' ? '#000' : '#fff') : undefined,
-            }}
+            <button
+              onClick={onAddPreview}
+              disabled={!galleryEnabled || galleryEmpty}
+              className="flex items-center gap-1 px-2 py-1 border rounded-md text-[10px] font-medium transition-colors disabled:opacity-20"
+              style={{
+                backgroundColor: hasPreview ? theme.accent : theme.input,
+                borderColor: hasPreview ? theme.accent : theme.border,
+                color: hasPreview ? (theme.id === 'dark' ? '#000' : '#fff') : undefined,
+              }}
+            >
+              <ImageIcon className="w-3 h-3" /> {t('card.addPreview')}
+            </button>
+            <button
+              onClick={startEditing}
+              disabled={isEditing}
+              className="flex items-center gap-1 px-2 py-1 border rounded-md text-[10px] font-medium transition-colors disabled:opacity-20"
+              style={{ backgroundColor: theme.input, borderColor: theme.border }}
+            >
+              <Pencil className="w-3 h-3" /> {t('card.edit')}
+            </button>
+            <button
+              onClick={toggleHistory}
+              className="flex items-center gap-1 px-2 py-1 border rounded-md text-[10px] font-medium transition-colors"
+              style={{
+                backgroundColor: showHistory ? theme.accent : theme.input,
+                borderColor: showHistory ? theme.accent : theme.border,
+                color: showHistory ? (theme.id === 'dark' ? '#000' : '#fff') : undefined,
+              }}
+              title={t('card.history')}
+            >
+              <History className="w-3 h-3" />
+            </button>
+            <button
+              onClick={toggleLineage}
+              className="flex items-center gap-1 px-2 py-1 border rounded-md text-[10px] font-medium transition-colors"
+              style={{
+                backgroundColor: showLineage ? theme.accent : theme.input,
+                borderColor: showLineage ? theme.accent : theme.border,
+                color: showLineage ? (theme.id === 'dark' ? '#000' : '#fff') : undefined,
+              }}
+              title={t('card.lineage')}
+            >
+              <GitBranch className="w-3 h-3" />
+            </button>
+            <button
+              onClick={() => { onHoverChange(null); onRemove(); }}
+              className="flex items-center gap-1 px-2 py-1 border rounded-md text-[10px] font-medium transition-colors hover:text-red-500"
+              style={{ backgroundColor: theme.input, borderColor: theme.border }}
+            >
+              <Trash2 className="w-3 h-3" /> {t('card.delete')}
+            </button>
+          </div>
+        )}
+
+        {/* Edit history — previous texts, newest first */}
+        {showHistory && (
+          <div
+            className="px-3 pb-3 border-t pt-2 space-y-1.5"
+            style={{ borderColor: theme.border }}
+            onClick={(e) => e.stopPropagation()}
           >
-            <ImageIcon className="w-3 h-3" /> {t('card.addPreview')}
-          </button>
-          <button
-            onClick={() => { onHoverChange(null); onRemove(); }}
-            className="flex items-center gap-1 px-2 py-1 border rounded-md text-[10px] font-medium transition-colors hover:text-red-500"
-            style={{ backgroundColor: theme.input, borderColor: theme.border }}
+            {history === null ? (
+              <p className="text-[10px] opacity-30">{t('card.historyLoading')}</p>
+            ) : history.length === 0 ? (
+              <p className="text-[10px] opacity-30">{t('card.historyEmpty')}</p>
+            ) : (
+              history.map((edit) => (
+                <div key={edit.id} className="flex items-start gap-2">
+                  <div className="flex-1 min-w-0">
+                    <p className="text-[9px] opacity-30">{new Date(edit.createdAt).toLocaleString()}</p>
+                    <p className="text-[10px] font-mono opacity-50 leading-relaxed break-words line-clamp-3">{edit.text}</p>
+                  </div>
+                  <button
+                    onClick={() => restoreVersion(edit.text)}
+                    className="shrink-0 flex items-center gap-1 px-1.5 py-0.5 border rounded-md text-[9px] font-medium transition-colors"
+                    style={{ backgroundColor: theme.input, borderColor: theme.border }}
+                  >
+                    <RotateCcw className="w-2.5 h-2.5" /> {t('card.restore')}
+                  </button>
+                </div>
+              ))
+            )}
+          </div>
+        )}
+
+        {/* Lineage — refine/copy tree and tag diff */}
+        {showLineage && (
+          <div
+            className="px-3 pb-3 border-t pt-2"
+            style={{ borderColor: theme.border }}
+            onClick={(e) => e.stopPropagation()}
           >
-            <Trash2 className="w-3 h-3" /> {t('card.delete')}
-          </button>
-        </div>
+            {lineage === null ? (
+              <p className="text-[10px] opacity-30">{t('card.historyLoading')}</p>
+            ) : (
+              <LineagePanel theme={theme} currentId={item.id} lineage={lineage} />
+            )}
+          </div>
+        )}
       </div>
 
       {/* Right: full-height preview thumbnail — scroll to cycle through previews */}
@@ -3,13 +3,22 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
-import React, { useRef, useEffect } from 'react';
-import { Trash2 } from 'lucide-react';
+import React, { useRef, useEffect, useMemo, useState } from 'react';
+import { Trash2, Download } from 'lucide-react';
 import { motion, AnimatePresence } from 'motion/react';
 import { Trans, useTranslation } from 'react-i18next';
 import { useVirtualizer } from '@tanstack/react-virtual';
-import { Theme, WildcardItem } from '../types';
+import { Theme, WildcardEdit, WildcardItem, WildcardLineage } from '../types';
 import { WildcardCard } from './WildcardCard';
+import { ExportActions } from './ExportActions';
+import { SelectionBar } from './SelectionBar';
+import type { ExportedFile } from '../api/contract';
+
+/** A collection the Save button can copy a wildcard into. */
+export interface SaveTarget {
+  id: string;
+  label: string;
+}
 
 interface Props {
   theme: Theme;
@@ -27,6 +36,10 @@ interface Props {
   onShowClearConfirm: () => void;
   onCancelClear: () => void;
   onClear: () => void;
+  /** True when a wildcards folder is configured for direct export. */
+  exportFolderEnabled: boolean;
+  onExportDownload: () => void;
+  onExportToFolder: () => Promise<ExportedFile[]>;
   // Card props
   copiedId: string | null;
   lastGenerationTime?: number;
@@ -35,12 +48,23 @@ interface Props {
   currentGalleryImageUrl: string;
   onCopy: (text: string, id: string) => void;
   /** Only for the Generated list */
-  onSave?: (item: WildcardItem) => void;
-  onRefine: (text: string) => void;
+  onSave?: (item: WildcardItem, targetId: string) => void;
+  saveTargets?: SaveTarget[];
+  onRefine: (item: WildcardItem) => void;
   onAddPreview: (id: string, url: string) => void;
   onRemovePreview: (id: string, url: string) => void;
   onSetDefaultPreview: (id: string, url: string) => void;
+  onEdit: (id: string, text: string) => Promise<boolean>;
+  onLoadHistory: (id: string) => Promise<WildcardEdit[]>;
+  onLoadLineage: (id: string) => Promise<WildcardLineage>;
   onRemove: (id: string) => void;
+  // Bulk actions on the selected cards
+  /** Collections the selection can be saved or moved into. */
+  bulkTargets: SaveTarget[];
+  onCopyMany: (ids: string[], targetId: string) => Promise<unknown>;
+  onMoveMany: (ids: string[], targetId: string) => void;
+  onEditTagsMany: (ids: string[], tags: { add: string[]; remove: string[] }) => Promise<unknown>;
+  onRemoveMany: (ids: string[]) => void;
   onHoverChange: (url: string | null, side?: 'left' | 'right') => void;
   previewSide?: 'left' | 'right';
 }
@@ -58,6 +82,9 @@ export const WildcardList = React.memo(function WildcardList({
   onShowClearConfirm,
   onCancelClear,
   onClear,
+  exportFolderEnabled,
+  onExportDownload,
+  onExportToFolder,
   copiedId,
   lastGenerationTime,
   galleryEnabled,
@@ -65,17 +92,70 @@ export const WildcardList = React.memo(function WildcardList({
   currentGalleryImageUrl,
   onCopy,
   onSave,
+  saveTargets,
   onRefine,
   onAddPreview,
   onRemovePreview,
   onSetDefaultPreview,
+  onEdit,
+  onLoadHistory,
+  onLoadLineage,
   onRemove,
+  bulkTargets,
+  onCopyMany,
+  onMoveMany,
+  onEditTagsMany,
+  onRemoveMany,
   onHoverChange,
   previewSide = 'right',
 }: Props) {
   const { t } = useTranslation();
   const safeItems = items ?? [];
   const parentRef = useRef<HTMLDivElement>(null);
+  const [showExport, setShowExport] = useState(false);
+
+  // ── Multi-select ──────────────────────────────────────────────────────────
+  // Ctrl/Cmd-click toggles a card, Shift-click extends from the last clicked one.
+  // While anything is selected a plain click toggles too, and Escape clears.
+  const [selected, setSelected] = useState<Set<string>>(() => new Set());
+  const anchorRef = useRef<string | null>(null);
+  // Ids that left the list (deleted, moved, filtered out by a search) drop out here.
+  const selectedItems = useMemo(() => safeItems.filter((i) => selected.has(i.id)), [safeItems, selected]);
+  const selecting = selectedItems.length > 0;
+
+  const handleSelect = (id: string, range: boolean) => {
+    const from = anchorRef.current ? safeItems.findIndex((i) => i.id === anchorRef.current) : -1;
+    const to = safeItems.findIndex((i) => i.id === id);
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (range && from !== -1) {
+        for (let i = Math.min(from, to); i <= Math.max(from, to); i++) next.add(safeItems[i].id);
+      } else if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+    if (!range) anchorRef.current = id;
+  };
+
+  const clearSelection = () => {
+    setSelected(new Set());
+    anchorRef.current = null;
+  };
+
+  useEffect(() => {
+    if (!selecting) return;
+    const onKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      if (e.key !== 'Escape' || target.closest('input, textarea')) return;
+      setSelected(new Set());
+      anchorRef.current = null;
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [selecting]);
 
   // ── Re-trigger hover after item removal ───────────────────────────────────
   // When a card is deleted the DOM node vanishes without a mouseleave, and the
@@ -151,6 +231,13 @@ export const WildcardList = React.memo(function WildcardList({
           </h2>
 
           <div className="flex items-center gap-1">
+            <button
+              onClick={() => setShowExport((v) => !v)}
+              disabled={total === 0}
+              className="flex items-center gap-1.5 px-2 py-1 hover:bg-black/5 rounded-md transition-colors opacity-40 hover:opacity-100 disabled:opacity-20 disabled:cursor-not-allowed text-[10px] font-medium"
+            >
+              <Download className="w-3 h-3" /> {t('export.export')}
+            </button>
             <button
               onClick={onShowClearConfirm}
               disabled={total === 0}
@@ -161,6 +248,54 @@ export const WildcardList = React.memo(function WildcardList({
           </div>
         </div>
 
+        {/* Bulk actions for the selected cards */}
+        <AnimatePresence>
+          {selecting && (
+            <motion.div
+              initial={{ opacity: 0, height: 0 }}
+              animate={{ opacity: 1, height: 'auto' }}
+              exit={{ opacity: 0, height: 0 }}
+              className="overflow-hidden"
+            >
+              <SelectionBar
+                theme={theme}
+                items={selectedItems}
+                loadedCount={safeItems.length}
+                targets={bulkTargets}
+                exportName={title}
+                onSelectAll={() => setSelected(new Set(safeItems.map((i) => i.id)))}
+                onClearSelection={clearSelection}
+                onCopyTo={onCopyMany}
+                onMoveTo={onMoveMany}
+                onEditTags={onEditTagsMany}
+                onDelete={onRemoveMany}
+              />
+            </motion.div>
+          )}
+        </AnimatePresence>
+
+        {/* Export bar */}
+        <AnimatePresence>
+          {showExport && (
+            <motion.div
+              initial={{ opacity: 0, height: 0 }}
+              animate={{ opacity: 1, height: 'auto' }}
+              exit={{ opacity: 0, height: 0 }}
+              className="overflow-hidden"
+            >
+              <div className="px-4 pb-3 border-t pt-3" style={{ borderColor: theme.border }}>
+                <ExportActions
+                  theme={theme}
+                  downloadLabel={t('export.downloadTxt')}
+                  folderEnabled={exportFolderEnabled}
+                  onDownload={onExportDownload}
+                  onWriteToFolder={onExportToFolder}
+                />
+              </div>
+            </motion.div>
+          )}
+        </AnimatePresence>
+
         {/* Clear confirmation bar */}
         <AnimatePresence>
           {clearConfirm && (
@@ -249,12 +384,19 @@ export const WildcardList = React.memo(function WildcardList({
                         galleryEmpty={galleryEmpty}
                         currentGalleryImageUrl={currentGalleryImageUrl}
                         onCopy={() => onCopy(safeItems[vRow.index].text, safeItems[vRow.index].id)}
-                        onSave={onSave ? () => onSave(safeItems[vRow.index]) : undefined}
-                        onRefine={() => onRefine(safeItems[vRow.index].text)}
+                        onSave={onSave ? (targetId) => onSave(safeItems[vRow.index], targetId) : undefined}
+                        saveTargets={saveTargets}
+                        onRefine={() => onRefine(safeItems[vRow.index])}
                         onAddPreview={() => onAddPreview(safeItems[vRow.index].id, currentGalleryImageUrl)}
                         onRemovePreview={(url) => onRemovePreview(safeItems[vRow.index].id, url)}
                         onSetDefaultPreview={(url) => onSetDefaultPreview(safeItems[vRow.index].id, url)}
+                        onEdit={(text) => onEdit(safeItems[vRow.index].id, text)}
+                        onLoadHistory={() => onLoadHistory(safeItems[vRow.index].id)}
+                        onLoadLineage={() => onLoadLineage(safeItems[vRow.index].id)}
                         onRemove={() => onRemove(safeItems[vRow.index].id)}
+                        isSelected={selected.has(safeItems[vRow.index].id)}
+                        selecting={selecting}
+                        onSelect={(range) => handleSelect(safeItems[vRow.index].id, range)}
                         onHoverChange={onHoverChange}
                         previewSide={previewSide}
                       />
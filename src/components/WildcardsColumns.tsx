@@ -3,39 +3,51 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useEffect, useMemo } from 'react';
 import { useTranslation } from 'react-i18next';
-import { Theme, WildcardItem } from '../types';
-import { WildcardListHandle } from '../hooks/useWildcardList';
-import { WildcardList } from './WildcardList';
+import { Collection, Theme, WildcardEdit, WildcardItem, WildcardLineage } from '../types';
+import { GENERATED_COLLECTION } from '../constants';
+import { WildcardListHandle, useWildcardList } from '../hooks/useWildcardList';
+import { collectionLabel } from '../utils/collectionLabel';
+import { cn } from '../utils/cn';
+import { WildcardList, SaveTarget } from './WildcardList';
 import { ColumnPreviewOverlay } from './ColumnPreviewOverlay';
+import type { ExportedFile } from '../api/contract';
 
 interface Props {
   theme: Theme;
-  // Generated list
-  generatedList: WildcardListHandle;
-  clearGeneratedConfirm: boolean;
-  setClearGeneratedConfirm: (v: boolean) => void;
-  onClearGenerated: () => void;
-  onSave: (item: WildcardItem) => void;
-  onRemoveGenerated: (id: string) => void;
-  // Saved list
-  savedList: WildcardListHandle;
-  clearSavedConfirm: boolean;
-  setClearSavedConfirm: (v: boolean) => void;
-  onClearSaved: () => void;
-  onRemoveSaved: (id: string) => void;
-  // Shared
+  /** Collections to render as columns, left to right. */
+  collections: Collection[];
+  /** Collections the Save button on Generated cards can copy into. */
+  saveTargets: Collection[];
+  /** Every collection, visible or not; bulk actions can save or move into any but the column's own. */
+  allCollections: Collection[];
+  searchQuery: string;
+  /** Lets App reach each column's list handle (null when a column unmounts). */
+  registerList: (listId: string, handle: WildcardListHandle | null) => void;
   copiedId: string | null;
   lastGenerationTime: number;
   galleryEnabled: boolean;
   galleryEmpty: boolean;
   currentGalleryImageUrl: string;
   onCopy: (text: string, id: string) => void;
-  onRefine: (text: string) => void;
-  onAddPreview: (id: string, url: string, listType: 'generated' | 'saved') => void;
-  onRemovePreview: (id: string, url: string, listType: 'generated' | 'saved') => void;
-  onSetDefaultPreview: (id: string, url: string, listType: 'generated' | 'saved') => void;
+  onSave: (item: WildcardItem, targetId: string) => void;
+  onRefine: (item: WildcardItem) => void;
+  onAddPreview: (id: string, url: string, listId: string) => void;
+  onRemovePreview: (id: string, url: string, listId: string) => void;
+  onSetDefaultPreview: (id: string, url: string, listId: string) => void;
+  onEdit: (id: string, text: string, listId: string) => Promise<boolean>;
+  onLoadHistory: (id: string) => Promise<WildcardEdit[]>;
+  onLoadLineage: (id: string) => Promise<WildcardLineage>;
+  onRemove: (id: string, listId: string) => void;
+  onClear: (listId: string) => void;
+  onCopyMany: (ids: string[], targetId: string) => Promise<unknown>;
+  onMoveMany: (ids: string[], fromListId: string, targetId: string) => void;
+  onEditTagsMany: (ids: string[], tags: { add: string[]; remove: string[] }, listId: string) => Promise<unknown>;
+  onRemoveMany: (ids: string[], listId: string) => void;
+  exportFolderEnabled: boolean;
+  onExportDownload: (listId: string) => void;
+  onExportToFolder: (listId: string) => Promise<ExportedFile[]>;
 }
 
 /**
@@ -44,136 +56,273 @@ interface Props {
  */
 export const WildcardsColumns = React.memo(function WildcardsColumns({
   theme,
-  generatedList,
-  clearGeneratedConfirm,
-  setClearGeneratedConfirm,
-  onClearGenerated,
-  onSave,
-  onRemoveGenerated,
-  savedList,
-  clearSavedConfirm,
-  setClearSavedConfirm,
-  onClearSaved,
-  onRemoveSaved,
+  collections,
+  saveTargets,
+  allCollections,
+  searchQuery,
+  registerList,
   copiedId,
   lastGenerationTime,
   galleryEnabled,
   galleryEmpty,
   currentGalleryImageUrl,
   onCopy,
+  onSave,
   onRefine,
   onAddPreview,
   onRemovePreview,
   onSetDefaultPreview,
+  onEdit,
+  onLoadHistory,
+  onLoadLineage,
+  onRemove,
+  onClear,
+  onCopyMany,
+  onMoveMany,
+  onEditTagsMany,
+  onRemoveMany,
+  exportFolderEnabled,
+  onExportDownload,
+  onExportToFolder,
 }: Props) {
   // ── Hover preview state lives here — changes don't bubble up to App ──────
-  const [previewHover, setPreviewHover] = useState<{ url: string; side: 'left' | 'right' } | null>(null);
+  // `column` is the index of the column that shows the overlay: the one next
+  // to the hovered card, on the side the card asked for.
+  const [previewHover, setPreviewHover] = useState<{ url: string; column: number } | null>(null);
   const { t } = useTranslation();
 
-  const handleHoverChange = useCallback((url: string | null, side: 'left' | 'right' = 'right') => {
-    setPreviewHover(url ? { url, side } : null);
-  }, []);
-
-  // Stable callbacks so WildcardList can be memoized effectively.
-  const handleAddPreviewGenerated = useCallback(
-    (id: string, url: string) => onAddPreview(id, url, 'generated'),
-    [onAddPreview],
-  );
-  const handleAddPreviewSaved = useCallback(
-    (id: string, url: string) => onAddPreview(id, url, 'saved'),
-    [onAddPreview],
-  );
-  const handleRemovePreviewGenerated = useCallback(
-    (id: string, url: string) => onRemovePreview(id, url, 'generated'),
-    [onRemovePreview],
-  );
-  const handleRemovePreviewSaved = useCallback(
-    (id: string, url: string) => onRemovePreview(id, url, 'saved'),
-    [onRemovePreview],
+  const handleHoverChange = useCallback(
+    (columnIndex: number, url: string | null, side: 'left' | 'right' = 'right') => {
+      setPreviewHover(url ? { url, column: side === 'right' ? columnIndex + 1 : columnIndex - 1 } : null);
+    },
+    [],
   );
-  const handleSetDefaultPreviewGenerated = useCallback(
-    (id: string, url: string) => onSetDefaultPreview(id, url, 'generated'),
-    [onSetDefaultPreview],
+
+  const targets: SaveTarget[] = useMemo(
+    () => saveTargets.map((c) => ({ id: c.id, label: collectionLabel(c, t) })),
+    [saveTargets, t],
   );
-  const handleSetDefaultPreviewSaved = useCallback(
-    (id: string, url: string) => onSetDefaultPreview(id, url, 'saved'),
-    [onSetDefaultPreview],
+  const bulkTargets: SaveTarget[] = useMemo(
+    () => allCollections.map((c) => ({ id: c.id, label: collectionLabel(c, t) })),
+    [allCollections, t],
   );
-  const showClearGenerated = useCallback(() => setClearGeneratedConfirm(true), [setClearGeneratedConfirm]);
-  const cancelClearGenerated = useCallback(() => setClearGeneratedConfirm(false), [setClearGeneratedConfirm]);
-  const showClearSaved = useCallback(() => setClearSavedConfirm(true), [setClearSavedConfirm]);
-  const cancelClearSaved = useCallback(() => setClearSavedConfirm(false), [setClearSavedConfirm]);
 
   return (
     <div className="flex-1 flex overflow-hidden">
-      {/* Generated column */}
-      <div
-        className="relative flex-1 border-r overflow-hidden flex flex-col"
-        style={{ borderColor: theme.border }}
-      >
-        {/* Overlay shown when a Saved card is hovered */}
-        <ColumnPreviewOverlay url={previewHover?.side === 'left' ? previewHover.url : null} />
-        <WildcardList
+      {collections.map((collection, index) => (
+        <CollectionColumn
+          key={collection.id}
           theme={theme}
-          title={t('list.generated')}
-          items={generatedList.items}
-          total={generatedList.total}
-          isLoadingMore={generatedList.isLoadingMore}
-          hasMore={generatedList.hasMore}
-          onLoadMore={generatedList.loadMore}
-          isInitialLoad={generatedList.isInitialLoad}
-          clearConfirm={clearGeneratedConfirm}
-          onShowClearConfirm={showClearGenerated}
-          onCancelClear={cancelClearGenerated}
-          onClear={onClearGenerated}
+          collection={collection}
+          title={collectionLabel(collection, t)}
+          index={index}
+          isLast={index === collections.length - 1}
+          overlayUrl={previewHover?.column === index ? previewHover.url : null}
+          saveTargets={collection.id === GENERATED_COLLECTION ? targets : undefined}
+          bulkTargets={bulkTargets}
+          searchQuery={searchQuery}
+          registerList={registerList}
           copiedId={copiedId}
-          lastGenerationTime={lastGenerationTime}
+          lastGenerationTime={collection.id === GENERATED_COLLECTION ? lastGenerationTime : undefined}
           galleryEnabled={galleryEnabled}
           galleryEmpty={galleryEmpty}
           currentGalleryImageUrl={currentGalleryImageUrl}
           onCopy={onCopy}
           onSave={onSave}
           onRefine={onRefine}
-          onAddPreview={handleAddPreviewGenerated}
-          onRemovePreview={handleRemovePreviewGenerated}
-          onSetDefaultPreview={handleSetDefaultPreviewGenerated}
-          onRemove={onRemoveGenerated}
+          onAddPreview={onAddPreview}
+          onRemovePreview={onRemovePreview}
+          onSetDefaultPreview={onSetDefaultPreview}
+          onEdit={onEdit}
+          onLoadHistory={onLoadHistory}
+          onLoadLineage={onLoadLineage}
+          onRemove={onRemove}
+          onClear={onClear}
+          onCopyMany={onCopyMany}
+          onMoveMany={onMoveMany}
+          onEditTagsMany={onEditTagsMany}
+          onRemoveMany={onRemoveMany}
+          exportFolderEnabled={exportFolderEnabled}
+          onExportDownload={onExportDownload}
+          onExportToFolder={onExportToFolder}
           onHoverChange={handleHoverChange}
-          previewSide="right"
         />
-      </div>
+      ))}
+    </div>
+  );
+});
 
-      {/* Saved column */}
-      <div className="relative flex-1 overflow-hidden flex flex-col">
-        {/* Overlay shown when a Generated card is hovered */}
-        <ColumnPreviewOverlay url={previewHover?.side === 'right' ? previewHover.url : null} />
-        <WildcardList
-          theme={theme}
-          title={t('list.saved')}
-          items={savedList.items}
-          total={savedList.total}
-          isLoadingMore={savedList.isLoadingMore}
-          hasMore={savedList.hasMore}
-          onLoadMore={savedList.loadMore}
-          isInitialLoad={savedList.isInitialLoad}
-          clearConfirm={clearSavedConfirm}
-          onShowClearConfirm={showClearSaved}
-          onCancelClear={cancelClearSaved}
-          onClear={onClearSaved}
-          copiedId={copiedId}
-          galleryEnabled={galleryEnabled}
-          galleryEmpty={galleryEmpty}
-          currentGalleryImageUrl={currentGalleryImageUrl}
-          onCopy={onCopy}
-          onRefine={onRefine}
-          onAddPreview={handleAddPreviewSaved}
-          onRemovePreview={handleRemovePreviewSaved}
-          onSetDefaultPreview={handleSetDefaultPreviewSaved}
-          onRemove={onRemoveSaved}
-          onHoverChange={handleHoverChange}
-          previewSide="left"
-        />
-      </div>
+interface ColumnProps {
+  theme: Theme;
+  collection: Collection;
+  title: string;
+  index: number;
+  isLast: boolean;
+  /** Preview image to show over this column (from a card in a neighbouring column). */
+  overlayUrl: string | null;
+  saveTargets?: SaveTarget[];
+  /** Every collection; the column's own is left out of its bulk targets. */
+  bulkTargets: SaveTarget[];
+  searchQuery: string;
+  registerList: (listId: string, handle: WildcardListHandle | null) => void;
+  copiedId: string | null;
+  lastGenerationTime?: number;
+  galleryEnabled: boolean;
+  galleryEmpty: boolean;
+  currentGalleryImageUrl: string;
+  onCopy: (text: string, id: string) => void;
+  onSave: (item: WildcardItem, targetId: string) => void;
+  onRefine: (item: WildcardItem) => void;
+  onAddPreview: (id: string, url: string, listId: string) => void;
+  onRemovePreview: (id: string, url: string, listId: string) => void;
+  onSetDefaultPreview: (id: string, url: string, listId: string) => void;
+  onEdit: (id: string, text: string, listId: string) => Promise<boolean>;
+  onLoadHistory: (id: string) => Promise<WildcardEdit[]>;
+  onLoadLineage: (id: string) => Promise<WildcardLineage>;
+  onRemove: (id: string, listId: string) => void;
+  onClear: (listId: string) => void;
+  onCopyMany: (ids: string[], targetId: string) => Promise<unknown>;
+  onMoveMany: (ids: string[], fromListId: string, targetId: string) => void;
+  onEditTagsMany: (ids: string[], tags: { add: string[]; remove: string[] }, listId: string) => Promise<unknown>;
+  onRemoveMany: (ids: string[], listId: string) => void;
+  exportFolderEnabled: boolean;
+  onExportDownload: (listId: string) => void;
+  onExportToFolder: (listId: string) => Promise<ExportedFile[]>;
+  onHoverChange: (columnIndex: number, url: string | null, side?: 'left' | 'right') => void;
+}
+
+/** One collection column. Owns its paginated list so any number of columns can be shown. */
+const CollectionColumn = React.memo(function CollectionColumn({
+  theme,
+  collection,
+  title,
+  index,
+  isLast,
+  overlayUrl,
+  saveTargets,
+  bulkTargets,
+  searchQuery,
+  registerList,
+  copiedId,
+  lastGenerationTime,
+  galleryEnabled,
+  galleryEmpty,
+  currentGalleryImageUrl,
+  onCopy,
+  onSave,
+  onRefine,
+  onAddPreview,
+  onRemovePreview,
+  onSetDefaultPreview,
+  onEdit,
+  onLoadHistory,
+  onLoadLineage,
+  onRemove,
+  onClear,
+  onCopyMany,
+  onMoveMany,
+  onEditTagsMany,
+  onRemoveMany,
+  exportFolderEnabled,
+  onExportDownload,
+  onExportToFolder,
+  onHoverChange,
+}: ColumnProps) {
+  const listId = collection.id;
+  const list = useWildcardList(listId, searchQuery);
+  const [clearConfirm, setClearConfirm] = useState(false);
+
+  // Keep App's registry pointing at the latest handle; drop it on unmount.
+  useEffect(() => { registerList(listId, list); });
+  useEffect(() => () => registerList(listId, null), [listId, registerList]);
+
+  // Stable callbacks so WildcardList can be memoized effectively.
+  const handleAddPreview = useCallback(
+    (id: string, url: string) => onAddPreview(id, url, listId),
+    [onAddPreview, listId],
+  );
+  const handleRemovePreview = useCallback(
+    (id: string, url: string) => onRemovePreview(id, url, listId),
+    [onRemovePreview, listId],
+  );
+  const handleSetDefaultPreview = useCallback(
+    (id: string, url: string) => onSetDefaultPreview(id, url, listId),
+    [onSetDefaultPreview, listId],
+  );
+  const handleEdit = useCallback((id: string, text: string) => onEdit(id, text, listId), [onEdit, listId]);
+  const handleRemove = useCallback((id: string) => onRemove(id, listId), [onRemove, listId]);
+  const handleClear = useCallback(() => {
+    onClear(listId);
+    setClearConfirm(false);
+  }, [onClear, listId]);
+  const handleExportDownload = useCallback(() => onExportDownload(listId), [onExportDownload, listId]);
+  const handleExportToFolder = useCallback(() => onExportToFolder(listId), [onExportToFolder, listId]);
+  const ownBulkTargets = useMemo(() => bulkTargets.filter((c) => c.id !== listId), [bulkTargets, listId]);
+  const handleMoveMany = useCallback(
+    (ids: string[], targetId: string) => onMoveMany(ids, listId, targetId),
+    [onMoveMany, listId],
+  );
+  const handleEditTagsMany = useCallback(
+    (ids: string[], tags: { add: string[]; remove: string[] }) => onEditTagsMany(ids, tags, listId),
+    [onEditTagsMany, listId],
+  );
+  const handleRemoveMany = useCallback((ids: string[]) => onRemoveMany(ids, listId), [onRemoveMany, listId]);
+  const showClear = useCallback(() => setClearConfirm(true), []);
+  const cancelClear = useCallback(() => setClearConfirm(false), []);
+  // The first column previews into its right neighbour; every other column into its left one.
+  const previewSide = index === 0 ? 'right' : 'left';
+  const handleHoverChange = useCallback(
+    (url: string | null, side?: 'left' | 'right') => onHoverChange(index, url, side),
+    [onHoverChange, index],
+  );
+
+  return (
+    <div
+      className={cn('relative flex-1 min-w-0 overflow-hidden flex flex-col', !isLast && 'border-r')}
+      style={{ borderColor: theme.border }}
+    >
+      {/* Overlay shown when a card in a neighbouring column is hovered */}
+      <ColumnPreviewOverlay url={overlayUrl} />
+      <WildcardList
+        theme={theme}
+        title={title}
+        items={list.items}
+        total={list.total}
+        isLoadingMore={list.isLoadingMore}
+        hasMore={list.hasMore}
+        onLoadMore={list.loadMore}
+        isInitialLoad={list.isInitialLoad}
+        clearConfirm={clearConfirm}
+        onShowClearConfirm={showClear}
+        onCancelClear={cancelClear}
+        onClear={handleClear}
+        exportFolderEnabled={exportFolderEnabled}
+        onExportDownload={handleExportDownload}
+        onExportToFolder={handleExportToFolder}
+        copiedId={copiedId}
+        lastGenerationTime={lastGenerationTime}
+        galleryEnabled={galleryEnabled}
+        galleryEmpty={galleryEmpty}
+        currentGalleryImageUrl={currentGalleryImageUrl}
+        onCopy={onCopy}
+        onSave={saveTargets ? onSave : undefined}
+        saveTargets={saveTargets}
+        onRefine={onRefine}
+        onAddPreview={handleAddPreview}
+        onRemovePreview={handleRemovePreview}
+        onSetDefaultPreview={handleSetDefaultPreview}
+        onEdit={handleEdit}
+        onLoadHistory={onLoadHistory}
+        onLoadLineage={onLoadLineage}
+        onRemove={handleRemove}
+        bulkTargets={ownBulkTargets}
+        onCopyMany={onCopyMany}
+        onMoveMany={handleMoveMany}
+        onEditTagsMany={handleEditTagsMany}
+        onRemoveMany={handleRemoveMany}
+        onHoverChange={handleHoverChange}
+        previewSide={previewSide}
+      />
     </div>
   );
 });
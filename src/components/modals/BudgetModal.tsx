@@ -0,0 +1,106 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React from 'react';
+import { Wallet } from 'lucide-react';
+import { motion, AnimatePresence } from 'motion/react';
+import { useTranslation } from 'react-i18next';
+import { GenerationEstimate, Theme } from '../../types';
+
+interface Props {
+  theme: Theme;
+  /** The over-budget check to show; null hides the modal. */
+  check: GenerationEstimate | null;
+  onClose: () => void;
+  /** Runs the generation anyway; only offered in 'confirm' mode. */
+  onConfirm: () => void;
+}
+
+/** Shown before a generation whose estimate would go over a budget. */
+export function BudgetModal({ theme, check, onClose, onConfirm }: Props) {
+  const { t } = useTranslation();
+  const blocked = check?.mode === 'block';
+  return (
+    <AnimatePresence>
+      {check && (
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          className="fixed inset-0 z-[200] flex items-center justify-center p-6 bg-black/50 backdrop-blur-sm"
+          onClick={onClose}
+        >
+          <motion.div
+            initial={{ scale: 0.9, opacity: 0 }}
+            animate={{ scale: 1, opacity: 1 }}
+            exit={{ scale: 0.9, opacity: 0 }}
+            className="w-full max-w-sm rounded-2xl shadow-2xl overflow-hidden"
+            style={{ backgroundColor: theme.card, color: theme.text }}
+            onClick={(e) => e.stopPropagation()}
+          >
+            <div className="p-6 border-b flex items-center gap-3" style={{ borderColor: theme.border }}>
+              <div className="w-8 h-8 rounded-full flex items-center justify-center bg-amber-500/10 shrink-0">
+                <Wallet className="w-4 h-4 text-amber-500" />
+              </div>
+              <div>
+                <h2 className="text-sm font-bold">{t('budgetModal.title')}</h2>
+                <p className="text-[10px] opacity-40 mt-0.5">
+                  {blocked ? t('budgetModal.blocked') : t('budgetModal.confirm')}
+                </p>
+              </div>
+            </div>
+
+            <div className="p-6 space-y-3">
+              <div className="flex items-center justify-between text-xs rounded-lg px-3 py-2" style={{ backgroundColor: theme.input }}>
+                <span className="opacity-60">{t('budgetModal.estimate')}</span>
+                <span className="font-bold font-mono opacity-80">${check.estimate.cost.toFixed(6)}</span>
+              </div>
+              <p className="text-[9px] font-mono opacity-30">
+                {t('budgetModal.tokens', {
+                  input: check.estimate.inputTokens,
+                  output: check.estimate.outputTokens,
+                  image: check.estimate.imageTokens,
+                })}
+              </p>
+              <ul className="space-y-2">
+                {check.exceeded.map((period) => (
+                  <li
+                    key={period}
+                    className="flex items-center justify-between text-xs rounded-lg px-3 py-2 border border-red-500/30"
+                  >
+                    <span className="opacity-60">{t(`budget.${period}`)}</span>
+                    <span className="font-mono">
+                      <span className="opacity-60">${check.spend[period].toFixed(4)}</span>
+                      <span className="opacity-30"> + ${check.estimate.cost.toFixed(4)} / </span>
+                      <span className="font-bold text-red-500">${check.limits[period]!.toFixed(2)}</span>
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+
+            <div className="px-6 pb-6 flex gap-3">
+              <button
+                onClick={onClose}
+                className="flex-1 h-10 rounded-lg text-xs font-bold uppercase tracking-widest transition-all"
+                style={{ backgroundColor: theme.input }}
+              >
+                {blocked ? t('budgetModal.close') : t('budgetModal.cancel')}
+              </button>
+              {!blocked && (
+                <button
+                  onClick={onConfirm}
+                  className="flex-1 h-10 rounded-lg text-xs font-bold uppercase tracking-widest transition-all bg-amber-500 hover:bg-amber-600 text-white"
+                >
+                  {t('budgetModal.generateAnyway')}
+                </button>
+              )}
+            </div>
+          </motion.div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+}
@@ -0,0 +1,230 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { BarChart3, X, Download } from 'lucide-react';
+import { motion, AnimatePresence } from 'motion/react';
+import { useTranslation } from 'react-i18next';
+import { CostAnalytics, CostBucket, Theme } from '../../types';
+import { dbApi } from '../../api/dbApi';
+import { reportApiError } from '../../api/http';
+
+interface Props {
+  theme: Theme;
+  show: boolean;
+  onClose: () => void;
+}
+
+/** Range presets in days; null is all time. */
+const RANGES: (number | null)[] = [7, 30, 90, 365, null];
+const BUCKETS: CostBucket[] = ['day', 'week'];
+// Bar segment colours, assigned to models in order of spend.
+const MODEL_COLORS = ['#3b82f6', '#f59e0b', '#10b981', '#ef4444', '#8b5cf6', '#ec4899', '#14b8a6', '#84cc16'];
+
+/** Midnight (local time) `days - 1` days ago, so the range includes today. */
+function rangeStart(days: number): number {
+  const start = new Date();
+  start.setHours(0, 0, 0, 0);
+  start.setDate(start.getDate() - (days - 1));
+  return start.getTime();
+}
+
+/** Spend per day or week and per model, with a CSV export of the calls in range. */
+export function CostAnalyticsModal({ theme, show, onClose }: Props) {
+  const { t } = useTranslation();
+  const [days, setDays] = useState<number | null>(30);
+  const [bucket, setBucket] = useState<CostBucket>('day');
+  const [analytics, setAnalytics] = useState<CostAnalytics | null>(null);
+
+  const from = days === null ? undefined : rangeStart(days);
+
+  useEffect(() => {
+    if (!show) return;
+    let stale = false;
+    dbApi.fetchCostAnalytics({ from, bucket })
+      .then((a) => { if (!stale) setAnalytics(a); })
+      .catch(reportApiError);
+    return () => { stale = true; };
+  }, [show, from, bucket]);
+
+  const colors = useMemo(
+    () => new Map(analytics?.models.map((m, i) => [m.model, MODEL_COLORS[i % MODEL_COLORS.length]])),
+    [analytics],
+  );
+  const maxCost = Math.max(0, ...(analytics?.periods.map((p) => p.cost) ?? []));
+
+  const handleExport = () => {
+    const a = document.createElement('a');
+    a.href = dbApi.costsExportUrl({ from });
+    a.download = '';
+    a.click();
+  };
+
+  return (
+    <AnimatePresence>
+      {show && (
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          className="fixed inset-0 z-[200] flex items-center justify-center p-6 bg-black/50 backdrop-blur-sm"
+          onClick={onClose}
+        >
+          <motion.div
+            initial={{ scale: 0.9, opacity: 0 }}
+            animate={{ scale: 1, opacity: 1 }}
+            exit={{ scale: 0.9, opacity: 0 }}
+            className="w-full max-w-4xl max-h-[85vh] rounded-2xl shadow-2xl overflow-hidden flex flex-col"
+            style={{ backgroundColor: theme.card, color: theme.text }}
+            onClick={(e) => e.stopPropagation()}
+          >
+            <div className="p-6 border-b flex items-center gap-3 shrink-0" style={{ borderColor: theme.border }}>
+              <div className="w-8 h-8 rounded-full flex items-center justify-center shrink-0" style={{ backgroundColor: theme.input }}>
+                <BarChart3 className="w-4 h-4" style={{ color: theme.accent }} />
+              </div>
+              <div className="flex-1">
+                <h2 className="text-sm font-bold">{t('analytics.title')}</h2>
+                <p className="text-[10px] opacity-40 mt-0.5">{t('analytics.subtitle')}</p>
+              </div>
+              <button onClick={onClose} className="p-1 hover:bg-black/5 rounded-full transition-colors">
+                <X className="w-4 h-4" />
+              </button>
+            </div>
+
+            <div className="flex-1 p-6 space-y-5 overflow-y-auto custom-scrollbar">
+              {/* Range, bucket, export */}
+              <div className="flex flex-wrap items-center gap-2">
+                <div className="flex rounded-lg overflow-hidden" style={{ backgroundColor: theme.input }}>
+                  {RANGES.map((r) => (
+                    <button
+                      key={r ?? 'all'}
+                      onClick={() => setDays(r)}
+                      className="h-7 px-3 text-[10px] font-bold uppercase tracking-wider transition-all"
+                      style={days === r ? { backgroundColor: theme.accent, color: theme.id === 'dark' ? '#000' : '#fff' } : undefined}
+                    >
+                      {r === null ? t('analytics.allTime') : t('analytics.lastDays', { count: r })}
+                    </button>
+                  ))}
+                </div>
+                <div className="flex rounded-lg overflow-hidden" style={{ backgroundColor: theme.input }}>
+                  {BUCKETS.map((b) => (
+                    <button
+                      key={b}
+                      onClick={() => setBucket(b)}
+                      className="h-7 px-3 text-[10px] font-bold uppercase tracking-wider transition-all"
+                      style={bucket === b ? { backgroundColor: theme.accent, color: theme.id === 'dark' ? '#000' : '#fff' } : undefined}
+                    >
+                      {t(`analytics.bucket.${b}`)}
+                    </button>
+                  ))}
+                </div>
+                <button
+                  onClick={handleExport}
+                  disabled={!analytics?.total.calls}
+                  className="ml-auto h-7 px-3 rounded-lg text-[10px] font-bold uppercase tracking-wider transition-all disabled:opacity-30 flex items-center gap-1.5"
+                  style={{ backgroundColor: theme.input, color: theme.accent }}
+                >
+                  <Download className="w-3 h-3" /> {t('analytics.exportCsv')}
+                </button>
+              </div>
+
+              {analytics && (
+                <>
+                  {/* Totals */}
+                  <ul className="grid grid-cols-4 gap-2">
+                    {[
+                      { label: t('analytics.spend'), value: `$${analytics.total.cost.toFixed(6)}` },
+                      { label: t('analytics.calls'), value: analytics.total.calls },
+                      { label: t('generations.inputTokens'), value: analytics.total.inputTokens },
+                      { label: t('generations.outputTokens'), value: analytics.total.outputTokens },
+                    ].map(({ label, value }) => (
+                      <li key={label} className="rounded-lg px-3 py-2 text-center" style={{ backgroundColor: theme.input }}>
+                        <div className="text-xs font-bold font-mono truncate">{value}</div>
+                        <div className="text-[9px] uppercase tracking-wider opacity-40">{label}</div>
+                      </li>
+                    ))}
+                  </ul>
+
+                  {/* Spend per period, stacked by model */}
+                  <div className="space-y-1">
+                    <label className="text-[10px] font-bold uppercase tracking-wider opacity-40">
+                      {t(`analytics.perBucket.${analytics.bucket}`)}
+                    </label>
+                    {analytics.periods.length === 0 ? (
+                      <p className="text-[10px] opacity-30 italic py-6">{t('analytics.empty')}</p>
+                    ) : (
+                      <>
+                        <div className="h-40 flex items-end gap-px rounded-lg p-2" style={{ backgroundColor: theme.input }}>
+                          {analytics.periods.map((p) => (
+                            <div
+                              key={p.start}
+                              className="flex-1 min-w-0 h-full flex flex-col-reverse"
+                              title={`${p.start} · $${p.cost.toFixed(6)} · ${t('analytics.callCount', { count: p.calls })}`}
+                            >
+                              {Object.entries(p.byModel).map(([model, cost]) => (
+                                <div
+                                  key={model}
+                                  style={{
+                                    height: maxCost > 0 ? `${(cost / maxCost) * 100}%` : 0,
+                                    backgroundColor: colors.get(model),
+                                  }}
+                                />
+                              ))}
+                            </div>
+                          ))}
+                        </div>
+                        <div className="flex justify-between text-[9px] font-mono opacity-40">
+                          <span>{analytics.periods[0].start}</span>
+                          <span>${maxCost.toFixed(4)} {t('analytics.max')}</span>
+                          <span>{analytics.periods[analytics.periods.length - 1].start}</span>
+                        </div>
+                      </>
+                    )}
+                  </div>
+
+                  {/* Per model */}
+                  {analytics.models.length > 0 && (
+                    <div className="space-y-1">
+                      <label className="text-[10px] font-bold uppercase tracking-wider opacity-40">{t('analytics.perModel')}</label>
+                      <ul className="space-y-1">
+                        {analytics.models.map((m) => (
+                          <li
+                            key={`${m.provider}/${m.model}`}
+                            className="rounded-lg px-3 py-2 text-[10px] space-y-1"
+                            style={{ backgroundColor: theme.input }}
+                          >
+                            <div className="flex items-center gap-2">
+                              <span className="w-2 h-2 rounded-sm shrink-0" style={{ backgroundColor: colors.get(m.model) }} />
+                              <span className="font-mono font-bold truncate">{m.model}</span>
+                              <span className="opacity-40">{t(`settings.provider.${m.provider}`)}</span>
+                              <span className="ml-auto font-mono opacity-50">
+                                {t('analytics.callCount', { count: m.calls })} · {m.inputTokens}/{m.outputTokens}/{m.imageTokens}
+                              </span>
+                              <span className="font-mono font-bold w-24 text-right">${m.cost.toFixed(6)}</span>
+                            </div>
+                            <div className="h-1 rounded-full overflow-hidden" style={{ backgroundColor: theme.border }}>
+                              <div
+                                className="h-full rounded-full"
+                                style={{
+                                  width: analytics.total.cost > 0 ? `${(m.cost / analytics.total.cost) * 100}%` : 0,
+                                  backgroundColor: colors.get(m.model),
+                                }}
+                              />
+                            </div>
+                          </li>
+                        ))}
+                      </ul>
+                      <p className="text-[9px] opacity-30">{t('analytics.tokensLegend')}</p>
+                    </div>
+                  )}
+                </>
+              )}
+            </div>
+          </motion.div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+}
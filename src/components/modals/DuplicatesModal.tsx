@@ -0,0 +1,218 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useEffect, useState } from 'react';
+import { Layers, X, Merge, EyeOff } from 'lucide-react';
+import { motion, AnimatePresence } from 'motion/react';
+import { useTranslation } from 'react-i18next';
+import { Collection, DuplicateGroup, Theme, WildcardItem } from '../../types';
+import { dbApi } from '../../api/dbApi';
+import { useDebounce } from '../../hooks/useDebounce';
+import { collectionLabel } from '../../utils/collectionLabel';
+
+type ListedItem = WildcardItem & { list: string };
+
+interface Props {
+  theme: Theme;
+  show: boolean;
+  collections: Collection[];
+  /** Configured similarity threshold (0–1), the starting point of the slider. */
+  defaultThreshold: number;
+  onClose: () => void;
+  /** Called after a merge so open lists can drop the removed wildcards and refresh the kept one. */
+  onMerged: (kept: ListedItem, removed: ListedItem[]) => void;
+}
+
+/** Groups of near-duplicate wildcards across collections; each group can be merged into one of its members. */
+export function DuplicatesModal({ theme, show, collections, defaultThreshold, onClose, onMerged }: Props) {
+  const { t } = useTranslation();
+  const [scope, setScope] = useState('');
+  const [percent, setPercent] = useState(Math.round(defaultThreshold * 100));
+  const debouncedPercent = useDebounce(percent, 300);
+  const [groups, setGroups] = useState<DuplicateGroup[] | null>(null);
+  const [total, setTotal] = useState(0);
+  /** Chosen survivor per group, keyed by the group's first (oldest) wildcard. */
+  const [keepers, setKeepers] = useState<Record<string, string>>({});
+  const [error, setError] = useState<string | null>(null);
+
+  // Each opening starts from the configured threshold.
+  useEffect(() => {
+    if (show) setPercent(Math.round(defaultThreshold * 100));
+  }, [show, defaultThreshold]);
+
+  useEffect(() => {
+    if (!show) return;
+    let stale = false;
+    setGroups(null);
+    setError(null);
+    dbApi.fetchDuplicates({ list: scope || undefined, threshold: debouncedPercent / 100 })
+      .then((result) => {
+        if (stale) return;
+        setGroups(result.groups);
+        setTotal(result.total);
+        setKeepers({});
+      })
+      .catch((err) => { if (!stale) setError(err.message); });
+    return () => { stale = true; };
+  }, [show, scope, debouncedPercent]);
+
+  const nameOf = (listId: string) => {
+    const collection = collections.find((c) => c.id === listId);
+    return collection ? collectionLabel(collection, t) : listId;
+  };
+
+  const dismiss = (group: DuplicateGroup) => {
+    setGroups((prev) => prev && prev.filter((g) => g !== group));
+    setTotal((n) => n - 1);
+  };
+
+  const merge = async (group: DuplicateGroup) => {
+    const keepId = keepers[group.items[0].id] ?? group.items[0].id;
+    const removed = group.items.filter((i) => i.id !== keepId);
+    try {
+      const kept = await dbApi.mergeDuplicates(keepId, removed.map((i) => i.id));
+      onMerged(kept, removed);
+      dismiss(group);
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  return (
+    <AnimatePresence>
+      {show && (
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          className="fixed inset-0 z-[200] flex items-center justify-center p-6 bg-black/50 backdrop-blur-sm"
+          onClick={onClose}
+        >
+          <motion.div
+            initial={{ scale: 0.9, opacity: 0 }}
+            animate={{ scale: 1, opacity: 1 }}
+            exit={{ scale: 0.9, opacity: 0 }}
+            className="w-full max-w-3xl h-[80vh] rounded-2xl shadow-2xl overflow-hidden flex flex-col"
+            style={{ backgroundColor: theme.card, color: theme.text }}
+            onClick={(e) => e.stopPropagation()}
+          >
+            <div className="p-6 border-b flex items-center gap-3 shrink-0" style={{ borderColor: theme.border }}>
+              <div className="w-8 h-8 rounded-full flex items-center justify-center shrink-0" style={{ backgroundColor: theme.input }}>
+                <Layers className="w-4 h-4" style={{ color: theme.accent }} />
+              </div>
+              <div className="flex-1">
+                <h2 className="text-sm font-bold">{t('duplicates.title')}</h2>
+                <p className="text-[10px] opacity-40 mt-0.5">{t('duplicates.subtitle')}</p>
+              </div>
+              <button onClick={onClose} className="p-1 hover:bg-black/5 rounded-full transition-colors">
+                <X className="w-4 h-4" />
+              </button>
+            </div>
+
+            {/* Scope and threshold */}
+            <div className="px-6 py-3 border-b flex items-center gap-4 shrink-0" style={{ borderColor: theme.border }}>
+              <select
+                value={scope}
+                onChange={(e) => setScope(e.target.value)}
+                className="h-8 border-none rounded-lg px-2.5 pr-7 text-xs focus:ring-1"
+                style={{ backgroundColor: theme.input, color: theme.text, '--tw-ring-color': theme.accent } as React.CSSProperties}
+              >
+                <option value="">{t('duplicates.allCollections')}</option>
+                {collections.map((c) => (
+                  <option key={c.id} value={c.id}>{collectionLabel(c, t)}</option>
+                ))}
+              </select>
+              <label className="flex-1 flex items-center gap-3 text-[10px] font-bold uppercase tracking-wider">
+                <span className="opacity-40 shrink-0">{t('duplicates.threshold')}</span>
+                <input
+                  type="range"
+                  min="50"
+                  max="100"
+                  step="5"
+                  value={percent}
+                  onChange={(e) => setPercent(Number(e.target.value))}
+                  className="flex-1"
+                  style={{ accentColor: theme.accent }}
+                />
+                <span className="font-mono w-10 text-right">{percent}%</span>
+              </label>
+            </div>
+
+            <div className="flex-1 p-6 space-y-3 overflow-y-auto custom-scrollbar">
+              {error && <p className="text-[10px] text-red-500 break-words">{error}</p>}
+              {groups === null ? (
+                !error && <p className="text-[10px] opacity-30 italic">{t('duplicates.loading')}</p>
+              ) : groups.length === 0 ? (
+                <p className="text-[10px] opacity-30 italic">{t('duplicates.empty')}</p>
+              ) : (
+                <>
+                  <p className="text-[10px] opacity-40">
+                    {groups.length < total
+                      ? t('duplicates.showing', { shown: groups.length, count: total })
+                      : t('duplicates.found', { count: total })}
+                  </p>
+                  {groups.map((group) => {
+                    const keepId = keepers[group.items[0].id] ?? group.items[0].id;
+                    return (
+                      <div key={group.items[0].id} className="border rounded-xl overflow-hidden" style={{ borderColor: theme.border }}>
+                        <div className="px-3 py-2 flex items-center gap-2 border-b" style={{ borderColor: theme.border, backgroundColor: theme.input }}>
+                          <span className="text-[10px] font-bold font-mono">{Math.round(group.score * 100)}%</span>
+                          <span className="text-[10px] opacity-40 flex-1">{t('duplicates.groupSize', { count: group.items.length })}</span>
+                          <button
+                            onClick={() => dismiss(group)}
+                            className="flex items-center gap-1 px-2 py-1 rounded-md text-[10px] font-medium opacity-50 hover:opacity-100 transition-opacity"
+                            title={t('duplicates.dismissHint')}
+                          >
+                            <EyeOff className="w-3 h-3" /> {t('duplicates.dismiss')}
+                          </button>
+                          <button
+                            onClick={() => merge(group)}
+                            className="flex items-center gap-1 px-2 py-1 rounded-md text-[10px] font-bold transition-colors"
+                            style={{ backgroundColor: theme.accent, color: theme.id === 'dark' ? '#000' : '#fff' }}
+                            title={t('duplicates.mergeHint')}
+                          >
+                            <Merge className="w-3 h-3" /> {t('duplicates.merge')}
+                          </button>
+                        </div>
+                        <ul>
+                          {group.items.map((item) => (
+                            <li key={item.id}>
+                              <label className="flex items-start gap-2 px-3 py-2 cursor-pointer hover:bg-black/5 transition-colors">
+                                <input
+                                  type="radio"
+                                  name={`keep-${group.items[0].id}`}
+                                  checked={item.id === keepId}
+                                  onChange={() => setKeepers((k) => ({ ...k, [group.items[0].id]: item.id }))}
+                                  className="mt-0.5"
+                                  style={{ accentColor: theme.accent }}
+                                />
+                                <div className="flex-1 min-w-0">
+                                  <p className="text-[10px] font-mono opacity-70 break-words">{item.text}</p>
+                                  <p className="text-[9px] opacity-30 mt-0.5">
+                                    {nameOf(item.list)} · {new Date(item.createdAt).toLocaleString()}
+                                    {(item.previewUrls?.length ?? 0) > 0 && ` · ${t('duplicates.previews', { count: item.previewUrls!.length })}`}
+                                  </p>
+                                </div>
+                                {item.id === keepId && (
+                                  <span className="text-[9px] font-bold uppercase tracking-wider shrink-0" style={{ color: theme.accent }}>
+                                    {t('duplicates.keep')}
+                                  </span>
+                                )}
+                              </label>
+                            </li>
+                          ))}
+                        </ul>
+                      </div>
+                    );
+                  })}
+                </>
+              )}
+            </div>
+          </motion.div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+}
@@ -0,0 +1,282 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useState } from 'react';
+import { Replace, X } from 'lucide-react';
+import { motion, AnimatePresence } from 'motion/react';
+import { useTranslation } from 'react-i18next';
+import { Collection, ReplaceMode, ReplaceResult, Theme } from '../../types';
+import type { ReplaceRequest } from '../../api/contract';
+import { collectionLabel } from '../../utils/collectionLabel';
+import { tagDiff } from '../../utils/tagDiff';
+
+interface Props {
+  theme: Theme;
+  show: boolean;
+  collections: Collection[];
+  /** Current search bar query; the replacement can be limited to its results. */
+  searchQuery: string;
+  onClose: () => void;
+  onReplace: (request: ReplaceRequest) => Promise<ReplaceResult>;
+}
+
+const MODES: ReplaceMode[] = ['tag', 'regex'];
+const ALL_COLLECTIONS = '';
+
+/**
+ * Bulk find-and-replace. A preview (dry run) lists every wildcard that would change;
+ * Apply is only enabled for the exact request that was previewed.
+ */
+export function FindReplaceModal({ theme, show, collections, searchQuery, onClose, onReplace }: Props) {
+  const { t } = useTranslation();
+  const [mode, setMode] = useState<ReplaceMode>('tag');
+  const [find, setFind] = useState('');
+  const [replace, setReplace] = useState('');
+  const [caseSensitive, setCaseSensitive] = useState(false);
+  const [list, setList] = useState(ALL_COLLECTIONS);
+  const [onlySearch, setOnlySearch] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [preview, setPreview] = useState<ReplaceResult | null>(null);
+  const [applied, setApplied] = useState<ReplaceResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const query = searchQuery.trim();
+  const request: ReplaceRequest = {
+    mode,
+    find,
+    replace,
+    caseSensitive: mode === 'regex' ? caseSensitive : undefined,
+    list: list || undefined,
+    q: onlySearch && query ? query : undefined,
+  };
+
+  /** Any edit to the request invalidates the preview. */
+  const edit = <T,>(setter: (v: T) => void) => (value: T) => {
+    setter(value);
+    setPreview(null);
+    setApplied(null);
+    setError(null);
+  };
+
+  const run = async (dryRun: boolean) => {
+    setBusy(true);
+    setError(null);
+    try {
+      const result = await onReplace({ ...request, dryRun });
+      if (dryRun) setPreview(result);
+      else {
+        setPreview(null);
+        setApplied(result);
+      }
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleClose = () => {
+    setPreview(null);
+    setApplied(null);
+    setError(null);
+    onClose();
+  };
+
+  const nameOf = (listId: string) => {
+    const collection = collections.find((c) => c.id === listId);
+    return collection ? collectionLabel(collection, t) : listId;
+  };
+
+  const inputStyle = {
+    backgroundColor: theme.input,
+    color: theme.text,
+    '--tw-ring-color': theme.accent,
+  } as React.CSSProperties;
+
+  return (
+    <AnimatePresence>
+      {show && (
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          className="fixed inset-0 z-[200] flex items-center justify-center p-6 bg-black/50 backdrop-blur-sm"
+          onClick={handleClose}
+        >
+          <motion.div
+            initial={{ scale: 0.9, opacity: 0 }}
+            animate={{ scale: 1, opacity: 1 }}
+            exit={{ scale: 0.9, opacity: 0 }}
+            className="w-full max-w-2xl rounded-2xl shadow-2xl overflow-hidden flex flex-col"
+            style={{ backgroundColor: theme.card, color: theme.text, maxHeight: '90vh' }}
+            onClick={(e) => e.stopPropagation()}
+          >
+            <div className="p-6 border-b flex items-center gap-3 shrink-0" style={{ borderColor: theme.border }}>
+              <div className="w-8 h-8 rounded-full flex items-center justify-center shrink-0" style={{ backgroundColor: theme.input }}>
+                <Replace className="w-4 h-4" style={{ color: theme.accent }} />
+              </div>
+              <div className="flex-1">
+                <h2 className="text-sm font-bold">{t('replace.title')}</h2>
+                <p className="text-[10px] opacity-40 mt-0.5">{t('replace.subtitle')}</p>
+              </div>
+              <button onClick={handleClose} className="p-1 hover:bg-black/5 rounded-full transition-colors">
+                <X className="w-4 h-4" />
+              </button>
+            </div>
+
+            <div className="p-6 space-y-4 overflow-y-auto custom-scrollbar">
+              {/* Mode */}
+              <div className="space-y-1.5">
+                <div className="flex gap-2">
+                  {MODES.map((m) => (
+                    <button
+                      key={m}
+                      onClick={() => edit(setMode)(m)}
+                      className="flex-1 h-8 rounded-lg text-[10px] font-bold uppercase tracking-wider transition-all"
+                      style={{
+                        backgroundColor: mode === m ? theme.accent : theme.input,
+                        color: mode === m ? (theme.id === 'dark' ? '#000' : '#fff') : theme.text,
+                      }}
+                    >
+                      {t(`replace.mode.${m}`)}
+                    </button>
+                  ))}
+                </div>
+                <p className="text-[9px] opacity-30 leading-relaxed">{t(`replace.modeNote.${mode}`)}</p>
+              </div>
+
+              {/* Find / replace */}
+              <div className="grid grid-cols-2 gap-2">
+                <div className="space-y-1.5">
+                  <label className="text-[10px] font-bold uppercase tracking-wider opacity-40">{t('replace.find')}</label>
+                  <input
+                    type="text"
+                    value={find}
+                    onChange={(e) => edit(setFind)(e.target.value)}
+                    placeholder={mode === 'tag' ? 'thighhighs' : '(\\w+)_thighhighs'}
+                    className="w-full h-9 border-none rounded-lg px-3 text-xs font-mono focus:ring-1"
+                    style={inputStyle}
+                  />
+                </div>
+                <div className="space-y-1.5">
+                  <label className="text-[10px] font-bold uppercase tracking-wider opacity-40">{t('replace.replaceWith')}</label>
+                  <input
+                    type="text"
+                    value={replace}
+                    onChange={(e) => edit(setReplace)(e.target.value)}
+                    placeholder={mode === 'tag' ? t('replace.removePlaceholder') : '$1_thigh_highs'}
+                    className="w-full h-9 border-none rounded-lg px-3 text-xs font-mono focus:ring-1"
+                    style={inputStyle}
+                  />
+                </div>
+              </div>
+              {mode === 'regex' && (
+                <label className="flex items-center gap-2 text-[10px] cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={caseSensitive}
+                    onChange={(e) => edit(setCaseSensitive)(e.target.checked)}
+                    style={{ accentColor: theme.accent }}
+                  />
+                  {t('replace.caseSensitive')}
+                </label>
+              )}
+
+              {/* Scope */}
+              <div className="space-y-1.5">
+                <label className="text-[10px] font-bold uppercase tracking-wider opacity-40">{t('replace.scope')}</label>
+                <select
+                  value={list}
+                  onChange={(e) => edit(setList)(e.target.value)}
+                  className="w-full h-9 border-none rounded-lg px-3 text-xs focus:ring-1"
+                  style={inputStyle}
+                >
+                  <option value={ALL_COLLECTIONS}>{t('replace.allCollections')}</option>
+                  {collections.map((c) => (
+                    <option key={c.id} value={c.id}>{collectionLabel(c, t)}</option>
+                  ))}
+                </select>
+                {query && (
+                  <label className="flex items-center gap-2 text-[10px] cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={onlySearch}
+                      onChange={(e) => edit(setOnlySearch)(e.target.checked)}
+                      style={{ accentColor: theme.accent }}
+                    />
+                    <span>
+                      {t('replace.onlySearch')} <span className="font-mono opacity-60">{query}</span>
+                    </span>
+                  </label>
+                )}
+              </div>
+
+              {error && <p className="text-[10px] text-red-500 break-words">{error}</p>}
+
+              {/* Dry-run preview */}
+              {preview && (
+                <div className="space-y-2">
+                  <p className="text-[10px] opacity-60">
+                    {t('replace.previewSummary', { count: preview.changed, scanned: preview.scanned })}
+                    {preview.skipped > 0 && ` ${t('replace.skipped', { count: preview.skipped })}`}
+                  </p>
+                  {preview.changes.length < preview.changed && (
+                    <p className="text-[9px] opacity-40">{t('replace.previewTruncated', { shown: preview.changes.length })}</p>
+                  )}
+                  <ul className="space-y-1.5 max-h-72 overflow-y-auto custom-scrollbar">
+                    {preview.changes.map((change) => {
+                      const diff = tagDiff(change.before, change.after);
+                      return (
+                        <li key={change.id} className="rounded-lg px-3 py-2 space-y-1" style={{ backgroundColor: theme.input }}>
+                          <div className="flex flex-wrap gap-1 text-[10px] font-mono">
+                            {diff.removed.map((tag, i) => (
+                              <span key={`-${i}`} className="px-1 rounded bg-red-500/10 text-red-500 line-through">{tag}</span>
+                            ))}
+                            {diff.added.map((tag, i) => (
+                              <span key={`+${i}`} className="px-1 rounded bg-emerald-500/10 text-emerald-600">{tag}</span>
+                            ))}
+                          </div>
+                          <p className="text-[10px] font-mono opacity-50 break-words">{change.after}</p>
+                          <p className="text-[9px] opacity-30">{nameOf(change.list)}</p>
+                        </li>
+                      );
+                    })}
+                  </ul>
+                </div>
+              )}
+
+              {applied && (
+                <p className="text-[10px] text-emerald-600">
+                  {t('replace.applied', { count: applied.changed })}
+                  {applied.skipped > 0 && ` ${t('replace.skipped', { count: applied.skipped })}`}
+                </p>
+              )}
+            </div>
+
+            <div className="px-6 pb-6 flex gap-3 shrink-0">
+              <button
+                onClick={() => run(true)}
+                disabled={busy || !find.trim()}
+                className="flex-1 h-10 rounded-lg text-xs font-bold uppercase tracking-widest transition-all disabled:opacity-30"
+                style={{ backgroundColor: theme.input }}
+              >
+                {t('replace.preview')}
+              </button>
+              <button
+                onClick={() => run(false)}
+                disabled={busy || !preview || preview.changed === 0}
+                className="flex-1 h-10 rounded-lg text-xs font-bold uppercase tracking-widest transition-all disabled:opacity-30"
+                style={{ backgroundColor: theme.accent, color: theme.id === 'dark' ? '#000' : '#fff' }}
+                title={preview ? undefined : t('replace.previewFirst')}
+              >
+                {preview ? t('replace.apply', { count: preview.changed }) : t('replace.applyIdle')}
+              </button>
+            </div>
+          </motion.div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+}
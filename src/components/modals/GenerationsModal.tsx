@@ -0,0 +1,269 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useEffect, useState } from 'react';
+import { History, X, RotateCcw, Play, Trash2, ImageIcon } from 'lucide-react';
+import { motion, AnimatePresence } from 'motion/react';
+import { useTranslation } from 'react-i18next';
+import { cn } from '../../utils/cn';
+import { GenerationDetail, GenerationRecord, Theme } from '../../types';
+import { dbApi } from '../../api/dbApi';
+import { reportApiError } from '../../api/http';
+
+interface Props {
+  theme: Theme;
+  show: boolean;
+  /** A generation is running; re-running is disabled until it ends. */
+  isLoading: boolean;
+  onClose: () => void;
+  /** Puts the run's inputs (prompt, images, instruction, count, model) back into the sidebar. */
+  onRestore: (detail: GenerationDetail) => void;
+  onRerun: (detail: GenerationDetail) => void;
+}
+
+const STATUS_COLORS: Record<GenerationRecord['status'], string> = {
+  running: 'rgb(80,140,220)',
+  completed: 'rgb(60,170,90)',
+  cancelled: 'rgb(180,140,0)',
+  failed: 'rgb(220,80,80)',
+};
+
+/** Past generation runs, newest first, with their inputs, outputs, tokens and cost. */
+export function GenerationsModal({ theme, show, isLoading, onClose, onRestore, onRerun }: Props) {
+  const { t } = useTranslation();
+  const [generations, setGenerations] = useState<GenerationRecord[]>([]);
+  const [nextCursor, setNextCursor] = useState<number | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [detail, setDetail] = useState<GenerationDetail | null>(null);
+
+  // Reload from the first page each time the modal opens.
+  useEffect(() => {
+    if (!show) return;
+    dbApi.fetchGenerations()
+      .then((page) => {
+        setGenerations(page.generations);
+        setNextCursor(page.nextCursor);
+        setSelectedId(page.generations[0]?.id ?? null);
+      })
+      .catch(reportApiError);
+  }, [show]);
+
+  useEffect(() => {
+    setDetail(null);
+    if (!selectedId) return;
+    let stale = false;
+    dbApi.fetchGeneration(selectedId)
+      .then((d) => { if (!stale) setDetail(d); })
+      .catch(reportApiError);
+    return () => { stale = true; };
+  }, [selectedId]);
+
+  const loadMore = async () => {
+    if (nextCursor === null) return;
+    const page = await dbApi.fetchGenerations(nextCursor);
+    setGenerations((prev) => [...prev, ...page.generations]);
+    setNextCursor(page.nextCursor);
+  };
+
+  const handleDelete = (id: string) => {
+    const index = generations.findIndex((g) => g.id === id);
+    const rest = generations.filter((g) => g.id !== id);
+    setGenerations(rest);
+    setSelectedId(rest[Math.min(index, rest.length - 1)]?.id ?? null);
+    dbApi.removeGeneration(id);
+  };
+
+  const run = detail?.generation;
+
+  return (
+    <AnimatePresence>
+      {show && (
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          className="fixed inset-0 z-[200] flex items-center justify-center p-6 bg-black/50 backdrop-blur-sm"
+          onClick={onClose}
+        >
+          <motion.div
+            initial={{ scale: 0.9, opacity: 0 }}
+            animate={{ scale: 1, opacity: 1 }}
+            exit={{ scale: 0.9, opacity: 0 }}
+            className="w-full max-w-4xl h-[80vh] rounded-2xl shadow-2xl overflow-hidden flex flex-col"
+            style={{ backgroundColor: theme.card, color: theme.text }}
+            onClick={(e) => e.stopPropagation()}
+          >
+            <div className="p-6 border-b flex items-center gap-3 shrink-0" style={{ borderColor: theme.border }}>
+              <div className="w-8 h-8 rounded-full flex items-center justify-center shrink-0" style={{ backgroundColor: theme.input }}>
+                <History className="w-4 h-4" style={{ color: theme.accent }} />
+              </div>
+              <div className="flex-1">
+                <h2 className="text-sm font-bold">{t('generations.title')}</h2>
+                <p className="text-[10px] opacity-40 mt-0.5">{t('generations.subtitle')}</p>
+              </div>
+              <button onClick={onClose} className="p-1 hover:bg-black/5 rounded-full transition-colors">
+                <X className="w-4 h-4" />
+              </button>
+            </div>
+
+            <div className="flex-1 flex min-h-0">
+              {/* Run list */}
+              <div className="w-64 shrink-0 border-r overflow-y-auto custom-scrollbar" style={{ borderColor: theme.border }}>
+                {generations.length === 0 && (
+                  <p className="p-6 text-[10px] opacity-30 italic">{t('generations.empty')}</p>
+                )}
+                {generations.map((g) => (
+                  <button
+                    key={g.id}
+                    onClick={() => setSelectedId(g.id)}
+                    className={cn('w-full text-left px-4 py-3 border-b transition-colors', g.id !== selectedId && 'hover:bg-black/5')}
+                    style={{
+                      borderColor: theme.border,
+                      backgroundColor: g.id === selectedId ? theme.input : undefined,
+                    }}
+                  >
+                    <div className="flex items-center gap-2">
+                      <span className="w-1.5 h-1.5 rounded-full shrink-0" style={{ backgroundColor: STATUS_COLORS[g.status] }} />
+                      <span className="text-[9px] opacity-40 flex-1 truncate">{new Date(g.createdAt).toLocaleString()}</span>
+                      <span className="text-[9px] font-mono opacity-40">{g.wildcardIds.length}/{g.requested}</span>
+                    </div>
+                    <p className={cn('text-xs mt-1 truncate', !g.prompt && 'italic opacity-40')}>
+                      {g.prompt || t('generations.noPrompt')}
+                    </p>
+                    <p className="text-[9px] font-mono opacity-30 mt-0.5 truncate">{g.model} · ${g.cost.toFixed(6)}</p>
+                  </button>
+                ))}
+                {nextCursor !== null && (
+                  <button
+                    onClick={loadMore}
+                    className="w-full py-3 text-[10px] font-bold uppercase tracking-wider opacity-40 hover:opacity-100 transition-opacity"
+                  >
+                    {t('generations.loadMore')}
+                  </button>
+                )}
+              </div>
+
+              {/* Selected run */}
+              <div className="flex-1 min-w-0 flex flex-col">
+                {run ? (
+                  <>
+                    <div className="flex-1 p-6 space-y-4 overflow-y-auto custom-scrollbar">
+                      <div className="flex flex-wrap items-center gap-2 text-[10px]">
+                        <span
+                          className="px-2 py-0.5 rounded-full font-bold uppercase tracking-wider border"
+                          style={{ color: STATUS_COLORS[run.status], borderColor: STATUS_COLORS[run.status] }}
+                        >
+                          {t(`generations.status.${run.status}`)}
+                        </span>
+                        <span className="font-mono opacity-60">{t(`settings.provider.${run.provider}`)} · {run.model}</span>
+                        <span className="opacity-40">{new Date(run.createdAt).toLocaleString()}</span>
+                      </div>
+                      {run.error && <p className="text-[10px] text-red-500 break-words">{run.error}</p>}
+
+                      <ul className="grid grid-cols-4 gap-2">
+                        {[
+                          { label: t('generations.cost'), value: `$${run.cost.toFixed(6)}` },
+                          { label: t('generations.inputTokens'), value: run.usage.inputTokens },
+                          { label: t('generations.outputTokens'), value: run.usage.outputTokens },
+                          { label: t('generations.imageTokens'), value: run.usage.imageTokens },
+                        ].map(({ label, value }) => (
+                          <li key={label} className="rounded-lg px-3 py-2 text-center" style={{ backgroundColor: theme.input }}>
+                            <div className="text-xs font-bold font-mono truncate">{value}</div>
+                            <div className="text-[9px] uppercase tracking-wider opacity-40">{label}</div>
+                          </li>
+                        ))}
+                      </ul>
+
+                      <div className="space-y-1">
+                        <label className="text-[10px] font-bold uppercase tracking-wider opacity-40">{t('generations.prompt')}</label>
+                        <p className={cn('text-xs whitespace-pre-wrap break-words', !run.prompt && 'italic opacity-40')}>
+                          {run.prompt || t('generations.noPrompt')}
+                        </p>
+                      </div>
+
+                      {run.refining && (
+                        <div className="space-y-1">
+                          <label className="text-[10px] font-bold uppercase tracking-wider opacity-40">{t('generations.refining')}</label>
+                          <p className="text-[10px] font-mono opacity-60 break-words">{run.refining}</p>
+                        </div>
+                      )}
+
+                      {run.referenceImages.length > 0 && (
+                        <div className="space-y-1">
+                          <label className="text-[10px] font-bold uppercase tracking-wider opacity-40 flex items-center gap-1">
+                            <ImageIcon className="w-3 h-3" /> {t('generations.referenceImages')}
+                          </label>
+                          <div className="flex flex-wrap gap-2">
+                            {run.referenceImages.map((src, i) => (
+                              <img key={i} src={src} alt="" className="w-14 h-14 object-cover rounded-lg" />
+                            ))}
+                          </div>
+                        </div>
+                      )}
+
+                      <details className="space-y-1">
+                        <summary className="text-[10px] font-bold uppercase tracking-wider opacity-40 cursor-pointer">
+                          {t('generations.systemInstruction')}
+                        </summary>
+                        <pre
+                          className="text-[10px] font-mono whitespace-pre-wrap break-words rounded-lg p-3 opacity-60"
+                          style={{ backgroundColor: theme.input }}
+                        >
+                          {run.systemInstruction}
+                        </pre>
+                      </details>
+
+                      <div className="space-y-1">
+                        <label className="text-[10px] font-bold uppercase tracking-wider opacity-40">
+                          {t('generations.outputs', { kept: detail.wildcards.length, total: run.wildcardIds.length })}
+                        </label>
+                        <ul className="space-y-1">
+                          {detail.wildcards.map((w) => (
+                            <li key={w.id} className="text-[10px] font-mono opacity-70 rounded-md px-2 py-1 break-words" style={{ backgroundColor: theme.input }}>
+                              {w.text}
+                            </li>
+                          ))}
+                        </ul>
+                      </div>
+                    </div>
+
+                    <div className="px-6 py-4 border-t flex gap-3 shrink-0" style={{ borderColor: theme.border }}>
+                      <button
+                        onClick={() => handleDelete(run.id)}
+                        disabled={run.status === 'running'}
+                        className="h-10 px-4 rounded-lg text-xs font-bold transition-all hover:text-red-500 disabled:opacity-30 flex items-center gap-1.5"
+                        style={{ backgroundColor: theme.input }}
+                        title={t('generations.delete')}
+                      >
+                        <Trash2 className="w-3.5 h-3.5" />
+                      </button>
+                      <button
+                        onClick={() => onRestore(detail)}
+                        className="flex-1 h-10 rounded-lg text-xs font-bold uppercase tracking-widest transition-all flex items-center justify-center gap-1.5"
+                        style={{ backgroundColor: theme.input }}
+                      >
+                        <RotateCcw className="w-3.5 h-3.5" /> {t('generations.restore')}
+                      </button>
+                      <button
+                        onClick={() => onRerun(detail)}
+                        disabled={isLoading}
+                        className="flex-1 h-10 rounded-lg text-xs font-bold uppercase tracking-widest transition-all disabled:opacity-30 flex items-center justify-center gap-1.5"
+                        style={{ backgroundColor: theme.accent, color: theme.id === 'dark' ? '#000' : '#fff' }}
+                      >
+                        <Play className="w-3.5 h-3.5" /> {t('generations.rerun')}
+                      </button>
+                    </div>
+                  </>
+                ) : (
+                  <p className="p-6 text-[10px] opacity-30 italic">{selectedId ? t('generations.loading') : ''}</p>
+                )}
+              </div>
+            </div>
+          </motion.div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+}
@@ -118,13 +118,14 @@ export function GuideModal({ theme, show, onClose }: Props) {
                     <p><Trans i18nKey="guide.step4.p1" components={transComponents} /></p>
                     <p><Trans i18nKey="guide.step4.p2" components={transComponents} /></p>
                     <p><Trans i18nKey="guide.step4.p3" components={transComponents} /></p>
+                    <p><Trans i18nKey="guide.step4.p4" components={transComponents} /></p>
                   </Step>
 
                   {divider}
 
                   <Step number={5} icon={<Search className="w-3.5 h-3.5" />} titleKey="guide.step5.title">
                     <p><Trans i18nKey="guide.step5.p1" components={transComponents} /></p>
-                    <p>{t('guide.step5.p2')}</p>
+                    <p><Trans i18nKey="guide.step5.p2" components={transComponents} /></p>
                   </Step>
 
                   {divider}
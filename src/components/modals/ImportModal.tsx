@@ -0,0 +1,237 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useRef, useState } from 'react';
+import { Upload, FolderOpen, X } from 'lucide-react';
+import { motion, AnimatePresence } from 'motion/react';
+import { useTranslation } from 'react-i18next';
+import { Collection, Theme } from '../../types';
+import { collectionLabel } from '../../utils/collectionLabel';
+import type { ImportReport } from '../../api/contract';
+
+interface Props {
+  theme: Theme;
+  show: boolean;
+  collections: Collection[];
+  onClose: () => void;
+  onImport: (payload: {
+    files?: { name: string; content: string }[];
+    dir?: string;
+    list?: string;
+  }) => Promise<ImportReport>;
+}
+
+/** Sentinel target: put each file into the collection named after it. */
+const PER_FILE = '__per_file__';
+
+export function ImportModal({ theme, show, collections, onClose, onImport }: Props) {
+  const { t } = useTranslation();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [source, setSource] = useState<'upload' | 'folder'>('upload');
+  const [files, setFiles] = useState<File[]>([]);
+  const [dir, setDir] = useState('');
+  const [target, setTarget] = useState(PER_FILE);
+  const [isImporting, setIsImporting] = useState(false);
+  const [report, setReport] = useState<ImportReport | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const canImport = !isImporting && (source === 'upload' ? files.length > 0 : dir.trim() !== '');
+
+  const handleClose = () => {
+    setFiles([]);
+    setReport(null);
+    setError(null);
+    onClose();
+  };
+
+  const handleImport = async () => {
+    setIsImporting(true);
+    setError(null);
+    setReport(null);
+    try {
+      const list = target === PER_FILE ? undefined : target;
+      const payload = source === 'upload'
+        ? { files: await Promise.all(files.map(async (f) => ({ name: f.name, content: await f.text() }))), list }
+        : { dir: dir.trim(), list };
+      setReport(await onImport(payload));
+      setFiles([]);
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const inputStyle = {
+    backgroundColor: theme.input,
+    color: theme.text,
+    '--tw-ring-color': theme.accent,
+  } as React.CSSProperties;
+
+  return (
+    <AnimatePresence>
+      {show && (
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          className="fixed inset-0 z-[200] flex items-center justify-center p-6 bg-black/50 backdrop-blur-sm"
+          onClick={handleClose}
+        >
+          <motion.div
+            initial={{ scale: 0.9, opacity: 0 }}
+            animate={{ scale: 1, opacity: 1 }}
+            exit={{ scale: 0.9, opacity: 0 }}
+            className="w-full max-w-md rounded-2xl shadow-2xl overflow-hidden flex flex-col"
+            style={{ backgroundColor: theme.card, color: theme.text, maxHeight: '90vh' }}
+            onClick={(e) => e.stopPropagation()}
+          >
+            <div className="p-6 border-b flex items-center gap-3 shrink-0" style={{ borderColor: theme.border }}>
+              <div className="w-8 h-8 rounded-full flex items-center justify-center shrink-0" style={{ backgroundColor: theme.input }}>
+                <Upload className="w-4 h-4" style={{ color: theme.accent }} />
+              </div>
+              <div className="flex-1">
+                <h2 className="text-sm font-bold">{t('importModal.title')}</h2>
+                <p className="text-[10px] opacity-40 mt-0.5">{t('importModal.subtitle')}</p>
+              </div>
+              <button onClick={handleClose} className="p-1 hover:bg-black/5 rounded-full transition-colors">
+                <X className="w-4 h-4" />
+              </button>
+            </div>
+
+            <div className="p-6 space-y-4 overflow-y-auto custom-scrollbar">
+              {/* Source */}
+              <div className="flex gap-2">
+                {(['upload', 'folder'] as const).map((s) => (
+                  <button
+                    key={s}
+                    onClick={() => setSource(s)}
+                    className="flex-1 h-8 rounded-lg text-[10px] font-bold uppercase tracking-wider transition-all"
+                    style={{
+                      backgroundColor: source === s ? theme.accent : theme.input,
+                      color: source === s ? (theme.id === 'dark' ? '#000' : '#fff') : theme.text,
+                    }}
+                  >
+                    {t(`importModal.${s}`)}
+                  </button>
+                ))}
+              </div>
+
+              {source === 'upload' ? (
+                <div className="space-y-2">
+                  <button
+                    onClick={() => fileInputRef.current?.click()}
+                    className="w-full h-20 rounded-xl border border-dashed flex flex-col items-center justify-center gap-1 text-[10px] opacity-60 hover:opacity-100 transition-opacity"
+                    style={{ borderColor: theme.border }}
+                  >
+                    <Upload className="w-4 h-4" />
+                    {t('importModal.chooseFiles')}
+                  </button>
+                  <input
+                    type="file"
+                    ref={fileInputRef}
+                    className="hidden"
+                    accept=".txt,.yaml,.yml"
+                    multiple
+                    onChange={(e) => {
+                      setFiles(Array.from(e.target.files || []));
+                      e.target.value = '';
+                    }}
+                  />
+                  {files.length > 0 && (
+                    <p className="text-[10px] font-mono opacity-60 break-words">
+                      {files.map((f) => f.name).join(', ')}
+                    </p>
+                  )}
+                </div>
+              ) : (
+                <div className="space-y-1.5">
+                  <div className="relative">
+                    <FolderOpen className="absolute left-3 top-1/2 -translate-y-1/2 w-3 h-3 opacity-30" />
+                    <input
+                      type="text"
+                      value={dir}
+                      onChange={(e) => setDir(e.target.value)}
+                      placeholder={t('settings.wildcardsPlaceholder')}
+                      className="w-full h-10 border-none rounded-lg pl-8 pr-4 text-xs focus:ring-1 transition-all"
+                      style={inputStyle}
+                    />
+                  </div>
+                  <p className="text-[9px] opacity-30 leading-relaxed">{t('importModal.folderNote')}</p>
+                </div>
+              )}
+
+              {/* Target */}
+              <div className="space-y-1.5">
+                <label className="text-[10px] font-bold uppercase tracking-wider opacity-40">{t('importModal.target')}</label>
+                <select
+                  value={target}
+                  onChange={(e) => setTarget(e.target.value)}
+                  className="w-full h-9 border-none rounded-lg px-3 text-xs focus:ring-1"
+                  style={inputStyle}
+                >
+                  <option value={PER_FILE}>{t('importModal.perFile')}</option>
+                  {collections.map((c) => (
+                    <option key={c.id} value={c.id}>{collectionLabel(c, t)}</option>
+                  ))}
+                </select>
+              </div>
+
+              {error && <p className="text-[10px] text-red-500">{error}</p>}
+
+              {/* Result */}
+              {report && (
+                <div className="space-y-2">
+                  <ul className="grid grid-cols-3 gap-2">
+                    {[
+                      { label: t('importModal.added'), value: report.added },
+                      { label: t('importModal.skipped'), value: report.skipped },
+                      { label: t('importModal.malformed'), value: report.malformed },
+                    ].map(({ label, value }) => (
+                      <li key={label} className="rounded-lg px-3 py-2 text-center" style={{ backgroundColor: theme.input }}>
+                        <div className="text-sm font-bold font-mono">{value}</div>
+                        <div className="text-[9px] uppercase tracking-wider opacity-40">{label}</div>
+                      </li>
+                    ))}
+                  </ul>
+                  <ul className="space-y-1 max-h-40 overflow-y-auto custom-scrollbar">
+                    {report.files.map((f) => (
+                      <li key={f.name} className="flex items-center justify-between gap-2 text-[10px]">
+                        <span className="font-mono opacity-60 truncate">{f.name}</span>
+                        {f.error ? (
+                          <span className="text-red-500 shrink-0">{f.error}</span>
+                        ) : (
+                          <span className="font-mono opacity-40 shrink-0">+{f.added} / ={f.skipped} / !{f.malformed}</span>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+            </div>
+
+            <div className="px-6 pb-6 flex gap-3 shrink-0">
+              <button
+                onClick={handleClose}
+                className="flex-1 h-10 rounded-lg text-xs font-bold uppercase tracking-widest transition-all"
+                style={{ backgroundColor: theme.input }}
+              >
+                {t('importModal.close')}
+              </button>
+              <button
+                onClick={handleImport}
+                disabled={!canImport}
+                className="flex-1 h-10 rounded-lg text-xs font-bold uppercase tracking-widest transition-all disabled:opacity-30"
+                style={{ backgroundColor: theme.accent, color: theme.id === 'dark' ? '#000' : '#fff' }}
+              >
+                {isImporting ? t('importModal.importing') : t('importModal.import')}
+              </button>
+            </div>
+          </motion.div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+}
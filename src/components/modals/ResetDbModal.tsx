@@ -7,19 +7,19 @@ import React from 'react';
 import { Trash2 } from 'lucide-react';
 import { motion, AnimatePresence } from 'motion/react';
 import { useTranslation } from 'react-i18next';
-import { Theme } from '../../types';
+import { Collection, Theme } from '../../types';
+import { collectionLabel } from '../../utils/collectionLabel';
 
 interface Props {
   theme: Theme;
   show: boolean;
-  generatedCount: number;
-  savedCount: number;
+  collections: Collection[];
   allTimeCost: number;
   onClose: () => void;
   onReset: () => void;
 }
 
-export function ResetDbModal({ theme, show, generatedCount, savedCount, allTimeCost, onClose, onReset }: Props) {
+export function ResetDbModal({ theme, show, collections, allTimeCost, onClose, onReset }: Props) {
   const { t } = useTranslation();
   return (
     <AnimatePresence>
@@ -53,8 +53,8 @@ export function ResetDbModal({ theme, show, generatedCount, savedCount, allTimeC
               <p className="text-xs opacity-60 leading-relaxed">{t('resetModal.description')}</p>
               <ul className="space-y-2">
                 {[
-                  { label: t('resetModal.generatedWildcards'), value: generatedCount },
-                  { label: t('resetModal.savedWildcards'), value: savedCount },
+                  ...collections.map((c) => ({ label: collectionLabel(c, t), value: c.count })),
+                  { label: t('resetModal.customCollections'), value: collections.filter((c) => !c.builtin).length },
                   { label: t('resetModal.allTimeCost'), value: `$${allTimeCost.toFixed(6)}` },
                   { label: t('resetModal.apiKeyGallery'), value: t('resetModal.cleared') },
                 ].map(({ label, value }) => (
@@ -68,6 +68,7 @@ export function ResetDbModal({ theme, show, generatedCount, savedCount, allTimeC
                   </li>
                 ))}
               </ul>
+              <p className="text-[10px] opacity-40 leading-relaxed">{t('resetModal.trashNote')}</p>
             </div>
 
             <div className="px-6 pb-6 flex gap-3">
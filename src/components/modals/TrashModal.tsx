@@ -0,0 +1,220 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useEffect, useState } from 'react';
+import { Trash2, X, RotateCcw } from 'lucide-react';
+import { motion, AnimatePresence } from 'motion/react';
+import { useTranslation } from 'react-i18next';
+import { Theme, TrashItem } from '../../types';
+import { dbApi } from '../../api/dbApi';
+import { reportApiError } from '../../api/http';
+
+interface Props {
+  theme: Theme;
+  show: boolean;
+  onClose: () => void;
+  /** Called after a restore with the collections that got wildcards back. */
+  onRestored: (lists: string[]) => void;
+}
+
+/** Deleted wildcards, most recent first; each can be restored or deleted for good. */
+export function TrashModal({ theme, show, onClose, onRestored }: Props) {
+  const { t } = useTranslation();
+  const [items, setItems] = useState<TrashItem[]>([]);
+  const [total, setTotal] = useState(0);
+  const [nextCursor, setNextCursor] = useState<number | null>(null);
+  const [retention, setRetention] = useState(30);
+  const [retentionDraft, setRetentionDraft] = useState('30');
+  const [confirmEmpty, setConfirmEmpty] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Reload from the first page each time the modal opens.
+  useEffect(() => {
+    if (!show) return;
+    setConfirmEmpty(false);
+    setError(null);
+    dbApi.fetchTrash()
+      .then((page) => {
+        setItems(page.items);
+        setTotal(page.total);
+        setNextCursor(page.nextCursor);
+      })
+      .catch(reportApiError);
+    dbApi.fetchTrashRetention()
+      .then((days) => {
+        setRetention(days);
+        setRetentionDraft(String(days));
+      })
+      .catch(reportApiError);
+  }, [show]);
+
+  const loadMore = async () => {
+    if (nextCursor === null) return;
+    const page = await dbApi.fetchTrash(nextCursor);
+    setItems((prev) => [...prev, ...page.items]);
+    setNextCursor(page.nextCursor);
+  };
+
+  const drop = (ids: string[]) => {
+    setItems((prev) => prev.filter((i) => !ids.includes(i.id)));
+    setTotal((n) => n - ids.length);
+  };
+
+  const restore = async (item: TrashItem) => {
+    try {
+      const { lists, conflicts } = await dbApi.restoreTrash({ ids: [item.id] });
+      if (conflicts.length > 0) {
+        setError(t('trash.conflict'));
+        return;
+      }
+      drop([item.id]);
+      onRestored(lists);
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  const purge = (item: TrashItem) => {
+    drop([item.id]);
+    dbApi.purgeTrash([item.id]);
+  };
+
+  const emptyTrash = () => {
+    setItems([]);
+    setTotal(0);
+    setNextCursor(null);
+    setConfirmEmpty(false);
+    dbApi.purgeTrash();
+  };
+
+  const commitRetention = async () => {
+    const days = Number(retentionDraft);
+    if (days === retention) return;
+    try {
+      setRetention(await dbApi.updateTrashRetention(days));
+      setError(null);
+    } catch (err) {
+      setRetentionDraft(String(retention));
+      setError((err as Error).message);
+    }
+  };
+
+  return (
+    <AnimatePresence>
+      {show && (
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          className="fixed inset-0 z-[200] flex items-center justify-center p-6 bg-black/50 backdrop-blur-sm"
+          onClick={onClose}
+        >
+          <motion.div
+            initial={{ scale: 0.9, opacity: 0 }}
+            animate={{ scale: 1, opacity: 1 }}
+            exit={{ scale: 0.9, opacity: 0 }}
+            className="w-full max-w-2xl h-[80vh] rounded-2xl shadow-2xl overflow-hidden flex flex-col"
+            style={{ backgroundColor: theme.card, color: theme.text }}
+            onClick={(e) => e.stopPropagation()}
+          >
+            <div className="p-6 border-b flex items-center gap-3 shrink-0" style={{ borderColor: theme.border }}>
+              <div className="w-8 h-8 rounded-full flex items-center justify-center shrink-0" style={{ backgroundColor: theme.input }}>
+                <Trash2 className="w-4 h-4" style={{ color: theme.accent }} />
+              </div>
+              <div className="flex-1">
+                <h2 className="text-sm font-bold">{t('trash.title')}</h2>
+                <p className="text-[10px] opacity-40 mt-0.5">{t('trash.subtitle', { count: total })}</p>
+              </div>
+              <button onClick={onClose} className="p-1 hover:bg-black/5 rounded-full transition-colors">
+                <X className="w-4 h-4" />
+              </button>
+            </div>
+
+            {/* Retention and Empty trash */}
+            <div className="px-6 py-3 border-b flex items-center gap-3 shrink-0 text-[10px]" style={{ borderColor: theme.border }}>
+              <label className="flex-1 flex items-center gap-2">
+                <span className="opacity-50">{t('trash.retentionBefore')}</span>
+                <input
+                  type="number"
+                  min="1"
+                  max="3650"
+                  value={retentionDraft}
+                  onChange={(e) => setRetentionDraft(e.target.value)}
+                  onBlur={commitRetention}
+                  onKeyDown={(e) => { if (e.key === 'Enter') e.currentTarget.blur(); }}
+                  className="w-16 h-7 border-none rounded-lg px-2 text-xs font-mono focus:ring-1"
+                  style={{ backgroundColor: theme.input, color: theme.text, '--tw-ring-color': theme.accent } as React.CSSProperties}
+                />
+                <span className="opacity-50">{t('trash.retentionAfter')}</span>
+              </label>
+              {confirmEmpty ? (
+                <>
+                  <button
+                    onClick={() => setConfirmEmpty(false)}
+                    className="px-2.5 py-1 rounded-md text-[10px] font-bold transition-colors"
+                    style={{ backgroundColor: theme.input }}
+                  >
+                    {t('list.cancel')}
+                  </button>
+                  <button
+                    onClick={emptyTrash}
+                    className="px-2.5 py-1 rounded-md text-[10px] font-bold text-white bg-red-500 hover:bg-red-600 transition-colors"
+                  >
+                    {t('trash.emptyConfirm', { count: total })}
+                  </button>
+                </>
+              ) : (
+                <button
+                  onClick={() => setConfirmEmpty(true)}
+                  disabled={total === 0}
+                  className="flex items-center gap-1.5 px-2 py-1 hover:bg-black/5 rounded-md transition-colors opacity-50 hover:opacity-100 disabled:opacity-20 disabled:cursor-not-allowed font-medium"
+                >
+                  <Trash2 className="w-3 h-3" /> {t('trash.empty')}
+                </button>
+              )}
+            </div>
+
+            <div className="flex-1 overflow-y-auto custom-scrollbar">
+              {error && <p className="px-6 pt-3 text-[10px] text-red-500 break-words">{error}</p>}
+              {items.length === 0 && <p className="p-6 text-[10px] opacity-30 italic">{t('trash.none')}</p>}
+              {items.map((item) => (
+                <div key={item.id} className="px-6 py-3 border-b flex items-start gap-3" style={{ borderColor: theme.border }}>
+                  <div className="flex-1 min-w-0">
+                    <p className="text-[10px] font-mono opacity-70 break-words">{item.text}</p>
+                    <p className="text-[9px] opacity-30 mt-0.5">
+                      {item.listName} · {t('trash.deletedAt', { date: new Date(item.deletedAt).toLocaleString() })}
+                    </p>
+                  </div>
+                  <button
+                    onClick={() => restore(item)}
+                    className="flex items-center gap-1 px-2 py-1 border rounded-md text-[10px] font-medium transition-colors shrink-0"
+                    style={{ backgroundColor: theme.input, borderColor: theme.border }}
+                  >
+                    <RotateCcw className="w-3 h-3" /> {t('card.restore')}
+                  </button>
+                  <button
+                    onClick={() => purge(item)}
+                    className="p-1.5 rounded-md opacity-40 hover:opacity-100 hover:text-red-500 transition-all shrink-0"
+                    title={t('trash.purge')}
+                  >
+                    <X className="w-3 h-3" />
+                  </button>
+                </div>
+              ))}
+              {nextCursor !== null && (
+                <button
+                  onClick={loadMore}
+                  className="w-full py-3 text-[10px] font-bold uppercase tracking-wider opacity-40 hover:opacity-100 transition-opacity"
+                >
+                  {t('trash.loadMore')}
+                </button>
+              )}
+            </div>
+          </motion.div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+}
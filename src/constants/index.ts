@@ -3,7 +3,25 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
-import { Theme } from '../types';
+import { DuplicateSettings, LlmConfig, Theme } from '../types';
+
+/** Collection that receives newly generated wildcards. */
+export const GENERATED_COLLECTION = 'generated';
+/** Default target of the Save button. */
+export const SAVED_COLLECTION = 'saved';
+
+/** Provider settings before the server config has loaded (and after a reset). */
+export const DEFAULT_LLM_CONFIG: LlmConfig = {
+  provider: 'gemini',
+  hasApiKey: false,
+  geminiModel: 'gemini-3-flash-preview',
+  openaiBaseUrl: '',
+  openaiModel: '',
+  hasOpenaiApiKey: false,
+};
+
+/** Duplicate detection before the server settings have loaded (and after a reset). */
+export const DEFAULT_DUPLICATE_SETTINGS: DuplicateSettings = { threshold: 0.8, action: 'flag' };
 
 export const DEFAULT_SYSTEM_INSTRUCTION = `You are an expert Danbooru tagger for Stable Diffusion and ComfyUI. Your task is to generate highly detailed, comprehensive wildcards describing full-body outfits.
 When given a text request and-or image references, you must meticulously analyze it and tag EVERY piece of clothing from head to toe. Do not omit any garment. Ensure tops, outerwear, bottoms, legwear, footwear, and accessories are all explicitly included.
@@ -0,0 +1,84 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { AppNotification, NotificationKind } from '../types';
+
+/** Entries kept in the log; older ones drop off. */
+const MAX_LOG = 50;
+/** Toasts on screen at once; a newer one pushes the oldest out (it stays in the log). */
+const MAX_TOASTS = 3;
+/** How long a toast stays up. Errors stay longer so their details can be read. */
+const TOAST_MS: Record<NotificationKind, number> = { success: 4000, info: 4000, error: 10000 };
+
+export type NewNotification = Omit<AppNotification, 'id' | 'createdAt'>;
+
+export interface NotificationsHandle {
+  /** Newest first. */
+  log: AppNotification[];
+  /** Entries currently shown as toasts, newest first. */
+  toasts: AppNotification[];
+  /** Entries added since the log was last opened. */
+  unread: number;
+  notify: (notification: NewNotification) => void;
+  /** Hides the toast; the entry stays in the log. */
+  dismiss: (id: number) => void;
+  /** Runs the entry's retry and removes the Retry action from it. */
+  retry: (id: number) => void;
+  markRead: () => void;
+  clear: () => void;
+}
+
+/** Toasts plus a log of recent notifications, for the header's notification center. */
+export function useNotifications(): NotificationsHandle {
+  const [log, setLog] = useState<AppNotification[]>([]);
+  const [toastIds, setToastIds] = useState<number[]>([]);
+  const [readUpTo, setReadUpTo] = useState(0);
+  const nextIdRef = useRef(1);
+  const timersRef = useRef(new Map<number, ReturnType<typeof setTimeout>>());
+
+  useEffect(() => () => timersRef.current.forEach(clearTimeout), []);
+
+  const dismiss = useCallback((id: number) => {
+    clearTimeout(timersRef.current.get(id));
+    timersRef.current.delete(id);
+    setToastIds((prev) => prev.filter((t) => t !== id));
+  }, []);
+
+  const notify = useCallback((notification: NewNotification) => {
+    const entry = { ...notification, id: nextIdRef.current++, createdAt: Date.now() };
+    setLog((prev) => [entry, ...prev].slice(0, MAX_LOG));
+    setToastIds((prev) => [entry.id, ...prev].slice(0, MAX_TOASTS));
+    timersRef.current.set(entry.id, setTimeout(() => dismiss(entry.id), TOAST_MS[entry.kind]));
+  }, [dismiss]);
+
+  const retry = useCallback((id: number) => {
+    const entry = log.find((n) => n.id === id);
+    if (!entry?.retry) return;
+    dismiss(id);
+    setLog((prev) => prev.map((n) => (n.id === id ? { ...n, retry: undefined } : n)));
+    entry.retry();
+  }, [log, dismiss]);
+
+  const markRead = useCallback(() => setReadUpTo(nextIdRef.current - 1), []);
+
+  const clear = useCallback(() => {
+    timersRef.current.forEach(clearTimeout);
+    timersRef.current.clear();
+    setLog([]);
+    setToastIds([]);
+  }, []);
+
+  return {
+    log,
+    toasts: toastIds.flatMap((id) => log.filter((n) => n.id === id)),
+    unread: log.filter((n) => n.id > readUpTo).length,
+    notify,
+    dismiss,
+    retry,
+    markRead,
+    clear,
+  };
+}
@@ -0,0 +1,31 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { useEffect, useState } from 'react';
+import { SyncStatus, getSyncStatus, hasPendingWrite, onSyncStatus } from '../api/writeQueue';
+
+/** Live status of the offline write queue. */
+export function useSyncStatus(): SyncStatus {
+  const [status, setStatus] = useState(getSyncStatus);
+  useEffect(() => {
+    setStatus(getSyncStatus());
+    return onSyncStatus(setStatus);
+  }, []);
+  return status;
+}
+
+/**
+ * Whether the wildcard has a write the server doesn't have yet, waiting in the queue
+ * or on its way. Re-renders only when that changes.
+ */
+export function useUnsavedWrite(wildcardId: string): boolean {
+  const [unsaved, setUnsaved] = useState(false);
+  useEffect(() => {
+    const check = () => setUnsaved(hasPendingWrite(wildcardId));
+    check();
+    return onSyncStatus(check);
+  }, [wildcardId]);
+  return unsaved;
+}
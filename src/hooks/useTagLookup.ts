@@ -0,0 +1,79 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { useEffect, useState } from 'react';
+import { TagLookup } from '../types';
+import { dbApi } from '../api/dbApi';
+
+// Lookups are shared by every card: tags requested within one tick are sent in a
+// single request, and answers are cached until the dictionary changes.
+const BATCH_SIZE = 500;
+const cache = new Map<string, TagLookup>();
+const pending = new Set<string>();
+const listeners = new Set<() => void>();
+let loaded = false;
+let flushTimer: ReturnType<typeof setTimeout> | null = null;
+
+/** Lowercase, trimmed, spaces → underscores — the form the dictionary stores tags in. */
+export const normalizeTag = (tag: string) => tag.trim().toLowerCase().replace(/\s+/g, '_');
+
+async function flush() {
+  flushTimer = null;
+  const tags = [...pending];
+  pending.clear();
+  let answered = false;
+  for (let i = 0; i < tags.length; i += BATCH_SIZE) {
+    const batch = tags.slice(i, i + BATCH_SIZE);
+    try {
+      const result = await dbApi.lookupTags(batch);
+      loaded = result.loaded;
+      // Without a dictionary the server reports nothing; cache the tags as unchecked.
+      for (const tag of batch) cache.set(tag, result.tags[tag] ?? { info: null, suggestions: [] });
+      answered = true;
+    } catch {
+      // Left uncached so a later render asks again.
+    }
+  }
+  if (answered) listeners.forEach((notify) => notify());
+}
+
+/** Forgets every lookup, e.g. after a new dictionary is loaded. */
+export function resetTagLookups() {
+  cache.clear();
+  loaded = false;
+  listeners.forEach((notify) => notify());
+}
+
+/**
+ * Dictionary entries of `tags`, keyed by normalized tag. `loaded` is false when no
+ * dictionary is loaded, in which case no tag should be shown as unknown.
+ */
+export function useTagLookup(tags: string[]): { loaded: boolean; lookups: Map<string, TagLookup> } {
+  const [, setVersion] = useState(0);
+
+  useEffect(() => {
+    const notify = () => setVersion((v) => v + 1);
+    listeners.add(notify);
+    return () => { listeners.delete(notify); };
+  }, []);
+
+  useEffect(() => {
+    let added = false;
+    for (const tag of tags.map(normalizeTag)) {
+      if (tag && !cache.has(tag) && !pending.has(tag)) {
+        pending.add(tag);
+        added = true;
+      }
+    }
+    if (added && !flushTimer) flushTimer = setTimeout(flush, 0);
+  }); // runs after every render: the cache may have been reset since
+
+  const lookups = new Map<string, TagLookup>();
+  for (const tag of tags.map(normalizeTag)) {
+    const lookup = cache.get(tag);
+    if (lookup) lookups.set(tag, lookup);
+  }
+  return { loaded, lookups };
+}
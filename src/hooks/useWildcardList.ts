@@ -6,6 +6,7 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
 import { WildcardItem } from '../types';
 import { dbApi } from '../api/dbApi';
+import { reportApiError } from '../api/http';
 
 const PAGE_SIZE = 50;
 
@@ -23,6 +24,8 @@ export interface WildcardListHandle {
   update: (id: string, patch: Partial<WildcardItem>) => void;
   remove: (id: string) => void;
   clear: () => void;
+  /** Discards local items and re-fetches the first page (e.g. after a server-side import). */
+  reload: () => void;
 }
 
 /**
@@ -32,7 +35,7 @@ export interface WildcardListHandle {
  * subsequent "load more" fetches.
  */
 export function useWildcardList(
-  list: 'generated' | 'saved',
+  list: string,
   searchQuery: string,
 ): WildcardListHandle {
   const [items, setItems] = useState<WildcardItem[]>([]);
@@ -42,23 +45,30 @@ export function useWildcardList(
   const [serverTotal, setServerTotal] = useState(0);
   const [isLoadingMore, setIsLoadingMore] = useState(false);
   const [isInitialLoad, setIsInitialLoad] = useState(true);
+  // Bumped by reload() to re-run the fetch-from-scratch effect.
+  const [reloadToken, setReloadToken] = useState(0);
 
   // Refs for async-safe coordination.
   const nextCursorRef = useRef<number | null>(null); // position cursor for next page
   const isFetchingRef = useRef(false);               // prevents concurrent fetches
+  const refetchQueuedRef = useRef(false);            // a from-scratch fetch came in during another
   const activeQueryRef = useRef(searchQuery);        // detects stale responses
 
   const fetchPage = useCallback(
     async (q: string, cursor: number | null, replace: boolean) => {
-      if (isFetchingRef.current) return;
+      if (isFetchingRef.current) {
+        // A new search or a reload must not be lost; it runs once this fetch is done.
+        if (replace) refetchQueuedRef.current = true;
+        return;
+      }
       isFetchingRef.current = true;
       setIsLoadingMore(true);
       try {
         const result = await dbApi.fetchList(list, { limit: PAGE_SIZE, cursor, q });
-        // Discard if the search query changed while we were waiting.
-        if (activeQueryRef.current !== q) return;
+        // Discard if the search query changed or a reload was asked for while we were waiting.
+        if (activeQueryRef.current !== q || refetchQueuedRef.current) return;
         nextCursorRef.current = result.nextCursor;
-        setServerTotal(result.total);
+        if (result.total !== null) setServerTotal(result.total);
         if (replace) {
           setItems(result.items);
           setDbFetched(result.items.length);
@@ -67,11 +77,16 @@ export function useWildcardList(
           setItems((prev) => [...prev, ...result.items]);
           setDbFetched((prev) => prev + result.items.length);
         }
-      } catch {
+      } catch (err) {
+        reportApiError(err);
         setIsInitialLoad(false);
       } finally {
         isFetchingRef.current = false;
         setIsLoadingMore(false);
+        if (refetchQueuedRef.current) {
+          refetchQueuedRef.current = false;
+          setReloadToken((n) => n + 1);
+        }
       }
     },
     [list],
@@ -86,7 +101,7 @@ export function useWildcardList(
     setDbFetched(0);
     setServerTotal(0);
     fetchPage(searchQuery, null, true);
-  }, [searchQuery, list, fetchPage]);
+  }, [searchQuery, list, fetchPage, reloadToken]);
 
   const hasMore = dbFetched < serverTotal;
 
@@ -127,6 +142,8 @@ export function useWildcardList(
     nextCursorRef.current = null;
   }, []);
 
+  const reload = useCallback(() => setReloadToken((n) => n + 1), []);
+
   return {
     items,
     total: serverTotal,
@@ -138,5 +155,6 @@ export function useWildcardList(
     update,
     remove,
     clear,
+    reload,
   };
 }
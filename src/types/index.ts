@@ -10,6 +10,273 @@ export type WildcardItem = {
   previewUrl?: string;
   /** All preview images linked to this wildcard, oldest first. */
   previewUrls?: string[];
+  /** Generation run that produced it (kept on saved copies). */
+  generationId?: string;
+  /** Wildcard this one was refined from. */
+  parentId?: string;
+  /** Wildcard this one is a saved copy of. */
+  copiedFrom?: string;
+  /** Closest existing wildcard when this one was flagged as a near-duplicate on creation. */
+  duplicateOf?: { id: string; score: number };
+};
+
+/** The refine/copy tree a wildcard belongs to. */
+export type WildcardLineage = {
+  rootId: string;
+  /** Every wildcard in the tree, oldest first. */
+  nodes: (WildcardItem & { list: string })[];
+};
+
+/** Wildcard the next generation refines. `id` is null when it is no longer known. */
+export type RefineTarget = {
+  id: string | null;
+  text: string;
+};
+
+/** A previous text of a wildcard, recorded each time it is edited. */
+export type WildcardEdit = {
+  id: string;
+  text: string;
+  createdAt: number;
+};
+
+/** A named wildcard list, shown as a column when `visible` is set. */
+export type Collection = {
+  id: string;
+  name: string;
+  visible: boolean;
+  /** Built-in collections ('generated', 'saved') can't be deleted. */
+  builtin: boolean;
+  /** Number of wildcards stored in this collection. */
+  count: number;
+  createdAt: number;
+};
+
+/** Progress of a running generation, updated as the server streams it. */
+export type GenerationProgress = {
+  /** 1-based index of the batch being generated. */
+  batch: number;
+  batches: number;
+  /** Wildcards received so far, across all batches. */
+  received: number;
+  requested: number;
+  /** Pre-flight cost estimate of the whole run. */
+  estimatedCost: number;
+};
+
+export type ProviderId = 'gemini' | 'openai';
+
+export type TokenUsage = {
+  inputTokens: number;
+  outputTokens: number;
+  imageTokens: number;
+};
+
+/** One generation run as recorded by the server. */
+export type GenerationRecord = {
+  id: string;
+  provider: ProviderId;
+  model: string;
+  prompt: string;
+  systemInstruction: string;
+  refining: string | null;
+  refiningId: string | null;
+  referenceImageCount: number;
+  requested: number;
+  /** Ids of the wildcards it produced, in the order the model wrote them. */
+  wildcardIds: string[];
+  usage: TokenUsage;
+  cost: number;
+  status: 'running' | 'completed' | 'cancelled' | 'failed';
+  error?: string;
+  createdAt: number;
+  finishedAt: number | null;
+};
+
+/** A run with its reference images and the output wildcards that still exist. */
+export type GenerationDetail = {
+  generation: GenerationRecord & { referenceImages: string[] };
+  wildcards: (WildcardItem & { list: string })[];
+};
+
+/** LLM provider settings as reported by the server; API keys only as "is set" flags. */
+export type LlmConfig = {
+  provider: ProviderId;
+  hasApiKey: boolean;
+  /** Selected Gemini model. */
+  geminiModel: string;
+  /** OpenAI-compatible endpoint, e.g. http://localhost:11434/v1 for Ollama. */
+  openaiBaseUrl: string;
+  openaiModel: string;
+  hasOpenaiApiKey: boolean;
+};
+
+/** Writable provider settings; an empty key removes it. */
+export type LlmConfigPatch = {
+  provider?: ProviderId;
+  apiKey?: string;
+  geminiModel?: string;
+  openaiBaseUrl?: string;
+  openaiModel?: string;
+  openaiApiKey?: string;
+};
+
+export type BudgetPeriod = 'session' | 'daily' | 'monthly';
+
+/** 'block' refuses runs estimated to go over a budget; 'confirm' asks first. */
+export type BudgetMode = 'block' | 'confirm';
+
+/** Budget limits in USD (null = no limit) and the spend they are checked against. */
+export type BudgetStatus = {
+  limits: Record<BudgetPeriod, number | null>;
+  mode: BudgetMode;
+  spend: { daily: number; monthly: number };
+};
+
+/** Fields to change in PATCH /api/budget; a null limit removes it. */
+export type BudgetPatch = Partial<Record<BudgetPeriod, number | null>> & { mode?: BudgetMode };
+
+/** Pre-flight check of a generation against the budgets. */
+export type GenerationEstimate = {
+  estimate: TokenUsage & { cost: number };
+  spend: Record<BudgetPeriod, number>;
+  limits: Record<BudgetPeriod, number | null>;
+  mode: BudgetMode;
+  /** Budgets the run would go over, if any. */
+  exceeded: BudgetPeriod[];
+};
+
+/** Token rates of one model, in USD per million tokens. */
+export type ModelPricing = {
+  id: string;
+  provider: ProviderId;
+  model: string;
+  inputPerMTok: number;
+  outputPerMTok: number;
+  imagePerMTok: number;
+};
+
+/** 'tag' replaces whole tags (an empty replacement removes them); 'regex' rewrites the text. */
+export type ReplaceMode = 'tag' | 'regex';
+
+/** One wildcard a bulk find/replace changes. */
+export type ReplaceChange = {
+  id: string;
+  list: string;
+  before: string;
+  after: string;
+};
+
+export type ReplaceResult = {
+  /** Nothing was written; `changes` is a preview. */
+  dryRun: boolean;
+  /** Wildcards in scope. */
+  scanned: number;
+  changed: number;
+  /** Matches left alone because the replacement would have emptied the wildcard. */
+  skipped: number;
+  /** Collections holding changed wildcards. */
+  lists: string[];
+  /** The first 500 changes. */
+  changes: ReplaceChange[];
+};
+
+/** A deleted wildcard waiting in the trash. */
+export type TrashItem = {
+  /** The trash entry's own id; the wildcard keeps its id when restored. */
+  id: string;
+  text: string;
+  /** Collection it was deleted from; recreated from `listName` on restore if it's gone. */
+  list: string;
+  listName: string;
+  /** Everything deleted by the same action shares a batch, restored together by Undo. */
+  batchId: string;
+  deletedAt: number;
+};
+
+/** Answer to a delete: the trash batch to undo it with. */
+export type TrashReceipt = {
+  batchId: string;
+  trashed: number;
+};
+
+/** A database snapshot in the server's backups folder. */
+export type BackupInfo = {
+  name: string;
+  /** manual from Settings, auto on the schedule, pre-restore/pre-migration taken before a restore, import or upgrade. */
+  kind: 'manual' | 'auto' | 'pre-restore' | 'pre-migration';
+  size: number;
+  createdAt: number;
+};
+
+export type BackupSettings = {
+  /** Hours between automatic backups; 0 turns them off. */
+  intervalHours: number;
+  /** Automatic (and pre-restore) backups kept; older ones are deleted. */
+  keep: number;
+};
+
+/** What happens to a new wildcard that is a near-duplicate of an existing one. */
+export type DuplicateAction = 'off' | 'flag' | 'drop';
+
+export type DuplicateSettings = {
+  /** Tag-set Jaccard similarity (0–1] at which two wildcards count as near-duplicates. */
+  threshold: number;
+  action: DuplicateAction;
+};
+
+/** Wildcards that are near-duplicates of each other, oldest first. */
+export type DuplicateGroup = {
+  /** Lowest similarity between the pairs that joined the group. */
+  score: number;
+  items: (WildcardItem & { list: string })[];
+};
+
+/** A tag from the Danbooru dictionary. Categories: 0 general, 1 artist, 3 copyright, 4 character, 5 meta. */
+export type TagInfo = {
+  name: string;
+  category: number;
+  postCount: number;
+  /** Set on autocomplete results matched through an alias. */
+  alias?: string;
+};
+
+/** Dictionary lookup of a tag: its entry, or null with suggested corrections when unknown. */
+export type TagLookup = {
+  info: TagInfo | null;
+  suggestions: string[];
+};
+
+export type CostBucket = 'day' | 'week';
+
+/** Spend and token totals over a set of LLM calls. */
+export type CostTotals = TokenUsage & {
+  cost: number;
+  calls: number;
+};
+
+/** Spend in a date range, per day or week (server local time) and per model. */
+export type CostAnalytics = {
+  bucket: CostBucket;
+  total: CostTotals;
+  /** Every period in the range, oldest first; `start` is its first day as YYYY-MM-DD. */
+  periods: { start: string; cost: number; calls: number; byModel: Record<string, number> }[];
+  /** Highest spend first. */
+  models: (CostTotals & { provider: ProviderId; model: string })[];
+};
+
+export type NotificationKind = 'success' | 'info' | 'error';
+
+/** An entry of the notification log; new ones also show as toasts for a few seconds. */
+export type AppNotification = {
+  id: number;
+  kind: NotificationKind;
+  title: string;
+  /** Details, such as the server's or the provider's error message. */
+  message?: string;
+  /** Sends a failed background save again; dropped once used. */
+  retry?: () => void;
+  createdAt: number;
 };
 
 export type Theme = {
@@ -0,0 +1,23 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { TFunction } from 'i18next';
+import { Collection } from '../types';
+
+const BUILTIN_DEFAULT_NAMES: Record<string, string> = {
+  generated: 'Generated',
+  saved: 'Saved',
+};
+
+/**
+ * Display name for a collection. Built-in collections that still carry their
+ * seeded English name are shown translated; renamed ones show the user's name.
+ */
+export function collectionLabel(collection: Collection, t: TFunction): string {
+  if (collection.builtin && BUILTIN_DEFAULT_NAMES[collection.id] === collection.name) {
+    return t(`list.${collection.id}`);
+  }
+  return collection.name;
+}
@@ -0,0 +1,27 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/** Tags compare case-insensitively, with spaces and underscores treated alike. */
+const normalizeTag = (tag: string) => tag.trim().toLowerCase().replace(/\s+/g, '_');
+
+export interface TagDiff {
+  added: string[];
+  removed: string[];
+  kept: string[];
+}
+
+/** Tag-level difference between two comma-separated wildcards, in the order each tag appears. */
+export function tagDiff(from: string, to: string): TagDiff {
+  const split = (text: string) => text.split(',').map((t) => t.trim()).filter(Boolean);
+  const fromTags = split(from);
+  const toTags = split(to);
+  const fromKeys = new Set(fromTags.map(normalizeTag));
+  const toKeys = new Set(toTags.map(normalizeTag));
+  return {
+    added: toTags.filter((t) => !fromKeys.has(normalizeTag(t))),
+    removed: fromTags.filter((t) => !toKeys.has(normalizeTag(t))),
+    kept: toTags.filter((t) => fromKeys.has(normalizeTag(t))),
+  };
+}
@@ -0,0 +1,25 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { TFunction } from 'i18next';
+import { TagInfo } from '../types';
+
+/** Danbooru's own category colours, so tags look the way they do on the site. */
+const CATEGORY_COLORS: Record<number, string> = {
+  0: '#0075f8',
+  1: '#c00004',
+  3: '#a800aa',
+  4: '#00ab2c',
+  5: '#fd9200',
+};
+
+export const tagCategoryColor = (category: number) => CATEGORY_COLORS[category] ?? '#888888';
+
+/** "character · 12K posts" — the hover text of a dictionary tag. */
+export function describeTag(info: TagInfo, t: TFunction): string {
+  const category = t(`tags.category.${info.category in CATEGORY_COLORS ? info.category : 'other'}`);
+  const posts = new Intl.NumberFormat(undefined, { notation: 'compact' }).format(info.postCount);
+  return t('tags.info', { category, posts, count: info.postCount });
+}
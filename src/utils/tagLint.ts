@@ -0,0 +1,140 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * Checks a comma-separated Danbooru wildcard against the rules of the default
+ * system instruction. Shared by the cards (badges) and the server (the
+ * `lint:` search filter), so it must stay free of browser and Node APIs.
+ */
+
+export type LintCode = 'duplicate' | 'spaces' | 'uncolored' | 'conflict' | 'missing_region';
+
+export const LINT_CODES: LintCode[] = ['duplicate', 'spaces', 'uncolored', 'conflict', 'missing_region'];
+
+export interface LintIssue {
+  code: LintCode;
+  /** Offending tags as written; body regions for 'missing_region'. */
+  tags: string[];
+}
+
+export type BodyRegion = 'head' | 'top' | 'bottom' | 'full' | 'legwear' | 'footwear' | 'hands' | 'neck';
+
+/**
+ * Garment nouns by region. A tag is a garment when it equals a noun or ends in
+ * `_<noun>`; nouns marked with a leading `*` also match as a word suffix
+ * (miniskirt, sweatpants).
+ */
+const GARMENTS: Record<BodyRegion, string[]> = {
+  head: ['hat', 'cap', 'beret', 'beanie', 'headband', 'hairband', 'helmet', 'tiara', 'bandana', 'hood'],
+  top: [
+    '*shirt', 'blouse', 'top', 'sweater', 'cardigan', 'hoodie', 'jacket', 'coat', 'vest', 'camisole', 'tank_top',
+    'turtleneck', 'tunic', 'corset', 'blazer', 'parka', 'poncho', 'bra', 'bikini_top', 'sailor_collar',
+  ],
+  bottom: ['*skirt', '*shorts', '*pants', 'jeans', 'trousers', 'hakama', 'bikini_bottom', 'panties'],
+  full: [
+    '*dress', 'gown', 'jumpsuit', 'overalls', 'bodysuit', 'leotard', '*swimsuit', 'romper', 'kimono', 'yukata', 'robe',
+    'bikini', 'serafuku',
+  ],
+  legwear: ['thighhighs', 'kneehighs', 'socks', 'pantyhose', 'stockings', 'leggings', 'tights', 'leg_warmers'],
+  footwear: ['shoes', 'sneakers', 'boots', 'sandals', 'heels', 'loafers', 'slippers', 'pumps', 'geta', 'mary_janes', 'footwear'],
+  hands: ['gloves', 'mittens'],
+  neck: ['scarf', 'necktie', 'bowtie', 'choker'],
+};
+
+const COLORS = new Set([
+  'white', 'black', 'red', 'blue', 'green', 'yellow', 'purple', 'pink', 'orange', 'brown', 'grey', 'gray', 'beige',
+  'navy', 'aqua', 'cyan', 'magenta', 'violet', 'lavender', 'maroon', 'teal', 'tan', 'gold', 'silver', 'khaki',
+  'olive', 'cream', 'multicolored', 'rainbow', 'two-tone',
+]);
+
+/** Tags that stand in for a region being covered (or deliberately bare). */
+const REGION_SUBSTITUTES: Partial<Record<BodyRegion, string[]>> = {
+  top: ['topless', 'nude', 'completely_nude', 'naked'],
+  bottom: ['bottomless', 'nude', 'completely_nude', 'naked'],
+  footwear: ['barefoot', 'no_shoes', 'nude', 'completely_nude', 'naked'],
+};
+
+/** Regions every outfit should name; a full-body garment covers top and bottom. */
+const REQUIRED_REGIONS: BodyRegion[] = ['top', 'bottom', 'footwear'];
+
+type Matcher = string[] | { region: BodyRegion };
+
+/** Pairs that can't both be true of one image. */
+const CONFLICTS: [Matcher, Matcher][] = [
+  [['barefoot', 'no_shoes'], { region: 'footwear' }],
+  [['bare_legs'], { region: 'legwear' }],
+  [['topless'], { region: 'top' }],
+  [['bottomless'], { region: 'bottom' }],
+  [['nude', 'completely_nude', 'naked'], { region: 'top' }],
+  [['nude', 'completely_nude', 'naked'], { region: 'bottom' }],
+  [['nude', 'completely_nude', 'naked'], { region: 'full' }],
+  [['standing'], ['sitting', 'lying', 'kneeling', 'squatting', 'on_back', 'on_stomach']],
+  [['sitting'], ['lying', 'on_back', 'on_stomach']],
+];
+
+const normalizeTag = (tag: string) => tag.trim().toLowerCase().replace(/\s+/g, '_');
+
+function garmentMatches(tag: string, noun: string): boolean {
+  const compound = noun.startsWith('*');
+  const word = compound ? noun.slice(1) : noun;
+  return tag === word || tag.endsWith(`_${word}`) || (compound && tag.endsWith(word));
+}
+
+/** Body region a normalized tag dresses, or null for non-garment tags. */
+export function garmentRegion(tag: string): BodyRegion | null {
+  // Bare skin tags (bare_legs, no_shoes) name a region without dressing it.
+  if (tag.startsWith('bare_') || tag.startsWith('no_')) return null;
+  for (const region of Object.keys(GARMENTS) as BodyRegion[]) {
+    if (GARMENTS[region].some((noun) => garmentMatches(tag, noun))) return region;
+  }
+  return null;
+}
+
+const hasColor = (tag: string) => tag.split(/[_\s]+/).some((word) => COLORS.has(word) || COLORS.has(word.split('-')[0]));
+
+export function lintWildcard(text: string): LintIssue[] {
+  const tags = text.split(',').map((t) => t.trim()).filter(Boolean);
+  const normalized = tags.map(normalizeTag);
+  const regions = normalized.map(garmentRegion);
+  const issues: LintIssue[] = [];
+
+  const seen = new Set<string>();
+  const duplicates = tags.filter((_, i) => {
+    const dup = seen.has(normalized[i]);
+    seen.add(normalized[i]);
+    return dup;
+  });
+  if (duplicates.length > 0) issues.push({ code: 'duplicate', tags: duplicates });
+
+  const spaced = tags.filter((t) => /\s/.test(t));
+  if (spaced.length > 0) issues.push({ code: 'spaces', tags: spaced });
+
+  const uncolored = tags.filter((_, i) => regions[i] !== null && !hasColor(normalized[i]));
+  if (uncolored.length > 0) issues.push({ code: 'uncolored', tags: uncolored });
+
+  const find = (m: Matcher) => {
+    const i = Array.isArray(m) ? normalized.findIndex((t) => m.includes(t)) : regions.indexOf(m.region);
+    return i === -1 ? null : tags[i];
+  };
+  const conflicting: string[] = [];
+  for (const [a, b] of CONFLICTS) {
+    const tagA = find(a);
+    const tagB = tagA && find(b);
+    if (tagA && tagB) conflicting.push(`${tagA} × ${tagB}`);
+  }
+  if (conflicting.length > 0) issues.push({ code: 'conflict', tags: conflicting });
+
+  // Only outfits are expected to cover the body; pose or style wildcards aren't.
+  if (regions.some((r) => r !== null)) {
+    const covered = (region: BodyRegion) =>
+      regions.includes(region) ||
+      ((region === 'top' || region === 'bottom') && regions.includes('full')) ||
+      normalized.some((t) => REGION_SUBSTITUTES[region]?.includes(t));
+    const missing = REQUIRED_REGIONS.filter((r) => !covered(r));
+    if (missing.length > 0) issues.push({ code: 'missing_region', tags: missing });
+  }
+
+  return issues;
+}